@@ -0,0 +1,333 @@
+#Requires -Version 5.1
+<#
+.SYNOPSIS
+    Long-lived PowerShell host for the BC Test Runner VS Code extension.
+
+.DESCRIPTION
+    Keeps BCTestRunner (and BcContainerHelper, once a request has loaded it) imported
+    in a persistent runspace and serves requests over line-delimited JSON-RPC 2.0:
+    one JSON object per line on stdin (requests) and stdout (responses and
+    notifications).
+
+    Requests:
+      invoke   { command, parameters, workingDirectory?, env? }  Run a module command
+      cancel   { id }                                            Stop a running request
+      shutdown                                                   Exit after the current request
+
+    Notifications sent by the host:
+      ready    { psVersion }             Module imported, host accepts requests
+      output   { id, stream, text }      Host and error stream output of a request
+
+    Only one request runs at a time; the extension queues requests.
+
+.PARAMETER ModulePath
+    Path to BCTestRunner.psm1.
+#>
+[CmdletBinding()]
+param(
+    [Parameter(Mandatory)]
+    [string]$ModulePath
+)
+
+$ErrorActionPreference = 'Stop'
+$WarningPreference = 'SilentlyContinue'
+$ProgressPreference = 'SilentlyContinue'
+
+$utf8 = New-Object System.Text.UTF8Encoding($false)
+[Console]::OutputEncoding = $utf8
+$stdin = New-Object System.IO.StreamReader([Console]::OpenStandardInput(), $utf8)
+
+# JSON-RPC error codes
+$script:ErrorCodes = @{
+    ParseError      = -32700
+    MethodNotFound  = -32601
+    InvalidParams   = -32602
+    ExecutionFailed = -32000
+    HostBusy        = -32001
+    Cancelled       = -32800
+}
+
+#region Protocol
+
+function Send-RpcMessage {
+    param(
+        [Parameter(Mandatory)]
+        [System.Collections.IDictionary]$Message
+    )
+
+    $Message['jsonrpc'] = '2.0'
+    [Console]::Out.WriteLine(($Message | ConvertTo-Json -Depth 100 -Compress))
+    [Console]::Out.Flush()
+}
+
+function Send-RpcResult {
+    param($Id, $Result)
+
+    Send-RpcMessage ([ordered]@{ id = $Id; result = $Result })
+}
+
+function Send-RpcError {
+    param(
+        $Id,
+        [int]$Code,
+        [string]$Message,
+        $Data
+    )
+
+    $errorObject = [ordered]@{ code = $Code; message = $Message }
+    if ($Data) {
+        $errorObject.data = $Data
+    }
+    Send-RpcMessage ([ordered]@{ id = $Id; error = $errorObject })
+}
+
+function Send-RpcOutput {
+    param($Id, [string]$Stream, [string]$Text)
+
+    Send-RpcMessage ([ordered]@{
+        method = 'output'
+        params = [ordered]@{ id = $Id; stream = $Stream; text = $Text }
+    })
+}
+
+#endregion
+
+#region Request Execution
+
+function ConvertTo-Hashtable {
+    param($InputObject)
+
+    $table = @{}
+    if ($InputObject) {
+        foreach ($property in $InputObject.PSObject.Properties) {
+            $table[$property.Name] = $property.Value
+        }
+    }
+    return $table
+}
+
+function Start-HostRequest {
+    param(
+        [Parameter(Mandatory)]
+        $Request
+    )
+
+    $params = $Request.params
+    $previousEnv = @{}
+    foreach ($entry in (ConvertTo-Hashtable $params.env).GetEnumerator()) {
+        $previousEnv[$entry.Key] = [Environment]::GetEnvironmentVariable($entry.Key)
+        [Environment]::SetEnvironmentVariable($entry.Key, [string]$entry.Value)
+    }
+
+    $ps = [PowerShell]::Create()
+    $ps.Runspace = $script:Runspace
+
+    if ($params.workingDirectory) {
+        [void]$ps.AddCommand('Set-Location').AddParameter('LiteralPath', $params.workingDirectory)
+        [void]$ps.Invoke()
+        $ps.Commands.Clear()
+    }
+
+    [void]$ps.AddCommand($params.command)
+    foreach ($entry in (ConvertTo-Hashtable $params.parameters).GetEnumerator()) {
+        [void]$ps.AddParameter($entry.Key, $entry.Value)
+    }
+
+    return [PSCustomObject]@{
+        Id          = $Request.id
+        PowerShell  = $ps
+        Handle      = $ps.BeginInvoke()
+        PreviousEnv = $previousEnv
+        InfoIndex   = 0
+        ErrorIndex  = 0
+    }
+}
+
+function Send-PendingOutput {
+    param(
+        [Parameter(Mandatory)]
+        $Current
+    )
+
+    $streams = $Current.PowerShell.Streams
+    while ($Current.InfoIndex -lt $streams.Information.Count) {
+        $record = $streams.Information[$Current.InfoIndex]
+        $Current.InfoIndex++
+        Send-RpcOutput -Id $Current.Id -Stream 'host' -Text ([string]$record.MessageData)
+    }
+    while ($Current.ErrorIndex -lt $streams.Error.Count) {
+        $record = $streams.Error[$Current.ErrorIndex]
+        $Current.ErrorIndex++
+        Send-RpcOutput -Id $Current.Id -Stream 'error' -Text ([string]$record)
+    }
+}
+
+function Complete-HostRequest {
+    param(
+        [Parameter(Mandatory)]
+        $Current
+    )
+
+    $ps = $Current.PowerShell
+    try {
+        $output = $ps.EndInvoke($Current.Handle)
+        Send-PendingOutput -Current $Current
+
+        $result = switch ($output.Count) {
+            0 { $null }
+            1 { $output[0] }
+            default { @($output) }
+        }
+        Send-RpcResult -Id $Current.Id -Result $result
+    }
+    catch {
+        Send-PendingOutput -Current $Current
+
+        if ($ps.InvocationStateInfo.State -eq 'Stopped') {
+            Send-RpcError -Id $Current.Id -Code $script:ErrorCodes.Cancelled -Message 'Operation was cancelled'
+        }
+        else {
+            # EndInvoke wraps the terminating error of the pipeline
+            $exception = $_.Exception
+            while ($exception -is [System.Management.Automation.MethodInvocationException] -and $exception.InnerException) {
+                $exception = $exception.InnerException
+            }
+
+            $data = [ordered]@{ type = $exception.GetType().Name }
+            if ($exception -is [System.Management.Automation.IContainsErrorRecord]) {
+                $record = $exception.ErrorRecord
+                $data.scriptStackTrace = $record.ScriptStackTrace
+                $data.targetObject = [string]$record.TargetObject
+                $data.fullyQualifiedErrorId = $record.FullyQualifiedErrorId
+            }
+
+            Send-RpcError -Id $Current.Id -Code $script:ErrorCodes.ExecutionFailed -Message $exception.Message -Data $data
+        }
+    }
+    finally {
+        foreach ($entry in $Current.PreviousEnv.GetEnumerator()) {
+            [Environment]::SetEnvironmentVariable($entry.Key, $entry.Value)
+        }
+        $ps.Dispose()
+    }
+}
+
+#endregion
+
+#region Main Loop
+
+$script:Runspace = [runspacefactory]::CreateRunspace()
+$script:Runspace.Open()
+
+$import = [PowerShell]::Create()
+$import.Runspace = $script:Runspace
+[void]$import.AddScript(@'
+param($ModulePath)
+$global:WarningPreference = 'SilentlyContinue'
+$global:ProgressPreference = 'SilentlyContinue'
+Import-Module $ModulePath -Force -ErrorAction Stop -WarningAction SilentlyContinue -DisableNameChecking 3>$null
+'@).AddArgument($ModulePath)
+
+try {
+    [void]$import.Invoke()
+}
+catch {
+    [Console]::Error.WriteLine("Failed to import BCTestRunner module: $($_.Exception.Message)")
+    exit 1
+}
+finally {
+    $import.Dispose()
+}
+
+Send-RpcMessage ([ordered]@{
+    method = 'ready'
+    params = [ordered]@{ psVersion = $PSVersionTable.PSVersion.ToString() }
+})
+
+$current = $null
+$shutdownRequested = $false
+$pendingRead = $stdin.ReadLineAsync()
+
+while ($true) {
+    if ($pendingRead -and $pendingRead.Wait(50)) {
+        $line = $pendingRead.Result
+        $pendingRead = $null
+
+        if ($null -eq $line) {
+            # stdin closed - the extension is gone
+            $shutdownRequested = $true
+        }
+        else {
+            $pendingRead = $stdin.ReadLineAsync()
+        }
+
+        if ($line -and $line.Trim()) {
+            $request = $null
+            try {
+                $request = $line | ConvertFrom-Json
+            }
+            catch {
+                Send-RpcError -Id $null -Code $script:ErrorCodes.ParseError -Message "Invalid JSON: $($_.Exception.Message)"
+            }
+
+            if ($request) {
+                switch ($request.method) {
+                    'invoke' {
+                        if ($current) {
+                            Send-RpcError -Id $request.id -Code $script:ErrorCodes.HostBusy -Message 'Host is busy with another request'
+                        }
+                        elseif (-not $request.params -or -not $request.params.command) {
+                            Send-RpcError -Id $request.id -Code $script:ErrorCodes.InvalidParams -Message 'Missing command'
+                        }
+                        else {
+                            try {
+                                $current = Start-HostRequest -Request $request
+                            }
+                            catch {
+                                Send-RpcError -Id $request.id -Code $script:ErrorCodes.ExecutionFailed -Message $_.Exception.Message
+                            }
+                        }
+                    }
+                    'cancel' {
+                        if ($current -and $current.Id -eq $request.params.id) {
+                            [void]$current.PowerShell.BeginStop($null, $null)
+                        }
+                    }
+                    'shutdown' {
+                        $shutdownRequested = $true
+                    }
+                    default {
+                        Send-RpcError -Id $request.id -Code $script:ErrorCodes.MethodNotFound -Message "Unknown method: $($request.method)"
+                    }
+                }
+            }
+        }
+    }
+
+    if ($current) {
+        Send-PendingOutput -Current $current
+        if ($current.Handle.IsCompleted) {
+            Complete-HostRequest -Current $current
+            $current = $null
+        }
+        elseif ($shutdownRequested -and -not $pendingRead) {
+            [void]$current.PowerShell.BeginStop($null, $null)
+        }
+    }
+
+    if ($shutdownRequested -and -not $current) {
+        break
+    }
+
+    if (-not $pendingRead -and -not $current) {
+        break
+    }
+
+    if (-not $pendingRead) {
+        Start-Sleep -Milliseconds 50
+    }
+}
+
+$script:Runspace.Dispose()
+
+#endregion
@@ -8,7 +8,7 @@
     - Configuration loading and validation
     - Credential handling
     - Test result processing
-    - AI-friendly export format
+    - Test run output returned to the extension
 #>
 
 BeforeAll {
@@ -119,6 +119,100 @@ Describe 'Get-BCTestRunnerConfig' {
             $env.authentication | Should -Not -BeNullOrEmpty
         }
     }
+
+    Context 'Test apps' {
+        It 'Should migrate a single testApp to testApps' {
+            $config = Get-BCTestRunnerConfig -ConfigPath $script:TestConfigPath
+            
+            @($config.testApps) | Should -HaveCount 1
+            $config.testApps[0].extensionName | Should -Be 'Test App'
+        }
+
+        It 'Should keep the configured testApps' {
+            $multiAppConfig = $script:ValidConfig.Clone()
+            $multiAppConfig.Remove('testApp')
+            $multiAppConfig.testApps = @(
+                @{ path = 'UnitTests'; extensionId = '12345678-1234-1234-1234-123456789012'; extensionName = 'Unit Tests'; testCodeunitRange = '80000..80099' },
+                @{ path = 'IntegrationTests'; extensionId = '12345678-1234-1234-1234-123456789013'; extensionName = 'Integration Tests'; testCodeunitRange = '81000..81099' }
+            )
+            $multiAppConfigPath = Join-Path $script:TestFixturesPath 'multiapp.config.json'
+            $multiAppConfig | ConvertTo-Json -Depth 10 | Out-File -FilePath $multiAppConfigPath -Encoding utf8
+            
+            $config = Get-BCTestRunnerConfig -ConfigPath $multiAppConfigPath
+            
+            @($config.testApps) | Should -HaveCount 2
+            $config.testApps[1].extensionName | Should -Be 'Integration Tests'
+        }
+    }
+}
+
+Describe 'Get-BCTestApps' {
+    BeforeAll {
+        $script:TestAppsConfig = [PSCustomObject]@{
+            testApps = @(
+                [PSCustomObject]@{ extensionId = '12345678-1234-1234-1234-123456789012'; extensionName = 'Unit Tests'; testCodeunitRange = '80000..80099' },
+                [PSCustomObject]@{ extensionId = '12345678-1234-1234-1234-123456789013'; extensionName = 'Integration Tests'; testCodeunitRange = '81000..81099' }
+            )
+        }
+    }
+
+    It 'Should return all test apps when none is selected' {
+        $result = InModuleScope BCTestRunner {
+            param($config)
+            Get-BCTestApps -Config $config
+        } -ArgumentList $script:TestAppsConfig
+        
+        @($result) | Should -HaveCount 2
+    }
+
+    It 'Should select a test app by name or extension ID' {
+        $byName = InModuleScope BCTestRunner {
+            param($config)
+            Get-BCTestApps -Config $config -TestApp 'integration tests'
+        } -ArgumentList $script:TestAppsConfig
+        $byId = InModuleScope BCTestRunner {
+            param($config)
+            Get-BCTestApps -Config $config -TestApp '12345678-1234-1234-1234-123456789012'
+        } -ArgumentList $script:TestAppsConfig
+        
+        $byName.extensionName | Should -Be 'Integration Tests'
+        $byId.extensionName | Should -Be 'Unit Tests'
+    }
+
+    It 'Should throw for an unknown test app' {
+        {
+            InModuleScope BCTestRunner {
+                param($config)
+                Get-BCTestApps -Config $config -TestApp 'Upgrade Tests'
+            } -ArgumentList $script:TestAppsConfig
+        } | Should -Throw '*not found*'
+    }
+}
+
+Describe 'Test-BCCodeunitFilterOverlap' {
+    It 'Should detect overlapping filters' {
+        $result = InModuleScope BCTestRunner {
+            Test-BCCodeunitFilterOverlap -Filter '80005|90000' -OtherFilter '80000..80099'
+        }
+        
+        $result | Should -Be $true
+    }
+
+    It 'Should treat open-ended ranges as unbounded' {
+        $result = InModuleScope BCTestRunner {
+            Test-BCCodeunitFilterOverlap -Filter '81050' -OtherFilter '81000..'
+        }
+        
+        $result | Should -Be $true
+    }
+
+    It 'Should reject filters without a common codeunit' {
+        $result = InModuleScope BCTestRunner {
+            Test-BCCodeunitFilterOverlap -Filter '81000..81099' -OtherFilter '80000..80099'
+        }
+        
+        $result | Should -Be $false
+    }
 }
 
 Describe 'ConvertTo-PSCredentialFromJson' {
@@ -183,34 +277,44 @@ Describe 'ConvertTo-PSCredentialFromJson' {
     }
 }
 
-Describe 'Get-ParsedStackTrace' {
-    Context 'Parsing AL stack traces' {
-        It 'Should parse AL stack trace format' {
-            $stackTrace = 'TestCodeunit(80001).TestMethod line 25'
+Describe 'ConvertFrom-BCTestOutputLine' {
+    Context 'Parsing Run-TestsInBcContainer output' {
+        It 'Should parse a finished codeunit line' {
+            $result = InModuleScope BCTestRunner {
+                ConvertFrom-BCTestOutputLine -Line '  Codeunit 80001 Sales Tests Success (1.25 seconds)'
+            }
             
+            $result.Type | Should -Be 'codeunitFinished'
+            $result.Data.codeunitId | Should -Be 80001
+            $result.Data.codeunit | Should -Be 'Sales Tests'
+            $result.Data.result | Should -Be 'Pass'
+            $result.Data.duration | Should -Be 1.25
+        }
+
+        It 'Should treat a codeunit line without outcome as started' {
             $result = InModuleScope BCTestRunner {
-                param($stackTrace)
-                Get-ParsedStackTrace -StackTrace $stackTrace
-            } -ArgumentList $stackTrace
+                ConvertFrom-BCTestOutputLine -Line '  Codeunit 80002 Purchase Tests '
+            }
             
-            $result | Should -Not -BeNullOrEmpty
-            $result.codeunit | Should -Be 'TestCodeunit'
-            $result.codeunitId | Should -Be 80001
-            $result.method | Should -Be 'TestMethod'
-            $result.lineNumber | Should -Be 25
+            $result.Type | Should -Be 'codeunitStarted'
+            $result.Data.codeunitId | Should -Be 80002
+            $result.Data.codeunit | Should -Be 'Purchase Tests'
         }
 
-        It 'Should return null for invalid stack trace' {
+        It 'Should parse a failed test function line' {
             $result = InModuleScope BCTestRunner {
-                Get-ParsedStackTrace -StackTrace 'invalid stack trace format'
+                ConvertFrom-BCTestOutputLine -Line '    Testfunction TestPostInvoice Failure (0.5 seconds)'
             }
             
-            $result | Should -BeNullOrEmpty
+            $result.Type | Should -Be 'testFinished'
+            $result.Data.method | Should -Be 'TestPostInvoice'
+            $result.Data.result | Should -Be 'Fail'
+            $result.Data.duration | Should -Be 0.5
         }
 
-        It 'Should return null for null input' {
+        It 'Should return null for other output' {
             $result = InModuleScope BCTestRunner {
-                Get-ParsedStackTrace -StackTrace $null
+                ConvertFrom-BCTestOutputLine -Line 'Running tests in container: bc'
             }
             
             $result | Should -BeNullOrEmpty
@@ -218,9 +322,78 @@ Describe 'Get-ParsedStackTrace' {
     }
 }
 
-Describe 'Export-TestResultsForAI' {
+Describe 'Get-ALAppCompileOrder' {
     BeforeAll {
-        $script:OutputPath = Join-Path $script:TestFixturesPath 'test_output.json'
+        $script:AppsWorkspacePath = Join-Path $script:TestFixturesPath 'apps'
+        
+        function New-TestAppFolder {
+            param([string]$Name, [string]$Id, [string[]]$DependsOn = @())
+            
+            $folder = Join-Path $script:AppsWorkspacePath $Name
+            New-Item -ItemType Directory -Path $folder -Force | Out-Null
+            @{
+                id           = $Id
+                name         = $Name
+                publisher    = 'Test'
+                version      = '1.0.0.0'
+                dependencies = @($DependsOn | ForEach-Object { @{ id = $_; name = 'Dependency'; publisher = 'Test'; version = '1.0.0.0' } })
+            } | ConvertTo-Json -Depth 5 | Out-File -FilePath (Join-Path $folder 'app.json') -Encoding utf8
+        }
+        
+        $script:AppId = '11111111-1111-1111-1111-111111111111'
+        $script:TestAppId = '22222222-2222-2222-2222-222222222222'
+        $script:LoopAId = '33333333-3333-3333-3333-333333333333'
+        $script:LoopBId = '44444444-4444-4444-4444-444444444444'
+        
+        New-TestAppFolder -Name 'App' -Id $script:AppId -DependsOn @('63ca2fa4-4f03-4f2b-a480-172fef340d3f')
+        New-TestAppFolder -Name 'TestApp' -Id $script:TestAppId -DependsOn @($script:AppId)
+        New-TestAppFolder -Name 'Standalone' -Id '55555555-5555-5555-5555-555555555555'
+        New-TestAppFolder -Name 'LoopA' -Id $script:LoopAId -DependsOn @($script:LoopBId)
+        New-TestAppFolder -Name 'LoopB' -Id $script:LoopBId -DependsOn @($script:LoopAId)
+    }
+
+    AfterAll {
+        if (Test-Path $script:AppsWorkspacePath) {
+            Remove-Item $script:AppsWorkspacePath -Recurse -Force
+        }
+    }
+
+    Context 'Dependency ordering' {
+        It 'Should place dependencies before dependent apps' {
+            $ordered = Get-ALAppCompileOrder -WorkspacePath $script:AppsWorkspacePath -Apps @('TestApp', 'App')
+            
+            $ordered.Name | Should -Be @('App', 'TestApp')
+        }
+
+        It 'Should keep the configured order of independent apps' {
+            $ordered = Get-ALAppCompileOrder -WorkspacePath $script:AppsWorkspacePath -Apps @('Standalone', 'App', 'TestApp')
+            
+            $ordered.Name | Should -Be @('Standalone', 'App', 'TestApp')
+        }
+
+        It 'Should ignore dependencies outside the workspace' {
+            $ordered = Get-ALAppCompileOrder -WorkspacePath $script:AppsWorkspacePath -Apps @('App')
+            
+            $ordered.Name | Should -Be @('App')
+        }
+    }
+
+    Context 'Invalid workspaces' {
+        It 'Should throw on circular dependencies' {
+            { Get-ALAppCompileOrder -WorkspacePath $script:AppsWorkspacePath -Apps @('LoopA', 'LoopB') } |
+                Should -Throw '*Circular dependency*'
+        }
+
+        It 'Should throw when app.json is missing' {
+            { Get-ALAppCompileOrder -WorkspacePath $script:AppsWorkspacePath -Apps @('Missing') } |
+                Should -Throw '*app.json not found*'
+        }
+    }
+}
+
+Describe 'ConvertTo-BCTestRunOutput' {
+    BeforeAll {
+        $script:AIResultsFile = Join-Path $script:TestFixturesPath 'test_output_AI.json'
         
         $script:MockEnvironment = [PSCustomObject]@{
             name = 'test-env'
@@ -230,113 +403,169 @@ Describe 'Export-TestResultsForAI' {
         }
         
         $script:MockTestResults = [PSCustomObject]@{
-            TotalTests = 10
-            PassedTests = 8
-            FailedTests = 2
-            SkippedTests = 0
-            Success = $false
+            ResultsFile = Join-Path $script:TestFixturesPath 'TestResults.xml'
+            ErrorMessage = $null
             Duration = [TimeSpan]::FromSeconds(30)
-            TestResults = @(
+            Apps = @(
                 [PSCustomObject]@{
-                    Codeunit = 'TestCodeunit'
-                    CodeunitId = 80001
-                    Method = 'PassingTest'
-                    Name = 'PassingTest'
-                    Result = 'Pass'
-                    Duration = '1.5'
-                },
-                [PSCustomObject]@{
-                    Codeunit = 'TestCodeunit'
-                    CodeunitId = 80001
-                    Method = 'FailingTest'
-                    Name = 'FailingTest'
-                    Result = 'Fail'
-                    Duration = '2.0'
-                }
-            )
-            Failures = @(
-                [PSCustomObject]@{
-                    Codeunit = 'TestCodeunit'
-                    CodeunitId = 80001
-                    Method = 'FailingTest'
-                    Name = 'FailingTest'
-                    Error = 'Assert.AreEqual failed'
-                    StackTrace = 'TestCodeunit(80001).FailingTest line 50'
-                    Duration = '2.0'
-                    FilePath = $null
-                    LineNumber = $null
+                    App = 'Unit Tests'
+                    ExtensionId = '12345678-1234-1234-1234-123456789012'
+                    Duration = [TimeSpan]::FromSeconds(30)
                 }
             )
         }
     }
 
-    AfterEach {
-        if (Test-Path $script:OutputPath) {
-            Remove-Item $script:OutputPath -Force
+    Context 'Output format' {
+        It 'Should include the schema version and the AI results file' {
+            $output = ConvertTo-BCTestRunOutput `
+                -AIResultsFile $script:AIResultsFile `
+                -Environment $script:MockEnvironment `
+                -TestResults $script:MockTestResults
+            
+            $output.schema | Should -Be '1.0'
+            $output.aiResultsFile | Should -Be $script:AIResultsFile
         }
-    }
 
-    Context 'Export format' {
-        It 'Should create JSON file with correct schema version' {
-            Export-TestResultsForAI `
-                -OutputPath $script:OutputPath `
+        It 'Should include environment information' {
+            $output = ConvertTo-BCTestRunOutput `
+                -AIResultsFile $script:AIResultsFile `
                 -Environment $script:MockEnvironment `
+                -WorkspacePath $script:TestFixturesPath `
                 -TestResults $script:MockTestResults
             
-            Test-Path $script:OutputPath | Should -Be $true
+            $output.environment.name | Should -Be 'test-env'
+            $output.environment.server | Should -Be 'http://testcontainer'
+            $output.workspacePath | Should -Be $script:TestFixturesPath
+        }
+
+        It 'Should not write the AI results file' {
+            ConvertTo-BCTestRunOutput `
+                -AIResultsFile $script:AIResultsFile `
+                -Environment $script:MockEnvironment `
+                -TestResults $script:MockTestResults | Out-Null
             
-            $content = Get-Content $script:OutputPath -Raw | ConvertFrom-Json
-            $content.schema | Should -Be '1.0'
+            Test-Path $script:AIResultsFile | Should -Be $false
         }
+    }
 
-        It 'Should include environment information' {
-            Export-TestResultsForAI `
-                -OutputPath $script:OutputPath `
+    Context 'Test run' {
+        It 'Should include the XUnit file and duration of the run' {
+            $output = ConvertTo-BCTestRunOutput `
+                -AIResultsFile $script:AIResultsFile `
                 -Environment $script:MockEnvironment `
                 -TestResults $script:MockTestResults
             
-            $content = Get-Content $script:OutputPath -Raw | ConvertFrom-Json
-            $content.environment.name | Should -Be 'test-env'
-            $content.environment.server | Should -Be 'http://testcontainer'
+            $output.testRun.resultsFile | Should -Be $script:MockTestResults.ResultsFile
+            $output.testRun.duration | Should -Be '00:00:30'
         }
 
-        It 'Should include test summary' {
-            Export-TestResultsForAI `
-                -OutputPath $script:OutputPath `
+        It 'Should include the test apps that ran' {
+            $output = ConvertTo-BCTestRunOutput `
+                -AIResultsFile $script:AIResultsFile `
                 -Environment $script:MockEnvironment `
                 -TestResults $script:MockTestResults
             
-            $content = Get-Content $script:OutputPath -Raw | ConvertFrom-Json
-            $content.tests.summary.total | Should -Be 10
-            $content.tests.summary.passed | Should -Be 8
-            $content.tests.summary.failed | Should -Be 2
+            @($output.testRun.apps) | Should -HaveCount 1
+            $output.testRun.apps[0].app | Should -Be 'Unit Tests'
+            $output.testRun.apps[0].extensionId | Should -Be '12345678-1234-1234-1234-123456789012'
+        }
+
+        It 'Should not include a test run when the tests did not run' {
+            $output = ConvertTo-BCTestRunOutput `
+                -AIResultsFile $script:AIResultsFile `
+                -Environment $script:MockEnvironment
+            
+            $output.PSObject.Properties.Name | Should -Not -Contain 'testRun'
         }
+    }
 
-        It 'Should include failures with details' {
-            Export-TestResultsForAI `
-                -OutputPath $script:OutputPath `
+    Context 'Compilation results' {
+        It 'Should not include compilation without a compile phase' {
+            $output = ConvertTo-BCTestRunOutput `
+                -AIResultsFile $script:AIResultsFile `
                 -Environment $script:MockEnvironment `
                 -TestResults $script:MockTestResults
             
-            $content = Get-Content $script:OutputPath -Raw | ConvertFrom-Json
-            $content.tests.failures | Should -HaveCount 1
-            $content.tests.failures[0].error | Should -Be 'Assert.AreEqual failed'
+            $output.PSObject.Properties.Name | Should -Not -Contain 'compilation'
         }
 
-        It 'Should include AI context with suggestions' {
-            Export-TestResultsForAI `
-                -OutputPath $script:OutputPath `
+        It 'Should include a failed compilation' {
+            $compilation = [PSCustomObject]@{
+                success  = $false
+                apps     = @([PSCustomObject]@{ app = 'App'; success = $false; error = 'Compilation failed' })
+                duration = '00:00:10'
+            }
+            
+            $output = ConvertTo-BCTestRunOutput `
+                -AIResultsFile $script:AIResultsFile `
                 -Environment $script:MockEnvironment `
-                -TestResults $script:MockTestResults
+                -CompilationResults $compilation
             
-            $content = Get-Content $script:OutputPath -Raw | ConvertFrom-Json
-            $content.aiContext | Should -Not -BeNullOrEmpty
-            $content.aiContext.analysisHints | Should -Not -BeNullOrEmpty
-            $content.aiContext.suggestedActions | Should -Not -BeNullOrEmpty
+            $output.compilation.success | Should -Be $false
         }
     }
 }
 
+Describe 'Merge-BCTestResultsFiles' {
+    BeforeAll {
+        $script:MergeFolder = Join-Path $script:TestFixturesPath 'merge'
+        
+        function New-XUnitFile {
+            param([string]$Path, [string]$Codeunit)
+            Set-Content -Path $Path -Value "<assemblies><assembly name=`"$Codeunit`" time=`"1.0`"><collection><test name=`"Test`" method=`"Test`" result=`"Pass`" time=`"1.0`" /></collection></assembly></assemblies>"
+        }
+    }
+
+    BeforeEach {
+        New-Item -ItemType Directory -Path $script:MergeFolder -Force | Out-Null
+        $script:Destination = Join-Path $script:MergeFolder 'TestResults.xml'
+        $script:SecondFile = Join-Path $script:MergeFolder 'TestResults.2.xml'
+        New-XUnitFile -Path $script:Destination -Codeunit 'Unit Tests (80001)'
+        New-XUnitFile -Path $script:SecondFile -Codeunit 'Integration Tests (81001)'
+        $script:Files = @(
+            [PSCustomObject]@{ App = 'Unit Tests'; File = $script:Destination },
+            [PSCustomObject]@{ App = 'Integration Tests'; File = $script:SecondFile }
+        )
+    }
+
+    AfterEach {
+        Remove-Item -Path $script:MergeFolder -Recurse -Force -ErrorAction SilentlyContinue
+    }
+
+    It 'Should merge the assemblies of all files into the destination' {
+        $result = InModuleScope BCTestRunner {
+            param($files, $destination)
+            Merge-BCTestResultsFiles -Files $files -Destination $destination
+        } -ArgumentList $script:Files, $script:Destination
+        
+        $result | Should -Be $script:Destination
+        [xml]$merged = Get-Content -Path $script:Destination -Raw
+        @($merged.assemblies.assembly) | Should -HaveCount 2
+    }
+
+    It 'Should tag each assembly with its app' {
+        InModuleScope BCTestRunner {
+            param($files, $destination)
+            Merge-BCTestResultsFiles -Files $files -Destination $destination
+        } -ArgumentList $script:Files, $script:Destination | Out-Null
+        
+        [xml]$merged = Get-Content -Path $script:Destination -Raw
+        $merged.assemblies.assembly[0].app | Should -Be 'Unit Tests'
+        $merged.assemblies.assembly[1].app | Should -Be 'Integration Tests'
+    }
+
+    It 'Should remove the merged files other than the destination' {
+        InModuleScope BCTestRunner {
+            param($files, $destination)
+            Merge-BCTestResultsFiles -Files $files -Destination $destination
+        } -ArgumentList $script:Files, $script:Destination | Out-Null
+        
+        Test-Path $script:SecondFile | Should -Be $false
+        Test-Path $script:Destination | Should -Be $true
+    }
+}
+
 Describe 'Initialize-TestResultsFolder' {
     BeforeAll {
         $script:TestWorkspacePath = Join-Path $script:TestFixturesPath 'workspace'
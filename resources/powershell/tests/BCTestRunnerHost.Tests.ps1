@@ -0,0 +1,305 @@
+#Requires -Modules Pester
+<#
+.SYNOPSIS
+    Pester tests for the BCTestRunner JSON-RPC host.
+
+.DESCRIPTION
+    Runs BCTestRunnerHost.ps1 as a child process with a stub module and talks to
+    it over stdin and stdout like the extension does:
+    - Invoking module commands
+    - Cancelling a running request
+    - Rejecting requests while busy
+    - Protocol errors (unknown method, malformed JSON)
+#>
+
+BeforeAll {
+    $script:HostPath = Join-Path $PSScriptRoot '..' 'BCTestRunnerHost.ps1'
+
+    # Stub module served by the host instead of BCTestRunner
+    $script:StubModulePath = Join-Path $TestDrive 'HostStub.psm1'
+    Set-Content -Path $script:StubModulePath -Value @'
+function Get-Echo {
+    param($Value)
+    $Value
+}
+
+function Write-Greeting {
+    Write-Host 'hello from the host'
+    'greeted'
+}
+
+function Start-Wait {
+    param([int]$Seconds)
+    Start-Sleep -Seconds $Seconds
+    'waited'
+}
+
+function Invoke-Failure {
+    throw 'Stub failure'
+}
+'@
+
+    function Start-TestHost {
+        $startInfo = New-Object System.Diagnostics.ProcessStartInfo
+        $startInfo.FileName = (Get-Process -Id $PID).Path
+        $startInfo.Arguments = "-NoLogo -NoProfile -NonInteractive -File `"$script:HostPath`" -ModulePath `"$script:StubModulePath`""
+        $startInfo.UseShellExecute = $false
+        $startInfo.RedirectStandardInput = $true
+        $startInfo.RedirectStandardOutput = $true
+        $startInfo.RedirectStandardError = $true
+
+        $hostProcess = [PSCustomObject]@{
+            Process     = [System.Diagnostics.Process]::Start($startInfo)
+            PendingRead = $null
+        }
+
+        $ready = Read-HostMessage -HostProcess $hostProcess
+        $ready.method | Should -Be 'ready'
+        return $hostProcess
+    }
+
+    function Stop-TestHost {
+        param($HostProcess)
+
+        if (-not $HostProcess.Process.HasExited) {
+            Send-HostMessage -HostProcess $HostProcess -Message @{ method = 'shutdown' }
+            $HostProcess.Process.StandardInput.Close()
+            if (-not $HostProcess.Process.WaitForExit(10000)) {
+                $HostProcess.Process.Kill()
+            }
+        }
+        $HostProcess.Process.Dispose()
+    }
+
+    function Send-HostLine {
+        param($HostProcess, [string]$Line)
+
+        $HostProcess.Process.StandardInput.WriteLine($Line)
+        $HostProcess.Process.StandardInput.Flush()
+    }
+
+    function Send-HostMessage {
+        param($HostProcess, [hashtable]$Message)
+
+        $Message['jsonrpc'] = '2.0'
+        Send-HostLine -HostProcess $HostProcess -Line ($Message | ConvertTo-Json -Depth 10 -Compress)
+    }
+
+    function Read-HostMessage {
+        param($HostProcess, [int]$TimeoutSeconds = 30)
+
+        # A read that timed out is still pending and must be awaited first
+        if (-not $HostProcess.PendingRead) {
+            $HostProcess.PendingRead = $HostProcess.Process.StandardOutput.ReadLineAsync()
+        }
+        if (-not $HostProcess.PendingRead.Wait($TimeoutSeconds * 1000)) {
+            throw "No message from the host within $TimeoutSeconds seconds"
+        }
+
+        $line = $HostProcess.PendingRead.Result
+        $HostProcess.PendingRead = $null
+        if ($null -eq $line) {
+            throw "Host exited: $($HostProcess.Process.StandardError.ReadToEnd())"
+        }
+        return $line | ConvertFrom-Json
+    }
+
+    function Read-HostResponse {
+        <#
+        .SYNOPSIS
+            Reads messages up to the next response, returning the output
+            notifications sent before it in Output.
+        #>
+        param($HostProcess)
+
+        $output = @()
+        while ($true) {
+            $message = Read-HostMessage -HostProcess $HostProcess
+            if ($message.method -eq 'output') {
+                $output += $message.params
+                continue
+            }
+            $message | Add-Member -NotePropertyName 'Output' -NotePropertyValue $output
+            return $message
+        }
+    }
+}
+
+Describe 'BCTestRunnerHost' {
+    BeforeEach {
+        $script:TestHost = Start-TestHost
+    }
+
+    AfterEach {
+        Stop-TestHost -HostProcess $script:TestHost
+    }
+
+    Context 'invoke' {
+        It 'Should return the result of the command' {
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                id     = 1
+                method = 'invoke'
+                params = @{ command = 'Get-Echo'; parameters = @{ Value = 'hello' } }
+            }
+
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.id | Should -Be 1
+            $response.result | Should -Be 'hello'
+            $response.PSObject.Properties.Name | Should -Not -Contain 'error'
+        }
+
+        It 'Should send host output as output notifications before the result' {
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                id     = 2
+                method = 'invoke'
+                params = @{ command = 'Write-Greeting' }
+            }
+
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.result | Should -Be 'greeted'
+            $response.Output | Should -HaveCount 1
+            $response.Output[0].id | Should -Be 2
+            $response.Output[0].stream | Should -Be 'host'
+            $response.Output[0].text | Should -Be 'hello from the host'
+        }
+
+        It 'Should report a failing command as an execution error' {
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                id     = 3
+                method = 'invoke'
+                params = @{ command = 'Invoke-Failure' }
+            }
+
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.id | Should -Be 3
+            $response.error.code | Should -Be -32000
+            $response.error.message | Should -Be 'Stub failure'
+        }
+
+        It 'Should reject a request without a command' {
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                id     = 4
+                method = 'invoke'
+                params = @{}
+            }
+
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.id | Should -Be 4
+            $response.error.code | Should -Be -32602
+        }
+
+        It 'Should serve requests after a completed one' {
+            foreach ($id in 5, 6) {
+                Send-HostMessage -HostProcess $script:TestHost -Message @{
+                    id     = $id
+                    method = 'invoke'
+                    params = @{ command = 'Get-Echo'; parameters = @{ Value = "request $id" } }
+                }
+
+                $response = Read-HostResponse -HostProcess $script:TestHost
+                $response.id | Should -Be $id
+                $response.result | Should -Be "request $id"
+            }
+        }
+    }
+
+    Context 'cancel' {
+        It 'Should stop the running request and report it as cancelled' {
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                id     = 10
+                method = 'invoke'
+                params = @{ command = 'Start-Wait'; parameters = @{ Seconds = 60 } }
+            }
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                method = 'cancel'
+                params = @{ id = 10 }
+            }
+
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.id | Should -Be 10
+            $response.error.code | Should -Be -32800
+            $response.error.message | Should -Be 'Operation was cancelled'
+        }
+
+        It 'Should ignore a cancel for another request' {
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                id     = 11
+                method = 'invoke'
+                params = @{ command = 'Start-Wait'; parameters = @{ Seconds = 1 } }
+            }
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                method = 'cancel'
+                params = @{ id = 99 }
+            }
+
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.id | Should -Be 11
+            $response.result | Should -Be 'waited'
+        }
+    }
+
+    Context 'Busy host' {
+        It 'Should reject a request while another one runs' {
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                id     = 20
+                method = 'invoke'
+                params = @{ command = 'Start-Wait'; parameters = @{ Seconds = 60 } }
+            }
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                id     = 21
+                method = 'invoke'
+                params = @{ command = 'Get-Echo'; parameters = @{ Value = 'too early' } }
+            }
+
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.id | Should -Be 21
+            $response.error.code | Should -Be -32001
+            $response.error.message | Should -Be 'Host is busy with another request'
+
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                method = 'cancel'
+                params = @{ id = 20 }
+            }
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.id | Should -Be 20
+        }
+    }
+
+    Context 'Protocol errors' {
+        It 'Should reject an unknown method' {
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                id     = 30
+                method = 'frobnicate'
+            }
+
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.id | Should -Be 30
+            $response.error.code | Should -Be -32601
+            $response.error.message | Should -Be 'Unknown method: frobnicate'
+        }
+
+        It 'Should report malformed JSON as a parse error' {
+            Send-HostLine -HostProcess $script:TestHost -Line '{"id": 31, "method": '
+
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.id | Should -BeNullOrEmpty
+            $response.error.code | Should -Be -32700
+            $response.error.message | Should -BeLike 'Invalid JSON:*'
+        }
+
+        It 'Should keep serving requests after malformed JSON' {
+            Send-HostLine -HostProcess $script:TestHost -Line 'not json'
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.error.code | Should -Be -32700
+
+            Send-HostMessage -HostProcess $script:TestHost -Message @{
+                id     = 32
+                method = 'invoke'
+                params = @{ command = 'Get-Echo'; parameters = @{ Value = 'still here' } }
+            }
+            $response = Read-HostResponse -HostProcess $script:TestHost
+            $response.id | Should -Be 32
+            $response.result | Should -Be 'still here'
+        }
+    }
+}
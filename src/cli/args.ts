@@ -0,0 +1,124 @@
+/**
+ * BC Test Runner - CLI Arguments
+ *
+ * Parses the command line of the bctest CLI.
+ */
+
+import { parseArgs } from "util";
+
+export const USAGE = `Usage: bctest run [options]
+
+Runs the test pipeline (compile, publish, execute) outside VS Code.
+
+Options:
+  --config <path>             bctest.config.json to use (default: searched
+                              in the current folder)
+  --env <name>                Environment to run against (default: the
+                              configured defaultEnvironment)
+  --test-app <name>           Extension name or ID of the test app to run
+                              (default: all configured test apps)
+  --format <format>           Report format to write, repeatable or comma
+                              separated (default: output.formats)
+  --credentials-file <path>   JSON file with the credentials
+  --skip-compile              Use the previously compiled apps
+  --skip-publish              Run the tests against the published apps
+  --quiet                     Only print the summary
+  -h, --help                  Show this help
+
+Credentials are read from --credentials-file, then from the environment:
+BCTEST_<ENV>_USERNAME / BCTEST_<ENV>_PASSWORD for an environment <ENV>
+(upper case, other characters as _), then BCTEST_USERNAME / BCTEST_PASSWORD.
+
+Exit codes:
+  0  all tests passed
+  1  tests failed or no tests were executed
+  2  invalid arguments or configuration
+  3  compilation failed
+  4  the pipeline could not run (PowerShell, Docker, credentials)
+  130 cancelled`;
+
+/**
+ * Invalid command line
+ */
+export class UsageError extends Error {}
+
+/**
+ * Options of the run command
+ */
+export interface CliOptions {
+  command: "run" | "help";
+  configPath?: string;
+  environment?: string;
+  testApp?: string;
+  formats?: string[];
+  credentialsFile?: string;
+  skipCompile: boolean;
+  skipPublish: boolean;
+  quiet: boolean;
+}
+
+/**
+ * Parse the CLI arguments (without the node and script paths)
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      // Option names are the command line flags
+      /* eslint-disable @typescript-eslint/naming-convention */
+      options: {
+        config: { type: "string" },
+        env: { type: "string" },
+        "test-app": { type: "string" },
+        format: { type: "string", multiple: true },
+        "credentials-file": { type: "string" },
+        "skip-compile": { type: "boolean", default: false },
+        "skip-publish": { type: "boolean", default: false },
+        quiet: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+      /* eslint-enable @typescript-eslint/naming-convention */
+    });
+  } catch (error) {
+    throw new UsageError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...extra] = positionals;
+
+  if (values.help || command === undefined || command === "help") {
+    return {
+      command: "help",
+      skipCompile: false,
+      skipPublish: false,
+      quiet: false,
+    };
+  }
+  if (command !== "run") {
+    throw new UsageError(`Unknown command '${command}'`);
+  }
+  if (extra.length > 0) {
+    throw new UsageError(`Unexpected argument '${extra[0]}'`);
+  }
+
+  const formats = values.format
+    ?.flatMap((value) => value.split(","))
+    .map((format) => format.trim())
+    .filter(Boolean);
+
+  return {
+    command,
+    configPath: values.config,
+    environment: values.env,
+    testApp: values["test-app"],
+    formats: formats && formats.length > 0 ? formats : undefined,
+    credentialsFile: values["credentials-file"],
+    skipCompile: values["skip-compile"] ?? false,
+    skipPublish: values["skip-publish"] ?? false,
+    quiet: values.quiet ?? false,
+  };
+}
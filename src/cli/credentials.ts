@@ -0,0 +1,105 @@
+/**
+ * BC Test Runner - CLI Credentials
+ *
+ * Resolves the credentials of environments from a credentials file or
+ * environment variables, as the CLI has no secret storage or prompts.
+ */
+
+import * as fs from "fs";
+import { BCTestEnvironment } from "../config/schemas";
+
+type Credential = { username: string; password: string };
+
+/**
+ * Where credentials are looked up
+ */
+export interface CredentialSources {
+  /** JSON file with one credential, or credentials by environment name */
+  file?: string;
+  /** Environment variables */
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Whether an environment authenticates with a username and password
+ */
+export function needsCredentials(environment: BCTestEnvironment): boolean {
+  return (
+    environment.authentication === "UserPassword" ||
+    environment.authentication === "NavUserPassword"
+  );
+}
+
+/**
+ * Environment variable names holding the credential of an environment,
+ * most specific first
+ */
+export function getCredentialVariables(
+  environmentName: string
+): [string, string][] {
+  const name = environmentName.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+  return [
+    [`BCTEST_${name}_USERNAME`, `BCTEST_${name}_PASSWORD`],
+    ["BCTEST_USERNAME", "BCTEST_PASSWORD"],
+  ];
+}
+
+/**
+ * Credential of an environment: the file's entry for the environment, the
+ * file's single credential, then the environment variables
+ */
+export function resolveCredential(
+  environmentName: string,
+  sources: CredentialSources
+): Credential | undefined {
+  if (sources.file) {
+    const content = readCredentialsFile(sources.file);
+    const fromFile =
+      toCredential(content[environmentName]) ?? toCredential(content);
+    if (fromFile) {
+      return fromFile;
+    }
+  }
+
+  for (const [userVariable, passwordVariable] of getCredentialVariables(
+    environmentName
+  )) {
+    const username = sources.env[userVariable];
+    const password = sources.env[passwordVariable];
+    if (username && password !== undefined) {
+      return { username, password };
+    }
+  }
+
+  return undefined;
+}
+
+function readCredentialsFile(file: string): Record<string, unknown> {
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(file, "utf-8").replace(/^\uFEFF/, ""));
+  } catch (error) {
+    throw new Error(
+      `Cannot read credentials file ${file}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (!content || typeof content !== "object" || Array.isArray(content)) {
+    throw new Error(`Credentials file ${file} must contain a JSON object`);
+  }
+  return content as Record<string, unknown>;
+}
+
+function toCredential(value: unknown): Credential | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+  const { username, password } = value as Record<string, unknown>;
+  return typeof username === "string" &&
+    username.length > 0 &&
+    typeof password === "string"
+    ? { username, password }
+    : undefined;
+}
@@ -0,0 +1,355 @@
+/**
+ * BC Test Runner - Command Line Runner
+ *
+ * Runs the test pipeline (compile, publish, execute, retry, history and
+ * reports) without VS Code, for build servers and scripts:
+ *
+ *   bctest run --env docker-local --format junit
+ */
+
+import * as path from "path";
+import { ConfigLoader, findConfigFileIn } from "../config/ConfigLoader";
+import { BCTestConfig } from "../config/schemas";
+import { findTestApp, getTestAppNames } from "../config/testApps";
+import { recordRun } from "../history/recordRun";
+import {
+  CancellationSource,
+  StaticSettings,
+  StreamOutput,
+} from "../platform/node";
+import {
+  AITestResults,
+  PowerShellRunner,
+} from "../powershell/PowerShellRunner";
+import { ProgressEvent } from "../powershell/progressEvents";
+import { ReportGenerator } from "../reports/ReportGenerator";
+import { planShardedRun, runSharded } from "../testing/parallelRun";
+import { getMaxRetries, retryFailedTests } from "../testing/retryFailed";
+import { CliOptions, parseCliArgs, USAGE, UsageError } from "./args";
+import {
+  getCredentialVariables,
+  needsCredentials,
+  resolveCredential,
+} from "./credentials";
+
+/**
+ * Process exit codes of the CLI
+ */
+export const EXIT_CODES = {
+  passed: 0,
+  testsFailed: 1,
+  usage: 2,
+  compilationFailed: 3,
+  error: 4,
+  cancelled: 130,
+} as const;
+
+type Credential = { username: string; password: string };
+
+/**
+ * Run the CLI and return its exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return EXIT_CODES.usage;
+    }
+    throw error;
+  }
+
+  if (options.command === "help") {
+    console.log(USAGE);
+    return EXIT_CODES.passed;
+  }
+
+  const reportGenerator = new ReportGenerator();
+  const configLoader = new ConfigLoader(() => reportGenerator.getFormats());
+
+  const configPath = options.configPath
+    ? path.resolve(options.configPath)
+    : findConfigFileIn(process.cwd());
+  if (!configPath) {
+    console.error(
+      `No bctest.config.json found in ${process.cwd()}, use --config to specify one`
+    );
+    return EXIT_CODES.usage;
+  }
+
+  let config: BCTestConfig;
+  try {
+    config = await configLoader.loadConfig(configPath);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_CODES.usage;
+  }
+
+  const env = configLoader.getEnvironment(config, options.environment);
+  if (!env) {
+    console.error(
+      options.environment
+        ? `Environment '${
+            options.environment
+          }' not found, configured environments are ${configLoader
+            .getEnvironmentNames(config)
+            .join(", ")}`
+        : "No environment configured"
+    );
+    return EXIT_CODES.usage;
+  }
+
+  if (options.testApp && !findTestApp(config, options.testApp)) {
+    console.error(
+      `Test app '${
+        options.testApp
+      }' not found, configured test apps are ${getTestAppNames(config).join(
+        ", "
+      )}`
+    );
+    return EXIT_CODES.usage;
+  }
+
+  const formats = options.formats ?? config.output.formats;
+  const unknownFormats = formats.filter(
+    (format) => !reportGenerator.getFormats().includes(format)
+  );
+  if (unknownFormats.length > 0) {
+    console.error(
+      `Unknown format(s) ${unknownFormats.join(
+        ", "
+      )}, supported formats are ${reportGenerator.getFormats().join(", ")}`
+    );
+    return EXIT_CODES.usage;
+  }
+
+  const resultsFolder = configLoader.getResultsFolder(config);
+  const log = new StreamOutput(options.quiet ? undefined : process.stderr);
+  const runner = new PowerShellRunner(
+    path.resolve(__dirname, ".."),
+    log,
+    new StaticSettings({
+      powershellPath: process.env.BCTEST_POWERSHELL_PATH,
+      // The host is disposed after the run, so it is never idle
+      hostIdleTimeout: 0,
+    })
+  );
+  const cancellation = new CancellationSource();
+  const onInterrupt = () => {
+    log.appendLine("Cancelling...");
+    cancellation.cancel();
+    runner.cancel();
+  };
+  process.on("SIGINT", onInterrupt);
+
+  try {
+    // Split the codeunits across environments when parallel execution is on
+    const shards = planShardedRun(config, resultsFolder, options.testApp);
+
+    const credentials = new Map<string, Credential>();
+    const environmentNames =
+      shards.length > 0 ? shards.map((s) => s.environment) : [env.name];
+    for (const name of environmentNames) {
+      const environment = configLoader.getEnvironment(config, name);
+      if (!environment || !needsCredentials(environment)) {
+        continue;
+      }
+      const credential = resolveCredential(name, {
+        file: options.credentialsFile,
+        env: process.env,
+      });
+      if (!credential) {
+        const [[user, password]] = getCredentialVariables(name);
+        console.error(
+          `Credentials required for environment '${name}': set ${user} and ${password} (or BCTEST_USERNAME and BCTEST_PASSWORD), or use --credentials-file`
+        );
+        return EXIT_CODES.error;
+      }
+      credentials.set(name, credential);
+    }
+
+    if (env.containerName && shards.length === 0) {
+      log.appendLine("Checking Docker availability...");
+      const dockerCheck = await runner.checkDocker();
+      if (!dockerCheck.isRunning) {
+        console.error(dockerCheck.error || "Docker is not running");
+        return EXIT_CODES.error;
+      }
+    }
+
+    for (const [index, shard] of shards.entries()) {
+      log.appendLine(
+        `Shard ${index + 1}: ${shard.environment} - ${
+          shard.codeunitIds.length
+        } codeunit(s), ~${shard.estimatedDuration}s`
+      );
+    }
+
+    const onProgress = (event: ProgressEvent) => {
+      if (event.type === "codeunitFinished") {
+        log.appendLine(
+          `${event.codeunit} (${event.codeunitId}): ${event.result} in ${event.duration}s`
+        );
+      }
+    };
+
+    const result =
+      shards.length > 0
+        ? await runSharded(runner, configPath, config, shards, {
+            credentials,
+            resultsFolder,
+            skipCompile: options.skipCompile,
+            skipPublish: options.skipPublish,
+            testApp: options.testApp,
+            cancellationToken: cancellation,
+            onProgress,
+          })
+        : await runner.runTests(configPath, env.name, {
+            credential: credentials.get(env.name),
+            skipCompile: options.skipCompile,
+            skipPublish: options.skipPublish,
+            testApp: options.testApp,
+            cancellationToken: cancellation,
+            onProgress,
+          });
+
+    if (result.cancelled || cancellation.isCancellationRequested) {
+      console.error("Test run cancelled");
+      return EXIT_CODES.cancelled;
+    }
+    if (!result.success || !result.data) {
+      console.error(`Test run failed: ${result.error ?? "no results"}`);
+      return EXIT_CODES.error;
+    }
+
+    const retried = await retryFailedTests(
+      runner,
+      configPath,
+      env.name,
+      result.data,
+      {
+        credential: credentials.get(env.name),
+        shardCredentials: credentials,
+        cancellationToken: cancellation,
+        maxRetries: getMaxRetries(config),
+        onRetry: (attempt, failures) =>
+          log.appendLine(
+            `Retrying ${failures} failed test(s), attempt ${attempt}...`
+          ),
+      }
+    );
+
+    let results = retried;
+    try {
+      results = await recordRun(retried, {
+        resultsFolder,
+        keepHistoryCount: config.output.keepHistoryCount,
+        workspacePath: config.workspacePath,
+        performance: config.performance,
+      });
+    } catch (error) {
+      log.appendLine(
+        `Failed to record test history: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    printSummary(results);
+
+    if (results.FilePath) {
+      console.log(`Results: ${results.FilePath}`);
+      const reports = await reportGenerator.writeReports(
+        results,
+        resultsFolder,
+        formats
+      );
+      for (const [format, reportPath] of reports) {
+        console.log(`Report (${format}): ${reportPath}`);
+      }
+    }
+
+    return getExitCode(results);
+  } catch (error) {
+    console.error(
+      `Error running tests: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return EXIT_CODES.error;
+  } finally {
+    process.off("SIGINT", onInterrupt);
+    runner.dispose();
+  }
+}
+
+/**
+ * Exit code of a completed run
+ */
+export function getExitCode(results: AITestResults): number {
+  if (results.compilation && !results.compilation.success) {
+    return EXIT_CODES.compilationFailed;
+  }
+  if (results.tests.error) {
+    return EXIT_CODES.error;
+  }
+  const summary = results.tests.summary;
+  return summary.failed > 0 || summary.total === 0
+    ? EXIT_CODES.testsFailed
+    : EXIT_CODES.passed;
+}
+
+function printSummary(results: AITestResults): void {
+  const compilation = results.compilation;
+  if (compilation && !compilation.success) {
+    console.log(
+      `Compilation failed with ${compilation.errors.length} error(s)`
+    );
+    for (const error of compilation.errors.slice(0, 20)) {
+      console.log(
+        `  ${error.filePath ?? error.app}(${error.line ?? 0},${
+          error.column ?? 0
+        }): ${error.code} ${error.message}`
+      );
+    }
+    return;
+  }
+
+  const { passed, failed, skipped, total } = results.tests.summary;
+  console.log(
+    `Tests: ${total} total, ${passed} passed, ${failed} failed, ${skipped} skipped (${results.tests.duration})`
+  );
+  const apps = results.tests.apps ?? [];
+  if (apps.length > 1) {
+    for (const app of apps) {
+      console.log(
+        `  ${app.app}: ${app.summary.total} total, ${app.summary.passed} passed, ${app.summary.failed} failed, ${app.summary.skipped} skipped`
+      );
+    }
+  }
+  if (results.tests.error) {
+    console.log(`Test run failed: ${results.tests.error}`);
+  } else if (total === 0) {
+    console.log("No tests were executed");
+  }
+  for (const failure of results.tests.failures) {
+    console.log(`  FAIL ${failure.codeunit}.${failure.method}`);
+    if (failure.error) {
+      console.log(`       ${failure.error.split("\n")[0]}`);
+    }
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error) => {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = EXIT_CODES.error;
+    }
+  );
+}
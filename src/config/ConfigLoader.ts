@@ -0,0 +1,135 @@
+/**
+ * BC Test Runner - Configuration Loader
+ *
+ * Loads and validates bctest.config.json without depending on VS Code, for
+ * the extension's ConfigManager and the command line runner.
+ */
+
+import * as path from "path";
+import * as fs from "fs";
+import { BCTestConfigSchema, BCTestConfig, BCTestEnvironment } from "./schemas";
+
+// Locations of the config file relative to a workspace folder, in order of
+// preference
+export const CONFIG_FILE_LOCATIONS = [
+  "bctest.config.json",
+  "BCTestRunner/bctest.config.json",
+  ".vscode/bctest.config.json",
+];
+
+/**
+ * Find bctest.config.json in the known locations of a folder
+ */
+export function findConfigFileIn(folder: string): string | undefined {
+  return CONFIG_FILE_LOCATIONS.map((location) =>
+    path.join(folder, location)
+  ).find((configPath) => fs.existsSync(configPath));
+}
+
+/**
+ * Configuration loader for BC Test Runner
+ */
+export class ConfigLoader {
+  protected cachedConfig: BCTestConfig | null = null;
+  protected cachedConfigPath: string | null = null;
+
+  /**
+   * @param _getFormats Supported output formats, when output.formats should
+   * be validated
+   */
+  constructor(private readonly _getFormats?: () => string[]) {}
+
+  /**
+   * Load configuration from file
+   */
+  async loadConfig(configPath: string): Promise<BCTestConfig> {
+    // Check cache
+    if (this.cachedConfig && this.cachedConfigPath === configPath) {
+      return this.cachedConfig;
+    }
+
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Configuration file not found: ${configPath}`);
+    }
+
+    const content = fs.readFileSync(configPath, "utf-8");
+    let rawConfig: unknown;
+
+    try {
+      rawConfig = JSON.parse(content);
+    } catch (e) {
+      throw new Error(
+        `Invalid JSON in configuration file: ${
+          e instanceof Error ? e.message : String(e)
+        }`
+      );
+    }
+
+    // Validate with Zod
+    const parseResult = BCTestConfigSchema.safeParse(rawConfig);
+    if (!parseResult.success) {
+      const errors = parseResult.error.issues
+        .map((err) => `${err.path.join(".")}: ${err.message}`)
+        .join("\n");
+      throw new Error(`Invalid configuration in ${configPath}:\n${errors}`);
+    }
+
+    const config = parseResult.data;
+
+    const formats = this._getFormats?.();
+    const unknownFormats = formats
+      ? config.output.formats.filter((f) => !formats.includes(f))
+      : [];
+    if (unknownFormats.length > 0) {
+      throw new Error(
+        `Invalid configuration in ${configPath}:\noutput.formats: unknown format(s) ${unknownFormats.join(
+          ", "
+        )}, supported formats are ${formats!.join(", ")}`
+      );
+    }
+
+    // Resolve relative paths
+    const configDir = path.dirname(configPath);
+    if (config.workspacePath) {
+      config.workspacePath = path.resolve(configDir, config.workspacePath);
+    } else {
+      config.workspacePath = configDir;
+    }
+
+    // Cache the config
+    this.cachedConfig = config;
+    this.cachedConfigPath = configPath;
+
+    return config;
+  }
+
+  /**
+   * Get the results folder path from config
+   */
+  getResultsFolder(config: BCTestConfig): string {
+    if (config.output?.customDirectory) {
+      return config.output.customDirectory;
+    }
+
+    const resultsFolder = config.output?.resultsFolder || ".testresults";
+    return path.join(config.workspacePath, resultsFolder);
+  }
+
+  /**
+   * Get environment by name
+   */
+  getEnvironment(
+    config: BCTestConfig,
+    name?: string
+  ): BCTestEnvironment | undefined {
+    const envName = name || config.defaultEnvironment;
+    return config.environments.find((e) => e.name === envName);
+  }
+
+  /**
+   * Get list of environment names
+   */
+  getEnvironmentNames(config: BCTestConfig): string[] {
+    return config.environments.map((e) => e.name);
+  }
+}
@@ -1,24 +1,32 @@
 /**
  * BC Test Runner - Configuration Manager
  *
- * Handles loading, validating, and managing bctest.config.json files
- * across single and multi-root workspaces.
+ * Finds and manages bctest.config.json files across single and
+ * multi-root workspaces, on top of the VS Code independent ConfigLoader.
  */
 
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
-import { BCTestConfigSchema, BCTestConfig, BCTestEnvironment } from "./schemas";
+import { ConfigLoader, findConfigFileIn } from "./ConfigLoader";
+import { BCTestConfig } from "./schemas";
+import { describeSuite, findSuitesWithTag, getSuiteTags } from "./suites";
 
 /**
  * Configuration manager for BC Test Runner
  */
-export class ConfigManager {
-  private _cachedConfig: BCTestConfig | null = null;
-  private _cachedConfigPath: string | null = null;
+export class ConfigManager extends ConfigLoader {
   private _fileWatcher: vscode.FileSystemWatcher | null = null;
 
-  constructor() {
+  private _onDidChangeConfig = new vscode.EventEmitter<void>();
+  readonly onDidChangeConfig = this._onDidChangeConfig.event;
+
+  /**
+   * @param getFormats Supported output formats, when output.formats should
+   * be validated
+   */
+  constructor(getFormats?: () => string[]) {
+    super(getFormats);
     // Set up file watcher for config changes
     this._setupFileWatcher();
   }
@@ -48,8 +56,9 @@ export class ConfigManager {
    * Invalidate the cached configuration
    */
   private _invalidateCache(): void {
-    this._cachedConfig = null;
-    this._cachedConfigPath = null;
+    this.cachedConfig = null;
+    this.cachedConfigPath = null;
+    this._onDidChangeConfig.fire();
   }
 
   /**
@@ -58,8 +67,8 @@ export class ConfigManager {
    */
   async findConfigFile(): Promise<string | undefined> {
     // Check cache first
-    if (this._cachedConfigPath && fs.existsSync(this._cachedConfigPath)) {
-      return this._cachedConfigPath;
+    if (this.cachedConfigPath && fs.existsSync(this.cachedConfigPath)) {
+      return this.cachedConfigPath;
     }
 
     const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -67,20 +76,11 @@ export class ConfigManager {
       return undefined;
     }
 
-    // Search locations in order of preference
-    const searchPatterns = [
-      "bctest.config.json",
-      "BCTestRunner/bctest.config.json",
-      ".vscode/bctest.config.json",
-    ];
-
     for (const folder of workspaceFolders) {
-      for (const pattern of searchPatterns) {
-        const configPath = path.join(folder.uri.fsPath, pattern);
-        if (fs.existsSync(configPath)) {
-          this._cachedConfigPath = configPath;
-          return configPath;
-        }
+      const configPath = findConfigFileIn(folder.uri.fsPath);
+      if (configPath) {
+        this.cachedConfigPath = configPath;
+        return configPath;
       }
     }
 
@@ -91,8 +91,8 @@ export class ConfigManager {
       1
     );
     if (files.length > 0) {
-      this._cachedConfigPath = files[0].fsPath;
-      return this._cachedConfigPath;
+      this.cachedConfigPath = files[0].fsPath;
+      return this.cachedConfigPath;
     }
 
     return undefined;
@@ -110,103 +110,85 @@ export class ConfigManager {
   }
 
   /**
-   * Load configuration from file
+   * Show quick pick for environment selection
    */
-  async loadConfig(configPath: string): Promise<BCTestConfig> {
-    // Check cache
-    if (this._cachedConfig && this._cachedConfigPath === configPath) {
-      return this._cachedConfig;
-    }
-
-    if (!fs.existsSync(configPath)) {
-      throw new Error(`Configuration file not found: ${configPath}`);
-    }
-
-    const content = fs.readFileSync(configPath, "utf-8");
-    let rawConfig: unknown;
-
-    try {
-      rawConfig = JSON.parse(content);
-    } catch (e) {
-      throw new Error(
-        `Invalid JSON in configuration file: ${
-          e instanceof Error ? e.message : String(e)
-        }`
-      );
-    }
-
-    // Validate with Zod
-    const parseResult = BCTestConfigSchema.safeParse(rawConfig);
-    if (!parseResult.success) {
-      const errors = parseResult.error.issues
-        .map((err) => `${err.path.join(".")}: ${err.message}`)
-        .join("\n");
-      throw new Error(`Invalid configuration in ${configPath}:\n${errors}`);
-    }
-
-    const config = parseResult.data;
-
-    // Resolve relative paths
-    const configDir = path.dirname(configPath);
-    if (config.workspacePath) {
-      config.workspacePath = path.resolve(configDir, config.workspacePath);
-    } else {
-      config.workspacePath = configDir;
-    }
+  async selectEnvironment(config: BCTestConfig): Promise<string | undefined> {
+    const items = config.environments.map((env) => ({
+      label: env.name,
+      description: env.description || `${env.type} - ${env.server}`,
+      detail: `Container: ${env.containerName}, Auth: ${env.authentication}`,
+    }));
 
-    // Cache the config
-    this._cachedConfig = config;
-    this._cachedConfigPath = configPath;
+    const selected = await vscode.window.showQuickPick(items, {
+      title: "Select BC Environment",
+      placeHolder: "Choose an environment to use",
+    });
 
-    return config;
+    return selected?.label;
   }
 
   /**
-   * Get the results folder path from config
+   * Show quick pick for test app selection
    */
-  getResultsFolder(config: BCTestConfig): string {
-    if (config.output?.customDirectory) {
-      return config.output.customDirectory;
-    }
+  async selectTestApp(config: BCTestConfig): Promise<string | undefined> {
+    const items = config.testApps.map((app) => ({
+      label: app.extensionName,
+      description: app.path,
+      detail: `Codeunits: ${app.testCodeunitRange}, ID: ${app.extensionId}`,
+    }));
 
-    const resultsFolder = config.output?.resultsFolder || ".testresults";
-    return path.join(config.workspacePath, resultsFolder);
-  }
+    const selected = await vscode.window.showQuickPick(items, {
+      title: "Select Test App",
+      placeHolder: "Choose the test app to run",
+    });
 
-  /**
-   * Get environment by name
-   */
-  getEnvironment(
-    config: BCTestConfig,
-    name?: string
-  ): BCTestEnvironment | undefined {
-    const envName = name || config.defaultEnvironment;
-    return config.environments.find((e) => e.name === envName);
+    return selected?.label;
   }
 
   /**
-   * Get list of environment names
+   * Show quick pick for the suite to run, or a tag to run all its suites.
+   * Returns the names of the selected suites.
    */
-  getEnvironmentNames(config: BCTestConfig): string[] {
-    return config.environments.map((e) => e.name);
-  }
+  async selectSuites(config: BCTestConfig): Promise<string[] | undefined> {
+    if (config.suites.length === 0) {
+      vscode.window.showWarningMessage(
+        "No suites configured in bctest.config.json"
+      );
+      return undefined;
+    }
 
-  /**
-   * Show quick pick for environment selection
-   */
-  async selectEnvironment(config: BCTestConfig): Promise<string | undefined> {
-    const items = config.environments.map((env) => ({
-      label: env.name,
-      description: env.description || `${env.type} - ${env.server}`,
-      detail: `Container: ${env.containerName}, Auth: ${env.authentication}`,
-    }));
+    const items: (vscode.QuickPickItem & { suites?: string[] })[] =
+      config.suites.map((suite) => ({
+        label: suite.name,
+        description: suite.description,
+        detail: describeSuite(suite),
+        suites: [suite.name],
+      }));
+
+    const tags = getSuiteTags(config);
+    if (tags.length > 0) {
+      items.push(
+        { label: "Tags", kind: vscode.QuickPickItemKind.Separator },
+        ...tags.map((tag) => {
+          const suites = findSuitesWithTag(config, tag).map(
+            (suite) => suite.name
+          );
+          return {
+            label: `$(tag) ${tag}`,
+            description: `${suites.length} suite(s)`,
+            detail: suites.join(", "),
+            suites,
+          };
+        })
+      );
+    }
 
     const selected = await vscode.window.showQuickPick(items, {
-      title: "Select BC Environment",
-      placeHolder: "Choose an environment to use",
+      title: "Select Test Suite",
+      placeHolder: "Choose the suite, or a tag to run all its suites",
     });
 
-    return selected?.label;
+    return selected?.suites;
   }
 
   /**
@@ -255,12 +237,14 @@ export class ConfigManager {
       workspacePath: "../",
       defaultEnvironment: "docker-local",
       apps: ["App", "TestApp"],
-      testApp: {
-        path: "TestApp",
-        extensionId: "00000000-0000-0000-0000-000000000000",
-        extensionName: "My Test App",
-        testCodeunitRange: "80000..80099",
-      },
+      testApps: [
+        {
+          path: "TestApp",
+          extensionId: "00000000-0000-0000-0000-000000000000",
+          extensionName: "My Test App",
+          testCodeunitRange: "80000..80099",
+        },
+      ],
       environments: [
         {
           name: "docker-local",
@@ -309,5 +293,6 @@ export class ConfigManager {
    */
   dispose(): void {
     this._fileWatcher?.dispose();
+    this._onDidChangeConfig.dispose();
   }
 }
@@ -21,6 +21,10 @@ export const EnvironmentSchema = z.object({
   serverInstance: z.string().default("BC"),
   authentication: z.enum(["UserPassword", "Windows", "NavUserPassword"]),
   tenant: z.string().optional().default("default"),
+  syncMode: z
+    .enum(["Add", "Clean", "Development", "ForceSync"])
+    .optional()
+    .default("ForceSync"),
 });
 
 // Test app schema
@@ -39,6 +43,23 @@ export const TestAppSchema = z.object({
     .default("80000..80099"),
 });
 
+// Codeunit ID filter: ranges and IDs separated by |
+const CODEUNIT_FILTER_PATTERN = /^[0-9]+(\.\.[0-9]*)?(\|[0-9]+(\.\.[0-9]*)?)*$/;
+
+// Test suite schema: a named selection of codeunits and test methods
+export const TestSuiteSchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .regex(/^[a-zA-Z0-9_-]+$/),
+  description: z.string().optional(),
+  codeunitFilter: z.string().regex(CODEUNIT_FILTER_PATTERN).optional(),
+  testMethod: z.string().min(1).optional(),
+  excludeCodeunits: z.string().regex(CODEUNIT_FILTER_PATTERN).optional(),
+  testApp: z.string().min(1).optional(),
+  tags: z.array(z.string().min(1)).optional().default([]),
+});
+
 // Output schema
 export const OutputSchema = z.object({
   resultsFolder: z.string().default("TestApp/.testresults"),
@@ -48,34 +69,122 @@ export const OutputSchema = z.object({
   includePassedTests: z.boolean().optional().default(true),
 });
 
+// Compilation schema
+export const CompilationSchema = z
+  .object({
+    enableCodeCop: z.boolean().optional().default(true),
+    enableAppSourceCop: z.boolean().optional().default(false),
+    enablePerTenantExtensionCop: z.boolean().optional().default(false),
+    enableUICop: z.boolean().optional().default(true),
+    rulesetFile: z.string().optional(),
+  })
+  .optional();
+
 // Test execution schema
 export const TestExecutionSchema = z
   .object({
     timeout: z.number().int().min(30).max(3600).optional().default(600),
     retryFailedTests: z.boolean().optional().default(false),
+    maxRetries: z.number().int().min(1).max(5).optional().default(1),
     parallelExecution: z.boolean().optional().default(false),
+    shardEnvironments: z.array(z.string().min(1)).optional(),
   })
   .optional();
 
-// Main config schema
-export const BCTestConfigSchema = z.object({
-  $schema: z.string().optional(),
-  workspacePath: z.string().optional().default("../"),
-  defaultEnvironment: z.string().min(1),
-  apps: z
-    .array(z.string().min(1))
-    .min(1)
-    .optional()
-    .default(["App", "TestApp"]),
-  testApp: TestAppSchema,
-  environments: z.array(EnvironmentSchema).min(1),
-  output: OutputSchema,
-  testExecution: TestExecutionSchema,
+// Time budget of a test method, or of a whole codeunit without a method
+export const TimeBudgetSchema = z.object({
+  codeunitId: z.number().int().min(1),
+  method: z.string().min(1).optional(),
+  maxDuration: z.number().positive(),
 });
 
+// Performance schema
+export const PerformanceSchema = z
+  .object({
+    testBudget: z.number().positive().optional(),
+    codeunitBudget: z.number().positive().optional(),
+    budgets: z.array(TimeBudgetSchema).optional().default([]),
+    regressionThreshold: z.number().min(1).optional().default(1.5),
+    minRegressionSeconds: z.number().min(0).optional().default(1),
+  })
+  .optional();
+
+// Main config schema. Configs written before several test apps were
+// supported have a single testApp, which becomes the only entry of testApps.
+export const BCTestConfigSchema = z.preprocess(
+  migrateTestApp,
+  z
+    .object({
+      $schema: z.string().optional(),
+      workspacePath: z.string().optional().default("../"),
+      defaultEnvironment: z.string().min(1),
+      apps: z
+        .array(z.string().min(1))
+        .min(1)
+        .optional()
+        .default(["App", "TestApp"]),
+      testApps: z
+        .array(TestAppSchema)
+        .min(1)
+        .refine(
+          (apps) =>
+            new Set(apps.map((app) => app.extensionName.toLowerCase())).size ===
+            apps.length,
+          "extensionName must be unique across test apps"
+        ),
+      environments: z.array(EnvironmentSchema).min(1),
+      output: OutputSchema,
+      compilation: CompilationSchema,
+      testExecution: TestExecutionSchema,
+      performance: PerformanceSchema,
+      suites: z
+        .array(TestSuiteSchema)
+        .optional()
+        .default([])
+        .refine(
+          (suites) =>
+            new Set(suites.map((suite) => suite.name.toLowerCase())).size ===
+            suites.length,
+          "name must be unique across suites"
+        ),
+    })
+    .refine(
+      (config) =>
+        config.suites.every(
+          (suite) =>
+            !suite.testApp ||
+            config.testApps.some((app) =>
+              [app.extensionName, app.extensionId].some(
+                (key) => key.toLowerCase() === suite.testApp?.toLowerCase()
+              )
+            )
+        ),
+      {
+        message: "testApp of a suite must be a configured test app",
+        path: ["suites"],
+      }
+    )
+);
+
+/**
+ * Move the single testApp of an older config into testApps
+ */
+function migrateTestApp(raw: unknown): unknown {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return raw;
+  }
+  const { testApp, ...config } = raw as Record<string, unknown>;
+  return testApp !== undefined && config.testApps === undefined
+    ? { ...config, testApps: [testApp] }
+    : raw;
+}
+
 // Infer TypeScript types from schemas
 export type BCTestConfig = z.infer<typeof BCTestConfigSchema>;
 export type BCTestEnvironment = z.infer<typeof EnvironmentSchema>;
 export type TestApp = z.infer<typeof TestAppSchema>;
 export type OutputConfig = z.infer<typeof OutputSchema>;
+export type CompilationConfig = z.infer<typeof CompilationSchema>;
 export type TestExecutionConfig = z.infer<typeof TestExecutionSchema>;
+export type PerformanceConfig = z.infer<typeof PerformanceSchema>;
+export type TestSuite = z.infer<typeof TestSuiteSchema>;
@@ -0,0 +1,136 @@
+/**
+ * BC Test Runner - Test Suites
+ *
+ * Resolves the named suites of a configuration (e.g. "smoke", "posting",
+ * "nightly") into the codeunit filter, test method and test app of a run,
+ * and selects suites by their tags.
+ */
+
+import { excludeFromCodeunitFilter } from "../discovery/codeunitFilter";
+import { BCTestConfig, TestSuite } from "./schemas";
+import { getTestCodeunitFilter, selectTestApps } from "./testApps";
+
+/**
+ * Run selection of a suite
+ */
+export interface SuiteSelection {
+  codeunitFilter: string;
+  testMethod?: string;
+  testApp?: string;
+}
+
+/**
+ * Find a suite by its name
+ */
+export function findSuite(
+  config: BCTestConfig,
+  name: string
+): TestSuite | undefined {
+  const key = name.toLowerCase();
+  return config.suites.find((suite) => suite.name.toLowerCase() === key);
+}
+
+/**
+ * Get the names of the configured suites
+ */
+export function getSuiteNames(config: BCTestConfig): string[] {
+  return config.suites.map((suite) => suite.name);
+}
+
+/**
+ * Get the tags of the configured suites, in the order they first appear
+ */
+export function getSuiteTags(config: BCTestConfig): string[] {
+  const tags = new Map<string, string>();
+  for (const tag of config.suites.flatMap((suite) => suite.tags)) {
+    if (!tags.has(tag.toLowerCase())) {
+      tags.set(tag.toLowerCase(), tag);
+    }
+  }
+  return [...tags.values()];
+}
+
+/**
+ * Find the suites with a tag
+ */
+export function findSuitesWithTag(
+  config: BCTestConfig,
+  tag: string
+): TestSuite[] {
+  const key = tag.toLowerCase();
+  return config.suites.filter((suite) =>
+    suite.tags.some((t) => t.toLowerCase() === key)
+  );
+}
+
+/**
+ * Find the suites a name or tag selects: the suite with that name, else
+ * all suites with that tag
+ */
+export function selectSuites(
+  config: BCTestConfig,
+  nameOrTag: string
+): TestSuite[] {
+  const suite = findSuite(config, nameOrTag);
+  return suite ? [suite] : findSuitesWithTag(config, nameOrTag);
+}
+
+/**
+ * Resolve a suite into what to run: its codeunit filter, or the codeunit
+ * ranges of its test apps, without the excluded codeunits
+ *
+ * @throws When the suite is not configured or excludes all its codeunits
+ */
+export function resolveSuite(
+  config: BCTestConfig,
+  name: string
+): SuiteSelection {
+  const suite = findSuite(config, name);
+  if (!suite) {
+    const names = getSuiteNames(config);
+    throw new Error(
+      names.length > 0
+        ? `Suite '${name}' not found, configured suites are ${names.join(", ")}`
+        : `Suite '${name}' not found, no suites are configured`
+    );
+  }
+
+  let codeunitFilter =
+    suite.codeunitFilter ??
+    getTestCodeunitFilter(selectTestApps(config, suite.testApp));
+  if (suite.excludeCodeunits) {
+    codeunitFilter = excludeFromCodeunitFilter(
+      codeunitFilter,
+      suite.excludeCodeunits
+    );
+    if (!codeunitFilter) {
+      throw new Error(`Suite '${suite.name}' excludes all of its codeunits`);
+    }
+  }
+
+  return {
+    codeunitFilter,
+    testMethod: suite.testMethod,
+    testApp: suite.testApp,
+  };
+}
+
+/**
+ * Describe what a suite selects, e.g. for a quick pick
+ */
+export function describeSuite(suite: TestSuite): string {
+  const parts = [`Codeunits: ${suite.codeunitFilter ?? "all"}`];
+  if (suite.excludeCodeunits) {
+    parts.push(`excluding ${suite.excludeCodeunits}`);
+  }
+  if (suite.testMethod) {
+    parts.push(`Methods: ${suite.testMethod}`);
+  }
+  if (suite.testApp) {
+    parts.push(`Test app: ${suite.testApp}`);
+  }
+  if (suite.tags.length > 0) {
+    parts.push(`Tags: ${suite.tags.join(", ")}`);
+  }
+  return parts.join(", ");
+}
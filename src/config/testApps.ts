@@ -0,0 +1,85 @@
+/**
+ * BC Test Runner - Test App Selection
+ *
+ * Helpers for configurations with several test apps (e.g. unit,
+ * integration and upgrade tests), each with its own extension and
+ * codeunit range.
+ */
+
+import * as path from "path";
+import { isInCodeunitFilter } from "../discovery/codeunitFilter";
+import { BCTestConfig, TestApp } from "./schemas";
+
+/**
+ * Find a test app by its extension name or ID
+ */
+export function findTestApp(
+  config: BCTestConfig,
+  nameOrId: string
+): TestApp | undefined {
+  const key = nameOrId.toLowerCase();
+  return config.testApps.find(
+    (app) =>
+      app.extensionName.toLowerCase() === key ||
+      app.extensionId.toLowerCase() === key
+  );
+}
+
+/**
+ * Get the test apps a run covers: the named one, or all of them
+ *
+ * @throws When the named test app is not configured
+ */
+export function selectTestApps(
+  config: BCTestConfig,
+  nameOrId?: string
+): TestApp[] {
+  if (!nameOrId) {
+    return config.testApps;
+  }
+
+  const app = findTestApp(config, nameOrId);
+  if (!app) {
+    throw new Error(
+      `Test app '${nameOrId}' not found, configured test apps are ${getTestAppNames(
+        config
+      ).join(", ")}`
+    );
+  }
+  return [app];
+}
+
+/**
+ * Get the extension names of the configured test apps
+ */
+export function getTestAppNames(config: BCTestConfig): string[] {
+  return config.testApps.map((app) => app.extensionName);
+}
+
+/**
+ * Codeunit filter covering the codeunit ranges of test apps
+ */
+export function getTestCodeunitFilter(apps: TestApp[]): string {
+  return apps.map((app) => app.testCodeunitRange).join("|");
+}
+
+/**
+ * Find the test app whose codeunit range contains a codeunit
+ */
+export function findTestAppForCodeunit(
+  config: BCTestConfig,
+  codeunitId: number
+): TestApp | undefined {
+  return config.testApps.find((app) =>
+    isInCodeunitFilter(codeunitId, app.testCodeunitRange)
+  );
+}
+
+/**
+ * Get the absolute source folders of the test apps
+ */
+export function getTestAppFolders(config: BCTestConfig): string[] {
+  return config.testApps.map((app) =>
+    path.resolve(config.workspacePath, app.path)
+  );
+}
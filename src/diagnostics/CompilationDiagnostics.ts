@@ -0,0 +1,101 @@
+/**
+ * BC Test Runner - Compilation Diagnostics
+ *
+ * Publishes the AL compiler errors and warnings of the last compile to the
+ * Problems panel.
+ */
+
+import * as vscode from "vscode";
+import {
+  CompilationResult,
+  CompilerDiagnostic,
+} from "../powershell/PowerShellRunner";
+
+/**
+ * Diagnostic collection for compiler output
+ */
+export class CompilationDiagnostics implements vscode.Disposable {
+  private _collection: vscode.DiagnosticCollection;
+
+  constructor() {
+    this._collection = vscode.languages.createDiagnosticCollection(
+      "bcTestRunner.compilation"
+    );
+  }
+
+  /**
+   * Replace the diagnostics with the errors and warnings of a compile
+   */
+  update(compilation: CompilationResult): void {
+    this._collection.clear();
+
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    for (const entry of [...compilation.errors, ...compilation.warnings]) {
+      if (!entry.filePath) {
+        continue;
+      }
+
+      const diagnostics = byFile.get(entry.filePath) ?? [];
+      diagnostics.push(this._createDiagnostic(entry));
+      byFile.set(entry.filePath, diagnostics);
+    }
+
+    for (const [filePath, diagnostics] of byFile) {
+      this._collection.set(vscode.Uri.file(filePath), diagnostics);
+    }
+  }
+
+  /**
+   * Remove all compilation diagnostics
+   */
+  clear(): void {
+    this._collection.clear();
+  }
+
+  private _createDiagnostic(entry: CompilerDiagnostic): vscode.Diagnostic {
+    // alc positions are 1-based
+    const line = Math.max((entry.line ?? 1) - 1, 0);
+    const column = Math.max((entry.column ?? 1) - 1, 0);
+    const range =
+      entry.endLine !== undefined && entry.endColumn !== undefined
+        ? new vscode.Range(
+            line,
+            column,
+            Math.max(entry.endLine - 1, line),
+            Math.max(entry.endColumn - 1, 0)
+          )
+        : new vscode.Range(line, column, line, Number.MAX_SAFE_INTEGER);
+
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      entry.message,
+      this._toSeverity(entry.severity)
+    );
+    diagnostic.source = "AL Compiler (BC Test Runner)";
+    if (entry.code) {
+      diagnostic.code = entry.code;
+    }
+
+    return diagnostic;
+  }
+
+  private _toSeverity(
+    severity: CompilerDiagnostic["severity"]
+  ): vscode.DiagnosticSeverity {
+    switch (severity) {
+      case "error":
+        return vscode.DiagnosticSeverity.Error;
+      case "warning":
+        return vscode.DiagnosticSeverity.Warning;
+      default:
+        return vscode.DiagnosticSeverity.Information;
+    }
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this._collection.dispose();
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * BC Test Runner - Test Failure Diagnostics
+ *
+ * Publishes failing test assertions to the Problems panel on the AL source
+ * line that raised them.
+ */
+
+import * as vscode from "vscode";
+import { AITestResults, TestFailure } from "../powershell/PowerShellRunner";
+
+/**
+ * Diagnostic collection for test failures
+ */
+export class TestFailureDiagnostics implements vscode.Disposable {
+  private _collection: vscode.DiagnosticCollection;
+  private _lastResults: AITestResults | null = null;
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this._collection =
+      vscode.languages.createDiagnosticCollection("bcTestRunner.tests");
+
+    this._disposables.push(
+      this._collection,
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("bcTestRunner.showFailureDiagnostics")) {
+          this._publish();
+        }
+      })
+    );
+  }
+
+  /**
+   * Replace the diagnostics with the failures of a result set
+   */
+  update(results: AITestResults): void {
+    this._lastResults = results;
+    this._publish();
+  }
+
+  /**
+   * Remove all test failure diagnostics
+   */
+  clear(): void {
+    this._lastResults = null;
+    this._collection.clear();
+  }
+
+  private _isEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration("bcTestRunner")
+      .get("showFailureDiagnostics", true);
+  }
+
+  private _publish(): void {
+    this._collection.clear();
+    if (!this._lastResults || !this._isEnabled()) {
+      return;
+    }
+
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+    for (const failure of this._lastResults.tests.failures) {
+      if (!failure.filePath) {
+        continue;
+      }
+
+      const diagnostics = byFile.get(failure.filePath) ?? [];
+      diagnostics.push(this._createDiagnostic(failure));
+      byFile.set(failure.filePath, diagnostics);
+    }
+
+    for (const [filePath, diagnostics] of byFile) {
+      this._collection.set(vscode.Uri.file(filePath), diagnostics);
+    }
+  }
+
+  private _createDiagnostic(failure: TestFailure): vscode.Diagnostic {
+    const line = Math.max((failure.lineNumber ?? 1) - 1, 0);
+    const range = new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER);
+    const location = new vscode.Location(
+      vscode.Uri.file(failure.filePath!),
+      range
+    );
+
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      failure.error || "Test failed",
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = "BC Test Runner";
+    diagnostic.code = `${failure.codeunitId}.${failure.method}`;
+
+    const related = [
+      new vscode.DiagnosticRelatedInformation(
+        location,
+        `Failing test: ${
+          failure.testName || `${failure.codeunit}.${failure.method}`
+        }`
+      ),
+    ];
+    if (failure.stackTrace) {
+      for (const frame of failure.stackTrace.split(/\r?\n/)) {
+        if (frame.trim()) {
+          related.push(
+            new vscode.DiagnosticRelatedInformation(location, frame.trim())
+          );
+        }
+      }
+    }
+    diagnostic.relatedInformation = related;
+
+    return diagnostic;
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this._disposables.forEach((d) => d.dispose());
+  }
+}
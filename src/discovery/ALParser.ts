@@ -0,0 +1,382 @@
+/**
+ * BC Test Runner - AL Source Parser
+ *
+ * Lightweight static parser for AL source files. Extracts object
+ * declarations, test codeunits, [Test] procedures and handler functions
+ * without requiring the AL compiler.
+ */
+
+/**
+ * AL attributes that mark a procedure as a test handler
+ */
+const HANDLER_ATTRIBUTES = [
+  "ConfirmHandler",
+  "MessageHandler",
+  "ModalPageHandler",
+  "PageHandler",
+  "RequestPageHandler",
+  "ReportHandler",
+  "StrMenuHandler",
+  "FilterPageHandler",
+  "HyperlinkHandler",
+  "SendNotificationHandler",
+  "RecallNotificationHandler",
+  "SessionSettingsHandler",
+];
+
+const OBJECT_PATTERN =
+  /^\s*(codeunit|table|tableextension|page|pageextension|report|reportextension|query|xmlport|enum|enumextension|interface|permissionset|controladdin)\s+(?:(\d+)\s+)?("[^"]+"|[A-Za-z_][\w]*)/i;
+
+const EXTENDS_PATTERN = /\bextends\s+("[^"]+"|[A-Za-z_][\w]*)/i;
+
+const PROCEDURE_PATTERN =
+  /^\s*(?:(?:local|internal|protected)\s+)?procedure\s+("[^"]+"|[A-Za-z_][\w]*)\s*\(/i;
+
+const ATTRIBUTE_PATTERN = /^\s*\[\s*(\w+)\s*(?:\((.*)\))?\s*\]\s*$/;
+
+const SUBTYPE_TEST_PATTERN = /^\s*Subtype\s*=\s*Test\s*;/i;
+
+// Keywords opening (begin, case) and closing (end) a block of statements
+const BLOCK_KEYWORD_PATTERN = /\b(begin|case|end)\b/gi;
+
+/**
+ * AL object declaration found in a source file
+ */
+export interface ALObjectDeclaration {
+  type: string;
+  id?: number;
+  name: string;
+  /** Object extended by a tableextension, pageextension, ... */
+  extends?: string;
+  /** Zero-based line of the declaration */
+  line: number;
+}
+
+/**
+ * Handler function declared in a test codeunit
+ */
+export interface ALHandlerFunction {
+  name: string;
+  kind: string;
+  line: number;
+}
+
+/**
+ * [Test] procedure declared in a test codeunit
+ */
+export interface ALTestMethod {
+  name: string;
+  line: number;
+  /** Handlers listed in [HandlerFunctions('...')] */
+  handlers: string[];
+}
+
+/**
+ * Test codeunit with its test methods and handlers
+ */
+export interface ALTestCodeunit {
+  id: number;
+  name: string;
+  filePath: string;
+  line: number;
+  /** Zero-based line of the closing brace of the object */
+  endLine: number;
+  testMethods: ALTestMethod[];
+  handlerFunctions: ALHandlerFunction[];
+}
+
+/**
+ * Remove comments while preserving line structure and string literals
+ */
+export function stripComments(source: string): string {
+  let result = "";
+  let i = 0;
+  let inBlock = false;
+  let inLine = false;
+  let inString: string | null = null;
+
+  while (i < source.length) {
+    const ch = source[i];
+    const next = source[i + 1];
+
+    if (inLine) {
+      if (ch === "\n") {
+        inLine = false;
+        result += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (inBlock) {
+      if (ch === "*" && next === "/") {
+        inBlock = false;
+        i += 2;
+        continue;
+      }
+      // Keep newlines so line numbers stay stable
+      if (ch === "\n") {
+        result += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (inString) {
+      result += ch;
+      if (ch === inString || ch === "\n") {
+        inString = null;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === "/" && next === "/") {
+      inLine = true;
+      i += 2;
+      continue;
+    }
+    if (ch === "/" && next === "*") {
+      inBlock = true;
+      i += 2;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      inString = ch;
+    }
+
+    result += ch;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Remove the surrounding quotes from an AL identifier
+ */
+export function unquoteIdentifier(identifier: string): string {
+  return identifier.replace(/^"(.*)"$/, "$1");
+}
+
+/**
+ * Find all object declarations in an AL source file
+ */
+export function parseObjectDeclarations(source: string): ALObjectDeclaration[] {
+  const lines = stripComments(source).split(/\r?\n/);
+  const objects: ALObjectDeclaration[] = [];
+
+  lines.forEach((text, line) => {
+    const match = OBJECT_PATTERN.exec(text);
+    if (match) {
+      const extended = EXTENDS_PATTERN.exec(text.slice(match[0].length));
+      objects.push({
+        type: match[1].toLowerCase(),
+        id: match[2] ? parseInt(match[2], 10) : undefined,
+        name: unquoteIdentifier(match[3]),
+        extends: extended ? unquoteIdentifier(extended[1]) : undefined,
+        line,
+      });
+    }
+  });
+
+  return objects;
+}
+
+/**
+ * Parse test codeunits (Subtype = Test) declared in an AL source file
+ */
+export function parseTestCodeunits(
+  source: string,
+  filePath: string
+): ALTestCodeunit[] {
+  const lines = stripComments(source).split(/\r?\n/);
+  const objects = parseObjectDeclarations(source);
+  const codeunits: ALTestCodeunit[] = [];
+
+  objects.forEach((object, index) => {
+    if (object.type !== "codeunit" || object.id === undefined) {
+      return;
+    }
+
+    const nextObjectLine =
+      index + 1 < objects.length ? objects[index + 1].line : lines.length;
+    const body = lines.slice(object.line, nextObjectLine);
+
+    if (!body.some((text) => SUBTYPE_TEST_PATTERN.test(text))) {
+      return;
+    }
+
+    const codeunit: ALTestCodeunit = {
+      id: object.id,
+      name: object.name,
+      filePath,
+      line: object.line,
+      endLine: findClosingLine(body) + object.line,
+      testMethods: [],
+      handlerFunctions: [],
+    };
+
+    let pendingAttributes: { name: string; args?: string }[] = [];
+    body.forEach((text, offset) => {
+      const attribute = ATTRIBUTE_PATTERN.exec(text);
+      if (attribute) {
+        pendingAttributes.push({ name: attribute[1], args: attribute[2] });
+        return;
+      }
+
+      const procedure = PROCEDURE_PATTERN.exec(text);
+      if (procedure) {
+        const name = unquoteIdentifier(procedure[1]);
+        const line = object.line + offset;
+
+        for (const attr of pendingAttributes) {
+          const attrName = attr.name.toLowerCase();
+          if (attrName === "test") {
+            codeunit.testMethods.push({
+              name,
+              line,
+              handlers: parseHandlerNames(pendingAttributes),
+            });
+          }
+          const handlerKind = HANDLER_ATTRIBUTES.find(
+            (h) => h.toLowerCase() === attrName
+          );
+          if (handlerKind) {
+            codeunit.handlerFunctions.push({ name, kind: handlerKind, line });
+          }
+        }
+        pendingAttributes = [];
+        return;
+      }
+
+      // Attributes only apply to the directly following procedure
+      if (text.trim().length > 0) {
+        pendingAttributes = [];
+      }
+    });
+
+    codeunits.push(codeunit);
+  });
+
+  return codeunits;
+}
+
+/**
+ * Find the name of the procedure enclosing a zero-based line, if any.
+ * A procedure spans from its attributes to the end of its body; lines
+ * between procedures and in the global var section are outside any.
+ */
+export function findEnclosingProcedure(
+  source: string,
+  line: number
+): string | undefined {
+  const lines = stripComments(source).split(/\r?\n/);
+
+  // Scan forward from the declaration of the object holding the line
+  let start = Math.min(line, lines.length - 1);
+  while (start > 0 && !OBJECT_PATTERN.test(lines[start])) {
+    start--;
+  }
+
+  let attributeLine: number | undefined;
+  let procedure: { name: string; line: number } | undefined;
+  let depth = 0;
+  let opened = false;
+
+  for (let i = start; i < lines.length; i++) {
+    const text = lines[i];
+
+    if (!procedure) {
+      // Past the line, unless it is an attribute of the next procedure
+      if (i > line && attributeLine === undefined) {
+        return undefined;
+      }
+      if (ATTRIBUTE_PATTERN.test(text)) {
+        attributeLine ??= i;
+        continue;
+      }
+      const declaration = PROCEDURE_PATTERN.exec(text);
+      if (!declaration) {
+        // Attributes only apply to the directly following procedure
+        if (text.trim().length > 0) {
+          attributeLine = undefined;
+        }
+        continue;
+      }
+      procedure = {
+        name: unquoteIdentifier(declaration[1]),
+        line: attributeLine ?? i,
+      };
+      attributeLine = undefined;
+      depth = 0;
+      opened = false;
+    }
+
+    // Ignore keywords inside string literals and quoted identifiers
+    const code = text.replace(/'[^']*'/g, "").replace(/"[^"]*"/g, "");
+    for (const match of code.matchAll(BLOCK_KEYWORD_PATTERN)) {
+      if (match[1].toLowerCase() === "end") {
+        depth--;
+      } else {
+        depth++;
+        opened = true;
+      }
+    }
+
+    if (opened && depth <= 0) {
+      if (line <= i) {
+        return line >= procedure.line ? procedure.name : undefined;
+      }
+      procedure = undefined;
+    }
+  }
+
+  return procedure && line >= procedure.line ? procedure.name : undefined;
+}
+
+/**
+ * Extract handler names from a [HandlerFunctions('A,B')] attribute
+ */
+function parseHandlerNames(
+  attributes: { name: string; args?: string }[]
+): string[] {
+  const handlerAttr = attributes.find(
+    (a) => a.name.toLowerCase() === "handlerfunctions"
+  );
+  if (!handlerAttr?.args) {
+    return [];
+  }
+
+  return handlerAttr.args
+    .replace(/'/g, "")
+    .split(",")
+    .map((h) => h.trim())
+    .filter((h) => h.length > 0);
+}
+
+/**
+ * Find the line of the brace that closes the object body
+ */
+function findClosingLine(body: string[]): number {
+  let depth = 0;
+  let opened = false;
+
+  for (let i = 0; i < body.length; i++) {
+    // Ignore braces inside string literals
+    const text = body[i].replace(/'[^']*'/g, "");
+    for (const ch of text) {
+      if (ch === "{") {
+        depth++;
+        opened = true;
+      } else if (ch === "}") {
+        depth--;
+        if (opened && depth === 0) {
+          return i;
+        }
+      }
+    }
+  }
+
+  return body.length - 1;
+}
@@ -0,0 +1,309 @@
+/**
+ * BC Test Runner - AL Dependency Index
+ *
+ * Indexes the objects declared and referenced in the AL source of the
+ * configured apps, so a changed file can be mapped to the test codeunits
+ * that depend on it through static analysis.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ALObjectDeclaration,
+  ALTestCodeunit,
+  parseObjectDeclarations,
+  parseTestCodeunits,
+  stripComments,
+  unquoteIdentifier,
+} from "./ALParser";
+
+const IDENTIFIER = `("[^"]+"|[A-Za-z_][\\w]*)`;
+
+// Variables and parameters: Customer: Record Customer
+const VARIABLE_REFERENCE_PATTERN = new RegExp(
+  `:\\s*(Record|Codeunit|Page|TestPage|Report|TestRequestPage|Query|XmlPort|Enum|Interface)\\s+${IDENTIFIER}`,
+  "gi"
+);
+
+// Object identifiers: Codeunit::"Sales-Post", Database::Customer
+const SCOPE_REFERENCE_PATTERN = new RegExp(
+  `\\b(Database|Codeunit|Page|Report|Query|XmlPort|Enum)\\s*::\\s*${IDENTIFIER}`,
+  "gi"
+);
+
+const IMPLEMENTS_PATTERN = /\bimplements\s+([^{]+)/i;
+
+// Referenced kind → declared object type
+const REFERENCE_TYPES: Record<string, string> = {
+  record: "table",
+  database: "table",
+  testpage: "page",
+  testrequestpage: "report",
+};
+
+// Extension object type → extended object type
+const EXTENDED_TYPES: Record<string, string> = {
+  tableextension: "table",
+  pageextension: "page",
+  reportextension: "report",
+  enumextension: "enum",
+};
+
+// Object type names that are not just capitalized
+const OBJECT_TYPE_NAMES: Record<string, string> = {
+  tableextension: "TableExtension",
+  pageextension: "PageExtension",
+  reportextension: "ReportExtension",
+  enumextension: "EnumExtension",
+  xmlport: "XmlPort",
+  permissionset: "PermissionSet",
+  controladdin: "ControlAddIn",
+};
+
+// Folders that hold symbols or tooling rather than app source
+const SKIPPED_FOLDERS = new Set([".alpackages", ".git", "node_modules"]);
+
+/**
+ * AL object referenced from source
+ */
+export interface ALObjectReference {
+  type: string;
+  name: string;
+}
+
+/**
+ * Test codeunit affected by a change, with why it was selected
+ */
+export interface AffectedCodeunit {
+  id: number;
+  name: string;
+  filePath: string;
+  /** The change, or the chain of object dependencies, that selects it */
+  reason: string;
+}
+
+/**
+ * Parsed content of one source file
+ */
+interface IndexedFile {
+  modified: number;
+  objects: ALObjectDeclaration[];
+  references: ALObjectReference[];
+  testCodeunits: ALTestCodeunit[];
+}
+
+/**
+ * Find the objects referenced by variables, parameters, object identifiers,
+ * extensions and implemented interfaces in an AL source file
+ */
+export function parseObjectReferences(source: string): ALObjectReference[] {
+  const code = stripComments(source);
+  const references = new Map<string, ALObjectReference>();
+  const add = (kind: string, name: string) => {
+    const type = REFERENCE_TYPES[kind.toLowerCase()] ?? kind.toLowerCase();
+    const reference = { type, name: unquoteIdentifier(name) };
+    references.set(objectKey(reference), reference);
+  };
+
+  for (const pattern of [VARIABLE_REFERENCE_PATTERN, SCOPE_REFERENCE_PATTERN]) {
+    for (const match of code.matchAll(pattern)) {
+      add(match[1], match[2]);
+    }
+  }
+
+  for (const object of parseObjectDeclarations(source)) {
+    const extendedType = EXTENDED_TYPES[object.type];
+    if (extendedType && object.extends) {
+      add(extendedType, object.extends);
+    }
+  }
+
+  for (const line of code.split(/\r?\n/)) {
+    const implemented = IMPLEMENTS_PATTERN.exec(line);
+    if (implemented) {
+      for (const name of implemented[1].split(",")) {
+        if (name.trim()) {
+          add("interface", name.trim());
+        }
+      }
+    }
+  }
+
+  return [...references.values()];
+}
+
+/**
+ * Index of the AL objects declared and referenced per source file
+ */
+export class DependencyIndex {
+  private _files = new Map<string, IndexedFile>();
+
+  /**
+   * Scan folders for .al files, re-parsing only the files that changed
+   * since the last scan and dropping the ones that were deleted
+   */
+  refresh(folders: string[]): void {
+    const seen = new Set<string>();
+    for (const folder of folders) {
+      this._scanFolder(folder, seen);
+    }
+    for (const filePath of this._files.keys()) {
+      if (!seen.has(filePath)) {
+        this._files.delete(filePath);
+      }
+    }
+  }
+
+  /**
+   * Parse a file into the index
+   */
+  update(filePath: string, source: string, modified = Date.now()): void {
+    this._files.set(path.resolve(filePath), {
+      modified,
+      objects: parseObjectDeclarations(source),
+      references: parseObjectReferences(source),
+      testCodeunits: parseTestCodeunits(source, filePath),
+    });
+  }
+
+  /**
+   * Get the objects declared in an indexed file
+   */
+  getObjects(filePath: string): ALObjectDeclaration[] {
+    return this._files.get(path.resolve(filePath))?.objects ?? [];
+  }
+
+  /**
+   * Get the test codeunits declared in the indexed files
+   */
+  getTestCodeunits(): ALTestCodeunit[] {
+    return [...this._files.values()].flatMap((file) => file.testCodeunits);
+  }
+
+  /**
+   * Find the test codeunits affected by changes to the given files: the
+   * ones declared in a changed file, and the ones that depend on an object
+   * of a changed file directly or through other objects
+   */
+  findAffectedCodeunits(changedFiles: string[]): AffectedCodeunit[] {
+    const referencedBy = new Map<string, string[]>();
+    for (const [filePath, file] of this._files) {
+      for (const reference of file.references) {
+        const key = objectKey(reference);
+        referencedBy.set(key, [...(referencedBy.get(key) ?? []), filePath]);
+      }
+    }
+
+    const affected = new Map<number, AffectedCodeunit>();
+    const addCodeunits = (filePath: string, reason: string) => {
+      for (const codeunit of this._files.get(filePath)?.testCodeunits ?? []) {
+        if (!affected.has(codeunit.id)) {
+          affected.set(codeunit.id, {
+            id: codeunit.id,
+            name: codeunit.name,
+            filePath: codeunit.filePath,
+            reason,
+          });
+        }
+      }
+    };
+
+    // Breadth first, so each codeunit gets its shortest dependency chain
+    const visitedObjects = new Set<string>();
+    const visitedFiles = new Set<string>();
+    let queue: { filePath: string; description?: string }[] = changedFiles.map(
+      (filePath) => ({ filePath: path.resolve(filePath) })
+    );
+
+    while (queue.length > 0) {
+      const next: typeof queue = [];
+      for (const { filePath, description } of queue) {
+        if (visitedFiles.has(filePath)) {
+          continue;
+        }
+        visitedFiles.add(filePath);
+
+        const fileName = path.basename(filePath);
+        addCodeunits(
+          filePath,
+          description ? `uses ${description}` : `${fileName} changed`
+        );
+
+        for (const object of this._files.get(filePath)?.objects ?? []) {
+          const label = formatObject(object);
+          const objectDescription = description
+            ? `${label}, which uses ${description}`
+            : `${label} (changed in ${fileName})`;
+
+          const keys = [objectKey(object)];
+          const extendedType = EXTENDED_TYPES[object.type];
+          if (extendedType && object.extends) {
+            keys.push(objectKey({ type: extendedType, name: object.extends }));
+          }
+
+          for (const key of keys) {
+            if (visitedObjects.has(key)) {
+              continue;
+            }
+            visitedObjects.add(key);
+            for (const dependent of referencedBy.get(key) ?? []) {
+              next.push({
+                filePath: dependent,
+                description: objectDescription,
+              });
+            }
+          }
+        }
+      }
+      queue = next;
+    }
+
+    return [...affected.values()].sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Index the .al files of a folder tree
+   */
+  private _scanFolder(folder: string, seen: Set<string>): void {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(folder, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.resolve(folder, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_FOLDERS.has(entry.name.toLowerCase())) {
+          this._scanFolder(entryPath, seen);
+        }
+        continue;
+      }
+      if (!entry.isFile() || !entry.name.toLowerCase().endsWith(".al")) {
+        continue;
+      }
+
+      seen.add(entryPath);
+      try {
+        const modified = fs.statSync(entryPath).mtimeMs;
+        if (this._files.get(entryPath)?.modified !== modified) {
+          this.update(entryPath, fs.readFileSync(entryPath, "utf-8"), modified);
+        }
+      } catch {
+        this._files.delete(entryPath);
+      }
+    }
+  }
+}
+
+function objectKey(object: { type: string; name: string }): string {
+  return `${object.type}:${object.name.toLowerCase()}`;
+}
+
+function formatObject(object: ALObjectDeclaration): string {
+  const type =
+    OBJECT_TYPE_NAMES[object.type] ??
+    object.type.charAt(0).toUpperCase() + object.type.slice(1);
+  return `${type} "${object.name}"`;
+}
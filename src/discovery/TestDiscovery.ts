@@ -0,0 +1,203 @@
+/**
+ * BC Test Runner - Static Test Discovery
+ *
+ * Scans the test app source for test codeunits and [Test] procedures so
+ * tests are known before anything executes. Keeps the index current by
+ * re-parsing .al files as they change.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import { ConfigManager } from "../config/ConfigManager";
+import { TestApp } from "../config/schemas";
+import { ALTestCodeunit, parseTestCodeunits } from "./ALParser";
+import { isInCodeunitFilter } from "./codeunitFilter";
+
+/**
+ * Test codeunit found by discovery, with range validation applied
+ */
+export interface DiscoveredCodeunit extends ALTestCodeunit {
+  /** Extension name of the test app the codeunit is declared in */
+  app: string;
+  /** Set when the ID falls outside testCodeunitRange */
+  rangeWarning?: string;
+}
+
+/**
+ * Discovers AL tests from workspace source
+ */
+export class TestDiscovery implements vscode.Disposable {
+  private _files = new Map<string, DiscoveredCodeunit[]>();
+  private _watchers: vscode.FileSystemWatcher[] = [];
+  private _testApps: { app: TestApp; folder: string }[] = [];
+  private _disposables: vscode.Disposable[] = [];
+
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(
+    private _configManager: ConfigManager,
+    private _outputChannel: vscode.OutputChannel
+  ) {
+    this._disposables.push(
+      this._onDidChange,
+      this._configManager.onDidChangeConfig(() => {
+        this.discover();
+      })
+    );
+  }
+
+  /**
+   * Run a full scan of the test app folders
+   */
+  async discover(): Promise<void> {
+    this._files.clear();
+    this._watchers.forEach((watcher) => watcher.dispose());
+    this._watchers = [];
+    this._testApps = [];
+
+    try {
+      const configPath = await this._configManager.findConfigFile();
+      if (!configPath) {
+        this._onDidChange.fire();
+        return;
+      }
+
+      const config = await this._configManager.loadConfig(configPath);
+      for (const app of config.testApps) {
+        const folder = path.resolve(config.workspacePath, app.path);
+        if (!fs.existsSync(folder)) {
+          this._outputChannel.appendLine(
+            `[Discovery] Test app folder not found: ${folder}`
+          );
+          continue;
+        }
+        this._testApps.push({ app, folder });
+
+        const pattern = new vscode.RelativePattern(folder, "**/*.al");
+        const files = await vscode.workspace.findFiles(pattern);
+        for (const file of files) {
+          this._parseFile(file.fsPath);
+        }
+
+        this._setupWatcher(pattern);
+      }
+
+      const codeunits = this.getCodeunits();
+      const testCount = codeunits.reduce(
+        (sum, c) => sum + c.testMethods.length,
+        0
+      );
+      this._outputChannel.appendLine(
+        `[Discovery] Found ${testCount} tests in ${codeunits.length} test codeunits`
+      );
+    } catch (error) {
+      this._outputChannel.appendLine(
+        `[Discovery] Failed to scan test apps: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Get all discovered test codeunits ordered by ID
+   */
+  getCodeunits(): DiscoveredCodeunit[] {
+    return [...this._files.values()].flat().sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Find a discovered codeunit by ID
+   */
+  findCodeunit(id: number): DiscoveredCodeunit | undefined {
+    return this.getCodeunits().find((c) => c.id === id);
+  }
+
+  /**
+   * Get the test codeunits declared in a file
+   */
+  getCodeunitsInFile(filePath: string): DiscoveredCodeunit[] {
+    return this._files.get(filePath) ?? [];
+  }
+
+  /**
+   * Watch a test app folder for .al changes
+   */
+  private _setupWatcher(pattern: vscode.RelativePattern): void {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    this._watchers.push(watcher);
+
+    const update = (uri: vscode.Uri): void => {
+      this._parseFile(uri.fsPath);
+      this._onDidChange.fire();
+    };
+
+    watcher.onDidChange(update);
+    watcher.onDidCreate(update);
+    watcher.onDidDelete((uri) => {
+      this._files.delete(uri.fsPath);
+      this._onDidChange.fire();
+    });
+  }
+
+  /**
+   * Parse a single file and update the index
+   */
+  private _parseFile(filePath: string): void {
+    let source: string;
+    try {
+      source = fs.readFileSync(filePath, "utf-8");
+    } catch {
+      this._files.delete(filePath);
+      return;
+    }
+
+    // Nested test app folders belong to the most specific app
+    const testApp = this._testApps
+      .filter(({ folder }) => isInFolder(filePath, folder))
+      .sort((a, b) => b.folder.length - a.folder.length)[0]?.app;
+    if (!testApp) {
+      this._files.delete(filePath);
+      return;
+    }
+
+    const codeunits: DiscoveredCodeunit[] = parseTestCodeunits(
+      source,
+      filePath
+    ).map((codeunit) => ({ ...codeunit, app: testApp.extensionName }));
+
+    for (const codeunit of codeunits) {
+      if (!isInCodeunitFilter(codeunit.id, testApp.testCodeunitRange)) {
+        codeunit.rangeWarning = `Codeunit ${codeunit.id} is outside testCodeunitRange ${testApp.testCodeunitRange} of ${testApp.extensionName} and will not run`;
+        this._outputChannel.appendLine(`[Discovery] ${codeunit.rangeWarning}`);
+      }
+    }
+
+    if (codeunits.length > 0) {
+      this._files.set(filePath, codeunits);
+    } else {
+      this._files.delete(filePath);
+    }
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this._watchers.forEach((watcher) => watcher.dispose());
+    this._disposables.forEach((d) => d.dispose());
+  }
+}
+
+function isInFolder(filePath: string, folder: string): boolean {
+  const relative = path.relative(folder, filePath);
+  return (
+    relative.length > 0 &&
+    !relative.startsWith("..") &&
+    !path.isAbsolute(relative)
+  );
+}
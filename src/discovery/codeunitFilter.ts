@@ -0,0 +1,110 @@
+/**
+ * BC Test Runner - Codeunit Filter Helpers
+ *
+ * Parses BC codeunit ID filters such as "80000..80099", "80002" or
+ * "80000..80010|80020" into numeric ranges.
+ */
+
+/**
+ * Inclusive numeric ID range
+ */
+export interface IdRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Parse a codeunit filter into its ranges.
+ * Open-ended ranges ("80000..") extend to Infinity.
+ */
+export function parseCodeunitFilter(filter: string): IdRange[] {
+  const ranges: IdRange[] = [];
+
+  for (const part of filter.split("|")) {
+    const trimmed = part.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const match = /^(\d*)(\.\.)?(\d*)$/.exec(trimmed);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`Invalid codeunit filter: '${trimmed}'`);
+    }
+
+    const from = match[1] ? parseInt(match[1], 10) : 0;
+    const to = match[2]
+      ? match[3]
+        ? parseInt(match[3], 10)
+        : Number.POSITIVE_INFINITY
+      : from;
+    ranges.push({ from, to });
+  }
+
+  return ranges;
+}
+
+/**
+ * Check whether a codeunit ID matches a filter
+ */
+export function isInCodeunitFilter(id: number, filter: string): boolean {
+  return parseCodeunitFilter(filter).some(
+    (range) => id >= range.from && id <= range.to
+  );
+}
+
+/**
+ * Format codeunit IDs as a filter, joining consecutive IDs into ranges
+ */
+export function formatCodeunitFilter(ids: number[]): string {
+  const sorted = [...new Set(ids)].sort((a, b) => a - b);
+  const parts: string[] = [];
+
+  let start = 0;
+  for (let i = 1; i <= sorted.length; i++) {
+    if (i === sorted.length || sorted[i] !== sorted[i - 1] + 1) {
+      parts.push(
+        i - 1 === start
+          ? String(sorted[start])
+          : `${sorted[start]}..${sorted[i - 1]}`
+      );
+      start = i;
+    }
+  }
+
+  return parts.join("|");
+}
+
+/**
+ * Remove the codeunits of an exclusion filter from a filter
+ */
+export function excludeFromCodeunitFilter(
+  filter: string,
+  excluded: string
+): string {
+  let ranges = parseCodeunitFilter(filter);
+  for (const exclusion of parseCodeunitFilter(excluded)) {
+    ranges = ranges.flatMap((range) => {
+      if (exclusion.to < range.from || exclusion.from > range.to) {
+        return [range];
+      }
+      const remaining: IdRange[] = [];
+      if (exclusion.from > range.from) {
+        remaining.push({ from: range.from, to: exclusion.from - 1 });
+      }
+      if (exclusion.to < range.to) {
+        remaining.push({ from: exclusion.to + 1, to: range.to });
+      }
+      return remaining;
+    });
+  }
+
+  return ranges
+    .map((range) =>
+      range.from === range.to
+        ? String(range.from)
+        : `${range.from}..${
+            range.to === Number.POSITIVE_INFINITY ? "" : range.to
+          }`
+    )
+    .join("|");
+}
@@ -0,0 +1,213 @@
+/**
+ * BC Test Runner - Test Impact Analysis
+ *
+ * Selects the test codeunits relevant to the changes of the current branch:
+ * reads the .al files changed since a base ref from git, and maps the AL
+ * objects they declare to the test codeunits that depend on them.
+ */
+
+import * as path from "path";
+import { BCTestConfig } from "../config/schemas";
+import { getTestAppFolders, getTestCodeunitFilter } from "../config/testApps";
+import { runGit } from "../history/gitInfo";
+import { formatCodeunitFilter, isInCodeunitFilter } from "./codeunitFilter";
+import { AffectedCodeunit, DependencyIndex } from "./DependencyIndex";
+
+// Refs tried, in order, when no base ref is given
+const DEFAULT_BASE_REFS = ["origin/main", "origin/master", "main", "master"];
+
+/**
+ * AL file changed on the branch
+ */
+export interface ChangedALFile {
+  filePath: string;
+  status: "added" | "modified" | "deleted" | "renamed";
+}
+
+/**
+ * AL object declared in a changed file
+ */
+export interface ChangedALObject {
+  type: string;
+  id?: number;
+  name: string;
+  filePath: string;
+}
+
+/**
+ * Test codeunits impacted by the changes since a base ref
+ */
+export interface ImpactAnalysis {
+  baseRef: string;
+  /** Commit the changes are compared with: the merge base with HEAD */
+  mergeBase: string;
+  changedFiles: ChangedALFile[];
+  changedObjects: ChangedALObject[];
+  impactedCodeunits: AffectedCodeunit[];
+  /** Codeunit filter selecting the impacted codeunits, empty if none */
+  codeunitFilter: string;
+}
+
+/**
+ * Analyze which test codeunits are impacted by the .al files changed since
+ * the merge base of a base ref and HEAD, including uncommitted and
+ * untracked files
+ *
+ * @param baseRef Branch or commit to compare with; the remote default
+ * branch, then main or master when not given
+ */
+export async function analyzeImpact(
+  config: BCTestConfig,
+  baseRef?: string
+): Promise<ImpactAnalysis> {
+  const cwd = config.workspacePath;
+  const root = await runGit(cwd, ["rev-parse", "--show-toplevel"]);
+  const base = baseRef || (await findDefaultBaseRef(cwd));
+  const mergeBase = await runGit(cwd, ["merge-base", base, "HEAD"]);
+
+  const folders = [
+    ...config.apps.map((folder) => path.resolve(config.workspacePath, folder)),
+    ...getTestAppFolders(config),
+  ];
+  const isAppSource = (filePath: string) =>
+    filePath.toLowerCase().endsWith(".al") &&
+    folders.some((folder) => {
+      const relative = path.relative(folder, filePath);
+      return !relative.startsWith("..") && !path.isAbsolute(relative);
+    });
+
+  const changedFiles: ChangedALFile[] = [];
+  const deletedFiles: { filePath: string; gitPath: string }[] = [];
+  const diff = await runGit(cwd, [
+    "diff",
+    "--name-status",
+    "--find-renames",
+    "-z",
+    mergeBase,
+  ]);
+  const fields = diff.split("\0").filter((field) => field.length > 0);
+  for (let i = 0; i < fields.length; i++) {
+    const code = fields[i].charAt(0);
+    if (code === "R") {
+      // Renames list the old and the new path - the objects moved along
+      const filePath = path.resolve(root, fields[i + 2]);
+      i += 2;
+      if (isAppSource(filePath)) {
+        changedFiles.push({ filePath, status: "renamed" });
+      }
+      continue;
+    }
+
+    const file = fields[++i];
+    const filePath = path.resolve(root, file);
+    if (!isAppSource(filePath)) {
+      continue;
+    }
+    if (code === "D") {
+      deletedFiles.push({ filePath, gitPath: file });
+      changedFiles.push({ filePath, status: "deleted" });
+    } else {
+      changedFiles.push({
+        filePath,
+        status: code === "A" ? "added" : "modified",
+      });
+    }
+  }
+
+  const untracked = await runGit(root, [
+    "ls-files",
+    "--others",
+    "--exclude-standard",
+    "-z",
+  ]);
+  for (const file of untracked.split("\0").filter(Boolean)) {
+    const filePath = path.resolve(root, file);
+    if (isAppSource(filePath)) {
+      changedFiles.push({ filePath, status: "added" });
+    }
+  }
+
+  const index = new DependencyIndex();
+  index.refresh(folders);
+
+  // Deleted objects are read from the merge base, so their dependents are
+  // still found
+  for (const deleted of deletedFiles) {
+    try {
+      const source = await runGit(root, [
+        "show",
+        `${mergeBase}:${deleted.gitPath}`,
+      ]);
+      index.update(deleted.filePath, source);
+    } catch {
+      // Not in the merge base - nothing depended on it there
+    }
+  }
+
+  const changedPaths = changedFiles.map((file) => file.filePath);
+  const deletedPaths = new Set(deletedFiles.map((file) => file.filePath));
+  const changedObjects = changedPaths.flatMap((filePath) =>
+    index.getObjects(filePath).map((object) => ({
+      type: object.type,
+      id: object.id,
+      name: object.name,
+      filePath,
+    }))
+  );
+
+  const testCodeunitFilter = getTestCodeunitFilter(config.testApps);
+  const impactedCodeunits = index.findAffectedCodeunits(changedPaths).filter(
+    (codeunit) =>
+      // Deleted test codeunits can no longer run
+      !deletedPaths.has(path.resolve(codeunit.filePath)) &&
+      isInCodeunitFilter(codeunit.id, testCodeunitFilter)
+  );
+
+  return {
+    baseRef: base,
+    mergeBase,
+    changedFiles,
+    changedObjects,
+    impactedCodeunits,
+    codeunitFilter: formatCodeunitFilter(impactedCodeunits.map((c) => c.id)),
+  };
+}
+
+/**
+ * Find the branch to compare with: the default branch of origin, else the
+ * first of main and master that exists
+ */
+async function findDefaultBaseRef(cwd: string): Promise<string> {
+  try {
+    const head = await runGit(cwd, [
+      "symbolic-ref",
+      "--short",
+      "refs/remotes/origin/HEAD",
+    ]);
+    if (head) {
+      return head;
+    }
+  } catch {
+    // No remote default branch
+  }
+
+  for (const ref of DEFAULT_BASE_REFS) {
+    try {
+      await runGit(cwd, [
+        "rev-parse",
+        "--verify",
+        "--quiet",
+        `${ref}^{commit}`,
+      ]);
+      return ref;
+    } catch {
+      // Try the next ref
+    }
+  }
+
+  throw new Error(
+    `No base ref found to compare with (tried ${DEFAULT_BASE_REFS.join(
+      ", "
+    )}), specify one`
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * BC Test Runner - Test CodeLens Provider
+ *
+ * Shows "Run Test" and "Run Codeunit" actions above [Test] procedures and
+ * test codeunit declarations in .al files.
+ */
+
+import * as vscode from "vscode";
+import { parseTestCodeunits } from "../discovery/ALParser";
+
+/**
+ * CodeLens provider for AL test codeunits
+ */
+export class TestCodeLensProvider implements vscode.CodeLensProvider {
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  refresh(): void {
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (
+      !vscode.workspace
+        .getConfiguration("bcTestRunner")
+        .get("enableCodeLens", true)
+    ) {
+      return [];
+    }
+
+    const lenses: vscode.CodeLens[] = [];
+    const codeunits = parseTestCodeunits(
+      document.getText(),
+      document.uri.fsPath
+    );
+
+    for (const codeunit of codeunits) {
+      lenses.push(
+        new vscode.CodeLens(
+          new vscode.Range(codeunit.line, 0, codeunit.line, 0),
+          {
+            title: "$(run-all) Run Codeunit",
+            tooltip: `Run all tests in codeunit ${codeunit.id}`,
+            command: "bcTestRunner.runCodeunit",
+            arguments: [codeunit.id],
+          }
+        )
+      );
+
+      for (const method of codeunit.testMethods) {
+        lenses.push(
+          new vscode.CodeLens(
+            new vscode.Range(method.line, 0, method.line, 0),
+            {
+              title: "$(run) Run Test",
+              tooltip: `Run ${codeunit.name}.${method.name}`,
+              command: "bcTestRunner.runTest",
+              arguments: [codeunit.id, method.name],
+            }
+          )
+        );
+      }
+    }
+
+    return lenses;
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this._onDidChangeCodeLenses.dispose();
+  }
+}
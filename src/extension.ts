@@ -6,13 +6,50 @@
  */
 
 import * as vscode from "vscode";
-import { PowerShellRunner } from "./powershell/PowerShellRunner";
+import * as path from "path";
+import {
+  PowerShellRunner,
+  PowerShellResult,
+  AITestResults,
+  CompilationResult,
+  PublishSummary,
+} from "./powershell/PowerShellRunner";
 import { CredentialManager } from "./credentials/CredentialManager";
 import { ConfigManager } from "./config/ConfigManager";
+import { BCTestConfig } from "./config/schemas";
+import { getTestCodeunitFilter, selectTestApps } from "./config/testApps";
+import { resolveSuite, SuiteSelection } from "./config/suites";
 import { registerTools } from "./tools/BCTestTools";
 import { TestResultsTreeDataProvider } from "./views/TestResultsView";
 import { EnvironmentsTreeDataProvider } from "./views/EnvironmentsView";
 import { ReportGenerator } from "./reports/ReportGenerator";
+import { BCTestController } from "./testing/BCTestController";
+import { WatchMode } from "./testing/WatchMode";
+import { analyzeImpact, ImpactAnalysis } from "./discovery/impactAnalysis";
+import { TestDiscovery } from "./discovery/TestDiscovery";
+import {
+  findEnclosingProcedure,
+  parseTestCodeunits,
+} from "./discovery/ALParser";
+import { TestCodeLensProvider } from "./editor/TestCodeLensProvider";
+import { rerunFailedTests } from "./testing/rerunFailed";
+import { getMaxRetries, retryFailedTests } from "./testing/retryFailed";
+import { planShardedRun, runSharded } from "./testing/parallelRun";
+import { runSuites } from "./testing/suiteRun";
+import { Shard } from "./testing/sharding";
+import { TestFailureDiagnostics } from "./diagnostics/TestFailureDiagnostics";
+import { CompilationDiagnostics } from "./diagnostics/CompilationDiagnostics";
+import { recordRun } from "./history/recordRun";
+import { TestHistory } from "./history/TestHistory";
+import { buildRunTrends } from "./history/trends";
+import {
+  listResultsFiles,
+  loadLatestResults,
+  readResultsFile,
+} from "./results/resultsReader";
+import { compareRuns } from "./results/runComparison";
+import { ProgressEvent, RunProgress } from "./powershell/progressEvents";
+import { isInCodeunitFilter } from "./discovery/codeunitFilter";
 
 let outputChannel: vscode.OutputChannel;
 let runner: PowerShellRunner;
@@ -22,6 +59,11 @@ let statusBarItem: vscode.StatusBarItem;
 let testResultsProvider: TestResultsTreeDataProvider;
 let environmentsProvider: EnvironmentsTreeDataProvider;
 let reportGenerator: ReportGenerator;
+let testController: BCTestController;
+let watchMode: WatchMode;
+let testDiscovery: TestDiscovery;
+let failureDiagnostics: TestFailureDiagnostics;
+let compilationDiagnostics: CompilationDiagnostics;
 
 /**
  * Extension activation
@@ -33,10 +75,15 @@ export async function activate(
   outputChannel.appendLine("BC Test Runner extension activating...");
 
   // Initialize components
-  runner = new PowerShellRunner(context.extensionPath, outputChannel);
+  runner = new PowerShellRunner(context.extensionPath, outputChannel, {
+    // Read on use, so changed settings apply without a reload
+    get: (key, defaultValue) =>
+      vscode.workspace.getConfiguration("bcTestRunner").get(key, defaultValue),
+  });
+  context.subscriptions.push(runner);
   credentialManager = new CredentialManager(context);
-  configManager = new ConfigManager();
   reportGenerator = new ReportGenerator();
+  configManager = new ConfigManager(() => reportGenerator.getFormats());
 
   // Check prerequisites
   const psAvailable = await runner.checkPowerShell();
@@ -56,8 +103,15 @@ export async function activate(
   statusBarItem.show();
   context.subscriptions.push(statusBarItem);
 
+  // Initialize static test discovery
+  testDiscovery = new TestDiscovery(configManager, outputChannel);
+  context.subscriptions.push(testDiscovery);
+
   // Initialize tree views
-  testResultsProvider = new TestResultsTreeDataProvider(configManager, runner);
+  testResultsProvider = new TestResultsTreeDataProvider(
+    configManager,
+    testDiscovery
+  );
   environmentsProvider = new EnvironmentsTreeDataProvider(
     configManager,
     credentialManager
@@ -74,6 +128,49 @@ export async function activate(
     )
   );
 
+  // Initialize Problems panel diagnostics for failing tests
+  failureDiagnostics = new TestFailureDiagnostics();
+  context.subscriptions.push(failureDiagnostics);
+  compilationDiagnostics = new CompilationDiagnostics();
+  context.subscriptions.push(compilationDiagnostics);
+
+  // Initialize native Test Explorer integration
+  testController = new BCTestController(
+    runner,
+    configManager,
+    credentialManager,
+    testDiscovery,
+    outputChannel
+  );
+  context.subscriptions.push(
+    testController,
+    testController.onDidCompleteRun(async ({ results, config }) => {
+      await completeRun(results, config);
+    })
+  );
+
+  // Re-run affected tests on save while watch mode is on
+  watchMode = new WatchMode(configManager, testController, outputChannel);
+  context.subscriptions.push(watchMode);
+
+  // Register CodeLens for AL test codeunits
+  const codeLensProvider = new TestCodeLensProvider();
+  context.subscriptions.push(
+    codeLensProvider,
+    vscode.languages.registerCodeLensProvider(
+      { language: "al" },
+      codeLensProvider
+    ),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("bcTestRunner.enableCodeLens")) {
+        codeLensProvider.refresh();
+      }
+    })
+  );
+
+  // Discover tests from source without blocking activation
+  testDiscovery.discover();
+
   // Register commands
   registerCommands(context);
 
@@ -103,10 +200,38 @@ function registerCommands(context: vscode.ExtensionContext): void {
     })
   );
 
-  // Execute tests only (alias for runTests - apps must be pre-compiled/published)
+  // Execute tests only (apps must be pre-compiled/published)
   context.subscriptions.push(
     vscode.commands.registerCommand("bcTestRunner.executeTests", async () => {
-      await runTests();
+      await runTests({ skipCompile: true, skipPublish: true });
+    })
+  );
+
+  // Run the tests of one test app
+  context.subscriptions.push(
+    vscode.commands.registerCommand("bcTestRunner.runTestApp", async () => {
+      await runTestApp();
+    })
+  );
+
+  // Run a suite of the configuration
+  context.subscriptions.push(
+    vscode.commands.registerCommand("bcTestRunner.runSuite", async () => {
+      await runSuite();
+    })
+  );
+
+  // Compile all apps
+  context.subscriptions.push(
+    vscode.commands.registerCommand("bcTestRunner.compileApps", async () => {
+      await runAppOperation("compile");
+    })
+  );
+
+  // Publish all apps
+  context.subscriptions.push(
+    vscode.commands.registerCommand("bcTestRunner.publishApps", async () => {
+      await runAppOperation("publish");
     })
   );
 
@@ -183,12 +308,143 @@ function registerCommands(context: vscode.ExtensionContext): void {
       await createConfig();
     })
   );
+
+  // Run a single test (CodeLens)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "bcTestRunner.runTest",
+      async (codeunitId: number, method: string) => {
+        await testController.runSelections([{ codeunitId, methods: [method] }]);
+      }
+    )
+  );
+
+  // Run a whole codeunit (CodeLens)
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "bcTestRunner.runCodeunit",
+      async (codeunitId: number) => {
+        await testController.runSelections([{ codeunitId }]);
+      }
+    )
+  );
+
+  // Re-run failed tests from the latest result
+  context.subscriptions.push(
+    vscode.commands.registerCommand("bcTestRunner.rerunFailed", async () => {
+      await rerunFailed();
+    })
+  );
+
+  // Run the test under the cursor
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "bcTestRunner.runTestAtCursor",
+      async () => {
+        await runTestAtCursor();
+      }
+    )
+  );
+
+  // Show pass rate and duration trends of the run history
+  context.subscriptions.push(
+    vscode.commands.registerCommand("bcTestRunner.showTrends", async () => {
+      await showTrendDashboard();
+    })
+  );
+
+  // Run the tests impacted by the changes of the current branch
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "bcTestRunner.runImpactedTests",
+      async () => {
+        await runImpactedTests();
+      }
+    )
+  );
+
+  // Turn watch mode on or off
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "bcTestRunner.toggleWatchMode",
+      async () => {
+        await watchMode.toggle();
+      }
+    )
+  );
+
+  // Copy the Markdown summary of the latest run
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "bcTestRunner.copyResultsMarkdown",
+      async () => {
+        await copyResultsMarkdown();
+      }
+    )
+  );
+
+  // Compare two runs, by default a picked baseline with the latest run
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "bcTestRunner.compareRuns",
+      async (baselineFile?: string, currentFile?: string) => {
+        await compareTestRuns(baselineFile, currentFile);
+      }
+    )
+  );
+}
+
+/**
+ * Run the test procedure (or codeunit) enclosing the cursor
+ */
+async function runTestAtCursor(): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "al") {
+    vscode.window.showWarningMessage("Open an AL test codeunit to run a test");
+    return;
+  }
+
+  const source = editor.document.getText();
+  const line = editor.selection.active.line;
+  const codeunit = parseTestCodeunits(source, editor.document.uri.fsPath).find(
+    (c) => line >= c.line && line <= c.endLine
+  );
+
+  if (!codeunit) {
+    vscode.window.showWarningMessage(
+      "The cursor is not inside a test codeunit (Subtype = Test)"
+    );
+    return;
+  }
+
+  const procedure = findEnclosingProcedure(source, line);
+  const testMethod = codeunit.testMethods.find((m) => m.name === procedure);
+
+  // Outside a [Test] procedure, fall back to the whole codeunit
+  await testController.runSelections([
+    testMethod
+      ? { codeunitId: codeunit.id, methods: [testMethod.name] }
+      : { codeunitId: codeunit.id },
+  ]);
 }
 
 /**
- * Run tests (assumes apps are already compiled and published)
+ * Run tests, compiling and publishing the apps first unless skipped
  */
-async function runTests(): Promise<void> {
+async function runTests(
+  options: {
+    skipCompile?: boolean;
+    skipPublish?: boolean;
+    /** Run only these codeunits, on the current environment */
+    codeunitFilter?: string;
+    /** Run only the test methods matching this pattern */
+    testMethod?: string;
+    /** Extension name of the test app to run, all test apps when not given */
+    testApp?: string;
+    /** Suites to run one after another instead of a single selection */
+    suites?: SuiteSelection[];
+  } = {}
+): Promise<void> {
   const configPath = await configManager.findConfigFile();
   if (!configPath) {
     const create = await vscode.window.showWarningMessage(
@@ -241,6 +497,30 @@ async function runTests(): Promise<void> {
       }
     }
 
+    // Split the codeunits across environments when parallel execution is on
+    const shards =
+      options.codeunitFilter || options.suites
+        ? []
+        : planShardedRun(
+            config,
+            configManager.getResultsFolder(config),
+            options.testApp
+          );
+    const shardCredentials = await getShardCredentials(config, shards);
+    if (!shardCredentials) {
+      vscode.window.showWarningMessage(
+        "Credentials required for UserPassword authentication"
+      );
+      return;
+    }
+    for (const [index, shard] of shards.entries()) {
+      outputChannel.appendLine(
+        `Shard ${index + 1}: ${shard.environment} - ${
+          shard.codeunitIds.length
+        } codeunit(s), ~${shard.estimatedDuration}s`
+      );
+    }
+
     // Update UI state
     vscode.commands.executeCommand(
       "setContext",
@@ -263,59 +543,135 @@ async function runTests(): Promise<void> {
 
         progress.report({ message: "Running tests..." });
 
-        const result = await runner.runTests(configPath, env.name, {
-          credential,
-          cancellationToken: token,
-        });
+        const runProgress = new RunProgress(
+          countExpectedCodeunits(
+            options.suites?.map((s) => s.codeunitFilter).join("|") ??
+              options.codeunitFilter ??
+              getTestCodeunitFilter(selectTestApps(config, options.testApp))
+          )
+        );
+        const liveRun = testController.startLiveRun(config);
+
+        const onProgress = (event: ProgressEvent) => {
+          const increment = runProgress.update(event);
+          progress.report({ message: runProgress.describe(), increment });
+          updateStatusBar(
+            `$(sync~spin) BC Tests: ${runProgress.describeShort()}`
+          );
+          liveRun.report(event);
+        };
+
+        const result =
+          shards.length > 0
+            ? await runSharded(runner, configPath, config, shards, {
+                credentials: shardCredentials,
+                resultsFolder: configManager.getResultsFolder(config),
+                skipCompile: options.skipCompile,
+                skipPublish: options.skipPublish,
+                testApp: options.testApp,
+                cancellationToken: token,
+                onProgress,
+              })
+            : options.suites
+            ? await runSuites(
+                options.suites,
+                // The first suite compiles and publishes for all of them
+                (selection, index) =>
+                  index === 0
+                    ? runner.runTests(configPath, env.name, {
+                        ...selection,
+                        credential,
+                        skipCompile: options.skipCompile,
+                        skipPublish: options.skipPublish,
+                        cancellationToken: token,
+                        onProgress,
+                      })
+                    : runner.executeTests(configPath, env.name, {
+                        ...selection,
+                        credential,
+                        cancellationToken: token,
+                        onProgress,
+                      }),
+                token
+              )
+            : await runner.runTests(configPath, env.name, {
+                credential,
+                skipCompile: options.skipCompile,
+                skipPublish: options.skipPublish,
+                codeunitFilter: options.codeunitFilter,
+                testMethod: options.testMethod,
+                testApp: options.testApp,
+                cancellationToken: token,
+                onProgress,
+              });
 
         if (result.cancelled) {
+          liveRun.end();
           updateStatusBar("$(testing-cancel-icon) Cancelled");
           return;
         }
 
         if (result.success && result.data) {
-          // result.data now contains the AI results object directly with 'tests' property
-          const tests = result.data.tests;
-          if (tests) {
+          const retried = await retryFailedTests(
+            runner,
+            configPath,
+            env.name,
+            result.data,
+            {
+              credential,
+              shardCredentials,
+              cancellationToken: token,
+              maxRetries: getMaxRetries(config),
+              onRetry: (attempt, failures) => {
+                progress.report({
+                  message: `Retrying ${failures} failed test(s), attempt ${attempt}...`,
+                });
+                updateStatusBar("$(sync~spin) Retrying failed tests...");
+              },
+            }
+          );
+          const results = await completeRun(retried, config);
+
+          // results contains the AI results object directly with 'tests' property
+          const tests = results.tests;
+          const compilation = results.compilation;
+          if (compilation && !compilation.success) {
+            const failed = compilation.apps.find((app) => !app.success);
+            vscode.window
+              .showErrorMessage(
+                `Compilation of ${failed?.app ?? "apps"} failed with ${
+                  compilation.errors.length
+                } error(s)`,
+                "Show Problems"
+              )
+              .then((selection) => {
+                if (selection === "Show Problems") {
+                  vscode.commands.executeCommand(
+                    "workbench.actions.view.problems"
+                  );
+                }
+              });
+          } else if (tests?.error) {
+            vscode.window.showErrorMessage(`Test run failed: ${tests.error}`);
+          } else if (tests) {
             const passed = tests.summary?.passed ?? 0;
             const failed = tests.summary?.failed ?? 0;
             const total = tests.summary?.total ?? 0;
 
             if (failed === 0) {
-              updateStatusBar(
-                `$(testing-passed-icon) ${passed}/${total} passed`
-              );
               vscode.window.showInformationMessage(
                 `All ${total} tests passed!`
               );
             } else {
-              updateStatusBar(`$(testing-failed-icon) ${failed} failed`);
               vscode.window.showWarningMessage(
                 `Tests completed: ${passed} passed, ${failed} failed`
               );
             }
           }
 
-          // Generate HTML report if configured
-          // result.data now has the FilePath property directly
-          if (result.data.FilePath) {
-            const htmlPath = await reportGenerator.generateReport(
-              result.data,
-              configManager.getResultsFolder(config)
-            );
-
-            if (
-              vscode.workspace
-                .getConfiguration("bcTestRunner")
-                .get("autoOpenReport")
-            ) {
-              vscode.env.openExternal(vscode.Uri.file(htmlPath));
-            }
-          }
-
-          // Refresh the results view
-          testResultsProvider.refresh();
+          liveRun.end(results);
         } else {
+          liveRun.end();
           updateStatusBar("$(testing-error-icon) Error");
 
           // Check if it's a Docker error and provide more helpful message
@@ -367,165 +723,727 @@ async function runTests(): Promise<void> {
 }
 
 /**
- * View latest results
+ * Run the full pipeline for the test codeunits impacted by the changes
+ * since the base ref
  */
-async function viewResults(): Promise<void> {
+async function runImpactedTests(): Promise<void> {
   const configPath = await configManager.findConfigFile();
   if (!configPath) {
     vscode.window.showWarningMessage("No bctest.config.json found");
     return;
   }
 
+  let analysis: ImpactAnalysis;
   try {
     const config = await configManager.loadConfig(configPath);
-    const resultsFolder = configManager.getResultsFolder(config);
-
-    const result = await runner.getLatestResults(resultsFolder);
-
-    if (result.success && result.data) {
-      // Show in webview or output
-      const panel = vscode.window.createWebviewPanel(
-        "bcTestResults",
-        "BC Test Results",
-        vscode.ViewColumn.One,
-        { enableScripts: true }
-      );
-
-      panel.webview.html = reportGenerator.generateWebviewHtml(result.data);
-    } else {
-      vscode.window.showWarningMessage("No test results found");
-    }
+    analysis = await analyzeImpact(
+      config,
+      vscode.workspace
+        .getConfiguration("bcTestRunner")
+        .get<string>("impactBaseRef")
+    );
   } catch (error) {
     vscode.window.showErrorMessage(
-      `Error viewing results: ${
+      `Impact analysis failed: ${
         error instanceof Error ? error.message : String(error)
       }`
     );
+    return;
+  }
+
+  outputChannel.appendLine(
+    `[Impact] ${analysis.changedFiles.length} AL file(s) changed since ${analysis.baseRef}`
+  );
+  for (const codeunit of analysis.impactedCodeunits) {
+    outputChannel.appendLine(
+      `[Impact]   ${codeunit.name} (${codeunit.id}): ${codeunit.reason}`
+    );
+  }
+
+  if (analysis.impactedCodeunits.length === 0) {
+    vscode.window.showInformationMessage(
+      `No tests are impacted by the changes since ${analysis.baseRef}`
+    );
+    return;
   }
+
+  await runTests({ codeunitFilter: analysis.codeunitFilter });
 }
 
 /**
- * Open HTML report
+ * Run the full pipeline for the tests of one test app
  */
-async function openReport(): Promise<void> {
+async function runTestApp(): Promise<void> {
   const configPath = await configManager.findConfigFile();
   if (!configPath) {
+    vscode.window.showWarningMessage("No bctest.config.json found");
     return;
   }
 
+  let testApp: string | undefined;
   try {
     const config = await configManager.loadConfig(configPath);
-    const resultsFolder = configManager.getResultsFolder(config);
-
-    // Find latest HTML report
-    const files = await vscode.workspace.findFiles(
-      new vscode.RelativePattern(resultsFolder, "TestReport_*.html"),
-      null,
-      1
-    );
-
-    if (files.length > 0) {
-      vscode.env.openExternal(files[0]);
-    } else {
-      vscode.window.showWarningMessage("No HTML report found");
-    }
+    testApp = await configManager.selectTestApp(config);
   } catch (error) {
     vscode.window.showErrorMessage(
-      `Error opening report: ${
+      `Error selecting test app: ${
         error instanceof Error ? error.message : String(error)
       }`
     );
+    return;
+  }
+
+  if (testApp) {
+    await runTests({ testApp });
   }
 }
 
 /**
- * Select environment
+ * Pick a suite of the configuration and run it
  */
-async function selectEnvironment(): Promise<void> {
+async function runSuite(): Promise<void> {
   const configPath = await configManager.findConfigFile();
   if (!configPath) {
+    vscode.window.showWarningMessage("No bctest.config.json found");
     return;
   }
 
+  const selections: SuiteSelection[] = [];
   try {
     const config = await configManager.loadConfig(configPath);
-    const selected = await configManager.selectEnvironment(config);
-
-    if (selected) {
-      vscode.window.showInformationMessage(`Selected environment: ${selected}`);
-      environmentsProvider.refresh();
+    for (const suite of (await configManager.selectSuites(config)) ?? []) {
+      const selection = resolveSuite(config, suite);
+      outputChannel.appendLine(
+        `Running suite '${suite}': codeunits ${selection.codeunitFilter}${
+          selection.testMethod ? `, methods ${selection.testMethod}` : ""
+        }`
+      );
+      selections.push(selection);
     }
   } catch (error) {
     vscode.window.showErrorMessage(
-      `Error selecting environment: ${
+      `Error selecting suite: ${
         error instanceof Error ? error.message : String(error)
       }`
     );
+    return;
+  }
+
+  if (selections.length === 1) {
+    await runTests(selections[0]);
+  } else if (selections.length > 1) {
+    await runTests({ suites: selections });
   }
 }
 
 /**
- * Set credentials
+ * Get the credentials of the environments of a sharded run.
+ * Returns undefined when a required credential was not provided.
  */
-async function setCredentials(): Promise<void> {
-  const configPath = await configManager.findConfigFile();
-  if (!configPath) {
-    return;
-  }
-
-  try {
-    const config = await configManager.loadConfig(configPath);
-    const envNames = configManager.getEnvironmentNames(config);
+async function getShardCredentials(
+  config: BCTestConfig,
+  shards: Shard[]
+): Promise<Map<string, { username: string; password: string }> | undefined> {
+  const credentials = new Map<string, { username: string; password: string }>();
+  for (const shard of shards) {
+    const shardEnv = configManager.getEnvironment(config, shard.environment);
+    if (
+      shardEnv?.authentication !== "UserPassword" &&
+      shardEnv?.authentication !== "NavUserPassword"
+    ) {
+      continue;
+    }
 
-    await credentialManager.showCredentialManager(envNames);
-    environmentsProvider.refresh();
-  } catch (error) {
-    vscode.window.showErrorMessage(
-      `Error managing credentials: ${
-        error instanceof Error ? error.message : String(error)
-      }`
+    const credential = await credentialManager.getOrPromptCredentials(
+      shard.environment
     );
+    if (!credential) {
+      return undefined;
+    }
+    credentials.set(shard.environment, credential);
   }
+  return credentials;
 }
 
 /**
- * Clear credentials
+ * Compile or publish all configured apps
  */
-async function clearCredentials(): Promise<void> {
+async function runAppOperation(
+  operation: "compile" | "publish"
+): Promise<void> {
   const configPath = await configManager.findConfigFile();
   if (!configPath) {
+    vscode.window.showWarningMessage("No bctest.config.json found");
     return;
   }
 
+  const label = operation === "compile" ? "Compiling" : "Publishing";
+  const done = operation === "compile" ? "Compiled" : "Published";
+
   try {
     const config = await configManager.loadConfig(configPath);
-    const envNames = configManager.getEnvironmentNames(config);
+    const env = configManager.getEnvironment(config);
 
-    const confirm = await vscode.window.showWarningMessage(
-      "Are you sure you want to clear all stored credentials?",
-      { modal: true },
-      "Clear All"
-    );
+    if (!env) {
+      vscode.window.showErrorMessage("No environment configured");
+      return;
+    }
 
-    if (confirm === "Clear All") {
-      await credentialManager.deleteAllCredentials(envNames);
-      vscode.window.showInformationMessage("All credentials cleared");
-      environmentsProvider.refresh();
+    let credential: { username: string; password: string } | undefined;
+    if (
+      env.authentication === "UserPassword" ||
+      env.authentication === "NavUserPassword"
+    ) {
+      credential = await credentialManager.getOrPromptCredentials(env.name);
+      if (!credential) {
+        vscode.window.showWarningMessage(
+          "Credentials required for UserPassword authentication"
+        );
+        return;
+      }
     }
-  } catch (error) {
-    vscode.window.showErrorMessage(
-      `Error clearing credentials: ${
-        error instanceof Error ? error.message : String(error)
-      }`
+
+    vscode.commands.executeCommand(
+      "setContext",
+      "bcTestRunner.isRunning",
+      true
     );
-  }
-}
+    updateStatusBar(`$(sync~spin) ${label} apps...`);
 
-/**
- * Create configuration file
- */
-async function createConfig(): Promise<void> {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "BC Test Runner",
+        cancellable: true,
+      },
+      async (progress, token) => {
+        progress.report({ message: `${label} apps...` });
+
+        const options = {
+          credential,
+          cancellationToken: token,
+          onProgress: (event: ProgressEvent) => {
+            if (event.type === "phase" && event.message) {
+              progress.report({ message: event.message });
+              updateStatusBar(`$(sync~spin) ${event.message}`);
+            }
+          },
+        };
+        let result: PowerShellResult<CompilationResult | PublishSummary>;
+        if (operation === "compile") {
+          const compiled = await runner.compileApps(
+            configPath,
+            env.name,
+            options
+          );
+          if (compiled.data) {
+            compilationDiagnostics.update(compiled.data);
+          }
+          result = compiled;
+        } else {
+          result = await runner.publishApps(configPath, env.name, options);
+        }
+
+        if (result.cancelled) {
+          updateStatusBar("$(testing-cancel-icon) Cancelled");
+          return;
+        }
+
+        if (!result.success || !result.data) {
+          updateStatusBar("$(testing-error-icon) Error");
+          vscode.window.showErrorMessage(
+            `${label} apps failed: ${result.error}`
+          );
+          return;
+        }
+
+        const failed = result.data.apps.find((app) => !app.success);
+        if (failed) {
+          updateStatusBar("$(testing-error-icon) Error");
+          vscode.window.showErrorMessage(
+            `${label} ${failed.app} failed: ${failed.error ?? "see output"}`
+          );
+          return;
+        }
+
+        const apps = result.data.apps.map((app) => app.app).join(", ");
+        updateStatusBar(`$(check) ${done}`);
+        vscode.window.showInformationMessage(
+          `${done} ${apps} in ${result.data.duration}`
+        );
+      }
+    );
+  } catch (error) {
+    updateStatusBar("$(testing-error-icon) Error");
+    vscode.window.showErrorMessage(
+      `Error ${label.toLowerCase()} apps: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  } finally {
+    vscode.commands.executeCommand(
+      "setContext",
+      "bcTestRunner.isRunning",
+      false
+    );
+  }
+}
+
+/**
+ * Re-run only the failed tests of the latest result set
+ */
+async function rerunFailed(): Promise<void> {
+  const configPath = await configManager.findConfigFile();
+  if (!configPath) {
+    vscode.window.showWarningMessage("No bctest.config.json found");
+    return;
+  }
+
+  try {
+    const config = await configManager.loadConfig(configPath);
+    const env = configManager.getEnvironment(config);
+
+    if (!env) {
+      vscode.window.showErrorMessage("No environment configured");
+      return;
+    }
+
+    const latest = loadLatestResults(
+      configManager.getResultsFolder(config),
+      undefined,
+      { workspacePath: config.workspacePath }
+    );
+    if (!latest) {
+      vscode.window.showWarningMessage("No test results found");
+      return;
+    }
+
+    const failures = latest.tests.failures;
+    if (failures.length === 0) {
+      vscode.window.showInformationMessage(
+        "No failed tests in the latest results"
+      );
+      return;
+    }
+
+    let credential: { username: string; password: string } | undefined;
+    if (
+      env.authentication === "UserPassword" ||
+      env.authentication === "NavUserPassword"
+    ) {
+      credential = await credentialManager.getOrPromptCredentials(env.name);
+      if (!credential) {
+        vscode.window.showWarningMessage(
+          "Credentials required for UserPassword authentication"
+        );
+        return;
+      }
+    }
+
+    vscode.commands.executeCommand(
+      "setContext",
+      "bcTestRunner.isRunning",
+      true
+    );
+    updateStatusBar(`$(sync~spin) Re-running ${failures.length} failed...`);
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "BC Test Runner",
+        cancellable: true,
+      },
+      async (progress, token) => {
+        progress.report({
+          message: `Re-running ${failures.length} failed test(s)...`,
+        });
+
+        const result = await rerunFailedTests(
+          runner,
+          configPath,
+          env.name,
+          latest,
+          { credential, cancellationToken: token }
+        );
+
+        if (result.cancelled) {
+          updateStatusBar("$(testing-cancel-icon) Cancelled");
+          return;
+        }
+
+        if (result.success && result.data) {
+          const results = await completeRun(result.data, config);
+          const stillFailing = results.tests.failures.length;
+          const fixed = failures.length - stillFailing;
+          vscode.window.showInformationMessage(
+            `Re-run complete: ${fixed} now passing, ${stillFailing} still failing`
+          );
+          testController.loadResults(results, config);
+        } else {
+          updateStatusBar("$(testing-error-icon) Error");
+          vscode.window.showErrorMessage(`Re-run failed: ${result.error}`);
+        }
+      }
+    );
+  } catch (error) {
+    updateStatusBar("$(testing-error-icon) Error");
+    vscode.window.showErrorMessage(
+      `Error re-running failed tests: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  } finally {
+    vscode.commands.executeCommand(
+      "setContext",
+      "bcTestRunner.isRunning",
+      false
+    );
+  }
+}
+
+/**
+ * View latest results
+ */
+async function viewResults(): Promise<void> {
+  const configPath = await configManager.findConfigFile();
+  if (!configPath) {
+    vscode.window.showWarningMessage("No bctest.config.json found");
+    return;
+  }
+
+  try {
+    const config = await configManager.loadConfig(configPath);
+    const resultsFolder = configManager.getResultsFolder(config);
+
+    const results = loadLatestResults(resultsFolder, undefined, {
+      workspacePath: config.workspacePath,
+    });
+
+    if (results) {
+      showResultsPanel(results);
+    } else {
+      vscode.window.showWarningMessage("No test results found");
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error viewing results: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Show the report of a result set in a webview
+ */
+function showResultsPanel(results: AITestResults): void {
+  const panel = vscode.window.createWebviewPanel(
+    "bcTestResults",
+    "BC Test Results",
+    vscode.ViewColumn.One,
+    { enableScripts: true }
+  );
+
+  panel.webview.html = reportGenerator.generateWebviewHtml(results);
+}
+
+/**
+ * Show the trend dashboard of the runs in the test history. Clicking a run
+ * opens its results.
+ */
+async function showTrendDashboard(): Promise<void> {
+  const configPath = await configManager.findConfigFile();
+  if (!configPath) {
+    vscode.window.showWarningMessage("No bctest.config.json found");
+    return;
+  }
+
+  try {
+    const config = await configManager.loadConfig(configPath);
+    const resultsFolder = configManager.getResultsFolder(config);
+    const trends = buildRunTrends(new TestHistory(resultsFolder).getEntries());
+
+    const panel = vscode.window.createWebviewPanel(
+      "bcTestTrends",
+      "BC Test Trends",
+      vscode.ViewColumn.One,
+      { enableScripts: true }
+    );
+    panel.webview.html = reportGenerator.generateTrendWebviewHtml(trends);
+
+    panel.webview.onDidReceiveMessage((message) => {
+      const run =
+        message?.command === "openRun" ? trends.runs[message.index] : undefined;
+      if (!run?.resultFile) {
+        return;
+      }
+
+      try {
+        showResultsPanel(
+          readResultsFile(path.resolve(resultsFolder, run.resultFile), {
+            workspacePath: config.workspacePath,
+          })
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error opening run: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    });
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error showing trends: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Copy the Markdown summary of the latest results to the clipboard
+ */
+async function copyResultsMarkdown(): Promise<void> {
+  const configPath = await configManager.findConfigFile();
+  if (!configPath) {
+    vscode.window.showWarningMessage("No bctest.config.json found");
+    return;
+  }
+
+  try {
+    const config = await configManager.loadConfig(configPath);
+    const resultsFolder = configManager.getResultsFolder(config);
+
+    const results = loadLatestResults(resultsFolder, undefined, {
+      workspacePath: config.workspacePath,
+    });
+    if (!results) {
+      vscode.window.showWarningMessage("No test results found");
+      return;
+    }
+
+    await vscode.env.clipboard.writeText(
+      reportGenerator.generateMarkdown(results)
+    );
+    vscode.window.showInformationMessage("Test results copied as Markdown");
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error copying results: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Show the diff of a baseline run and a current run in a webview
+ */
+async function compareTestRuns(
+  baselineFile?: string,
+  currentFile?: string
+): Promise<void> {
+  const configPath = await configManager.findConfigFile();
+  if (!configPath) {
+    vscode.window.showWarningMessage("No bctest.config.json found");
+    return;
+  }
+
+  try {
+    const config = await configManager.loadConfig(configPath);
+    const resultsFolder = configManager.getResultsFolder(config);
+    const parseOptions = { workspacePath: config.workspacePath };
+
+    const files = listResultsFiles(resultsFolder);
+    const current = currentFile
+      ? path.resolve(resultsFolder, currentFile)
+      : files[0];
+    if (!current) {
+      vscode.window.showWarningMessage("No test results found");
+      return;
+    }
+
+    let baseline = baselineFile
+      ? path.resolve(resultsFolder, baselineFile)
+      : undefined;
+    if (!baseline) {
+      const items: (vscode.QuickPickItem & { file: string })[] = [];
+      for (const file of files.filter((f) => f !== current)) {
+        try {
+          const results = readResultsFile(file, parseOptions);
+          items.push({
+            label: new Date(results.timestamp).toLocaleString(),
+            description: `${results.environment.name} • ${results.tests.summary.passed}/${results.tests.summary.total} passed`,
+            detail: path.basename(file),
+            file,
+          });
+        } catch {
+          // Skip unreadable result files
+        }
+      }
+
+      if (items.length === 0) {
+        vscode.window.showWarningMessage(
+          "At least two test runs are needed to compare"
+        );
+        return;
+      }
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Select the baseline run to compare ${path.basename(
+          current
+        )} with`,
+      });
+      if (!selected) {
+        return;
+      }
+      baseline = selected.file;
+    }
+
+    const comparison = compareRuns(
+      readResultsFile(baseline, parseOptions),
+      readResultsFile(current, parseOptions)
+    );
+
+    const panel = vscode.window.createWebviewPanel(
+      "bcTestCompare",
+      "BC Test Run Comparison",
+      vscode.ViewColumn.One,
+      {}
+    );
+    panel.webview.html =
+      reportGenerator.generateComparisonWebviewHtml(comparison);
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error comparing runs: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Open HTML report
+ */
+async function openReport(): Promise<void> {
+  const configPath = await configManager.findConfigFile();
+  if (!configPath) {
+    return;
+  }
+
+  try {
+    const config = await configManager.loadConfig(configPath);
+    const resultsFolder = configManager.getResultsFolder(config);
+
+    // Find latest HTML report
+    const files = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(resultsFolder, "TestReport_*.html"),
+      null,
+      1
+    );
+
+    if (files.length > 0) {
+      vscode.env.openExternal(files[0]);
+    } else {
+      vscode.window.showWarningMessage("No HTML report found");
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error opening report: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Select environment
+ */
+async function selectEnvironment(): Promise<void> {
+  const configPath = await configManager.findConfigFile();
+  if (!configPath) {
+    return;
+  }
+
+  try {
+    const config = await configManager.loadConfig(configPath);
+    const selected = await configManager.selectEnvironment(config);
+
+    if (selected) {
+      vscode.window.showInformationMessage(`Selected environment: ${selected}`);
+      environmentsProvider.refresh();
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error selecting environment: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Set credentials
+ */
+async function setCredentials(): Promise<void> {
+  const configPath = await configManager.findConfigFile();
+  if (!configPath) {
+    return;
+  }
+
+  try {
+    const config = await configManager.loadConfig(configPath);
+    const envNames = configManager.getEnvironmentNames(config);
+
+    await credentialManager.showCredentialManager(envNames);
+    environmentsProvider.refresh();
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error managing credentials: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Clear credentials
+ */
+async function clearCredentials(): Promise<void> {
+  const configPath = await configManager.findConfigFile();
+  if (!configPath) {
+    return;
+  }
+
+  try {
+    const config = await configManager.loadConfig(configPath);
+    const envNames = configManager.getEnvironmentNames(config);
+
+    const confirm = await vscode.window.showWarningMessage(
+      "Are you sure you want to clear all stored credentials?",
+      { modal: true },
+      "Clear All"
+    );
+
+    if (confirm === "Clear All") {
+      await credentialManager.deleteAllCredentials(envNames);
+      vscode.window.showInformationMessage("All credentials cleared");
+      environmentsProvider.refresh();
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error clearing credentials: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Create configuration file
+ */
+async function createConfig(): Promise<void> {
+  const workspaceFolders = vscode.workspace.workspaceFolders;
   if (!workspaceFolders) {
     vscode.window.showErrorMessage("No workspace folder open");
     return;
@@ -551,6 +1469,16 @@ async function createConfig(): Promise<void> {
   await configManager.createDefaultConfig(targetFolder);
 }
 
+/**
+ * Number of discovered test codeunits a filter will run, if any are known
+ */
+function countExpectedCodeunits(filter: string): number | undefined {
+  const count = testDiscovery
+    .getCodeunits()
+    .filter((codeunit) => isInCodeunitFilter(codeunit.id, filter)).length;
+  return count > 0 ? count : undefined;
+}
+
 /**
  * Update status bar item
  */
@@ -558,6 +1486,112 @@ function updateStatusBar(text: string): void {
   statusBarItem.text = text;
 }
 
+/**
+ * Push a completed result set to the status bar, tree view and diagnostics
+ */
+function publishResults(results: AITestResults): void {
+  updateStatusBarForResults(results);
+  testResultsProvider.refresh();
+  failureDiagnostics.update(results);
+  // Runs that skipped compilation keep the diagnostics of the last compile
+  if (results.compilation) {
+    compilationDiagnostics.update(results.compilation);
+  }
+}
+
+/**
+ * Post-process a completed run the same way wherever it was started:
+ * record it in the history, write the reports of the configured output
+ * formats and refresh the results view, diagnostics and status bar.
+ * Returns the results updated from the history.
+ */
+async function completeRun(
+  results: AITestResults,
+  config: BCTestConfig
+): Promise<AITestResults> {
+  const recorded = await recordHistory(results);
+
+  try {
+    if (recorded.FilePath) {
+      const reports = await reportGenerator.writeReports(
+        recorded,
+        configManager.getResultsFolder(config),
+        config.output.formats
+      );
+
+      const htmlPath = reports.get("html");
+      if (
+        htmlPath &&
+        vscode.workspace.getConfiguration("bcTestRunner").get("autoOpenReport")
+      ) {
+        vscode.env.openExternal(vscode.Uri.file(htmlPath));
+      }
+    }
+  } catch (error) {
+    outputChannel.appendLine(
+      `Failed to write test reports: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  publishResults(recorded);
+  return recorded;
+}
+
+/**
+ * Add a completed run to the test history of the results folder and
+ * return the results updated from the history (flaky tests)
+ */
+async function recordHistory(results: AITestResults): Promise<AITestResults> {
+  try {
+    const configPath = await configManager.findConfigFile();
+    if (!configPath) {
+      return results;
+    }
+
+    const config = await configManager.loadConfig(configPath);
+    return await recordRun(results, {
+      resultsFolder: configManager.getResultsFolder(config),
+      keepHistoryCount: config.output.keepHistoryCount,
+      workspacePath: config.workspacePath,
+      performance: config.performance,
+    });
+  } catch (error) {
+    outputChannel.appendLine(
+      `Failed to record test history: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return results;
+  }
+}
+
+/**
+ * Update status bar item from a result set
+ */
+function updateStatusBarForResults(results: AITestResults): void {
+  if (results.compilation && !results.compilation.success) {
+    updateStatusBar(
+      `$(testing-error-icon) ${results.compilation.errors.length} compile error(s)`
+    );
+    return;
+  }
+
+  const summary = results.tests?.summary;
+  if (!summary) {
+    return;
+  }
+
+  if (summary.failed === 0) {
+    updateStatusBar(
+      `$(testing-passed-icon) ${summary.passed}/${summary.total} passed`
+    );
+  } else {
+    updateStatusBar(`$(testing-failed-icon) ${summary.failed} failed`);
+  }
+}
+
 /**
  * Extension deactivation
  */
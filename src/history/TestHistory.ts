@@ -0,0 +1,337 @@
+/**
+ * BC Test Runner - Test History
+ *
+ * Indexes every test run into a JSON-lines file in the results folder, one
+ * run per line, keyed by timestamp, environment, git commit and branch.
+ * Trend queries read the index instead of the individual result files.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { AITestResults, TestSummary } from "../powershell/PowerShellRunner";
+import { parseDuration } from "../results/duration";
+import { getGitInfo } from "./gitInfo";
+
+export const HISTORY_FILE_NAME = "history.jsonl";
+
+// Result and report files pruned together with their runs
+const RESULT_FILE_PATTERNS = [
+  /^TestResults_.*_AI\.json$/,
+  /^TestResults_.*\.xml$/i,
+  /^TestReport_.*\.html$/i,
+  /^TestReport_.*\.junit\.xml$/i,
+  /^TestReport_.*\.md$/i,
+  /^TestReport_.*\.sarif$/i,
+];
+
+/**
+ * Outcome of a single test in a history entry
+ */
+export interface HistoryTest {
+  codeunitId: number;
+  codeunit: string;
+  method: string;
+  result: "Pass" | "Fail" | "Skip";
+  /** Duration in seconds */
+  duration: number;
+}
+
+/**
+ * A test run in the history index
+ */
+export interface HistoryEntry {
+  timestamp: string;
+  environment: string;
+  commit?: string;
+  branch?: string;
+  /** Result file of the run, relative to the results folder */
+  resultFile?: string;
+  success: boolean;
+  summary: TestSummary;
+  /** Run duration in seconds */
+  duration: number;
+  tests: HistoryTest[];
+}
+
+/**
+ * Filter for history queries
+ */
+export interface HistoryQuery {
+  environment?: string;
+  branch?: string;
+  /** Only the most recent N runs */
+  limit?: number;
+}
+
+/**
+ * Pass rate of a run
+ */
+export interface PassRatePoint {
+  timestamp: string;
+  environment: string;
+  commit?: string;
+  branch?: string;
+  resultFile?: string;
+  total: number;
+  passed: number;
+  failed: number;
+  /** Passed share of the executed (non-skipped) tests, 0-100 */
+  passRate: number;
+}
+
+/**
+ * Outcome of a test in a run
+ */
+export interface TestOutcomePoint {
+  timestamp: string;
+  environment: string;
+  commit?: string;
+  result: HistoryTest["result"];
+  /** Duration in seconds */
+  duration: number;
+}
+
+/**
+ * History of test runs stored in a results folder
+ */
+export class TestHistory {
+  private readonly _filePath: string;
+
+  /**
+   * @param resultsFolder Folder holding the result files and the index
+   * @param keepHistoryCount Number of runs kept when recording
+   */
+  constructor(
+    private readonly _resultsFolder: string,
+    private readonly _keepHistoryCount: number = 10
+  ) {
+    this._filePath = path.join(_resultsFolder, HISTORY_FILE_NAME);
+  }
+
+  /**
+   * Path of the index file
+   */
+  get filePath(): string {
+    return this._filePath;
+  }
+
+  /**
+   * Add a run to the history and prune old runs. A run whose result file is
+   * already indexed (a merged re-run) replaces the previous entry. Runs
+   * that stopped at compilation executed no tests and are not recorded.
+   */
+  async record(
+    results: AITestResults,
+    workspacePath?: string
+  ): Promise<HistoryEntry | undefined> {
+    if (results.compilation && !results.compilation.success) {
+      return undefined;
+    }
+
+    const git = workspacePath ? await getGitInfo(workspacePath) : {};
+    const entry = this._createEntry(results, git.commit, git.branch);
+
+    const entries = this.getEntries().filter(
+      (e) => !entry.resultFile || e.resultFile !== entry.resultFile
+    );
+    entries.push(entry);
+    entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    this._write(entries);
+    this.prune();
+
+    return entry;
+  }
+
+  /**
+   * All runs matching a query, oldest first
+   */
+  getEntries(query: HistoryQuery = {}): HistoryEntry[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(this._filePath, "utf-8");
+    } catch {
+      return [];
+    }
+
+    const entries: HistoryEntry[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as HistoryEntry);
+      } catch {
+        // Skip a line truncated by an interrupted write
+      }
+    }
+
+    const matching = entries.filter(
+      (e) =>
+        (!query.environment || e.environment === query.environment) &&
+        (!query.branch || e.branch === query.branch)
+    );
+    return query.limit ? matching.slice(-query.limit) : matching;
+  }
+
+  /**
+   * Pass rate per run, oldest first
+   */
+  getPassRateTrend(query: HistoryQuery = {}): PassRatePoint[] {
+    return this.getEntries(query).map((entry) => {
+      const executed = entry.summary.passed + entry.summary.failed;
+      return {
+        timestamp: entry.timestamp,
+        environment: entry.environment,
+        commit: entry.commit,
+        branch: entry.branch,
+        resultFile: entry.resultFile,
+        total: entry.summary.total,
+        passed: entry.summary.passed,
+        failed: entry.summary.failed,
+        passRate:
+          executed > 0
+            ? Math.round((entry.summary.passed / executed) * 1000) / 10
+            : 0,
+      };
+    });
+  }
+
+  /**
+   * Duration of a test in every run that executed it, oldest first
+   */
+  getTestDurations(
+    codeunitId: number,
+    method: string,
+    query: HistoryQuery = {}
+  ): TestOutcomePoint[] {
+    return this.getTestOutcomes(codeunitId, method, query).filter(
+      (point) => point.result !== "Skip"
+    );
+  }
+
+  /**
+   * Outcomes of a test in the last N runs that included it, oldest first
+   */
+  getLastOutcomes(
+    codeunitId: number,
+    method: string,
+    count: number,
+    query: HistoryQuery = {}
+  ): TestOutcomePoint[] {
+    return this.getTestOutcomes(codeunitId, method, {
+      ...query,
+      limit: undefined,
+    }).slice(-count);
+  }
+
+  /**
+   * Outcomes of a test in every run that included it, oldest first
+   */
+  getTestOutcomes(
+    codeunitId: number,
+    method: string,
+    query: HistoryQuery = {}
+  ): TestOutcomePoint[] {
+    const points: TestOutcomePoint[] = [];
+    for (const entry of this.getEntries(query)) {
+      const test = entry.tests.find(
+        (t) =>
+          t.codeunitId === codeunitId &&
+          t.method.toLowerCase() === method.toLowerCase()
+      );
+      if (test) {
+        points.push({
+          timestamp: entry.timestamp,
+          environment: entry.environment,
+          commit: entry.commit,
+          result: test.result,
+          duration: test.duration,
+        });
+      }
+    }
+    return points;
+  }
+
+  /**
+   * Keep the most recent runs in the index and the most recent result and
+   * report files in the results folder
+   */
+  prune(keepHistoryCount: number = this._keepHistoryCount): void {
+    const keep = Math.max(keepHistoryCount, 1);
+
+    const entries = this.getEntries();
+    if (entries.length > keep) {
+      this._write(entries.slice(-keep));
+    }
+
+    let names: string[];
+    try {
+      names = fs.readdirSync(this._resultsFolder);
+    } catch {
+      return;
+    }
+
+    for (const pattern of RESULT_FILE_PATTERNS) {
+      const files = names
+        .filter((name) => pattern.test(name))
+        .map((name) => {
+          const file = path.join(this._resultsFolder, name);
+          try {
+            return { file, mtime: fs.statSync(file).mtimeMs };
+          } catch {
+            return undefined;
+          }
+        })
+        .filter((f): f is { file: string; mtime: number } => !!f)
+        .sort((a, b) => b.mtime - a.mtime);
+
+      for (const { file } of files.slice(keep)) {
+        try {
+          fs.unlinkSync(file);
+        } catch {
+          // Ignore cleanup errors
+        }
+      }
+    }
+  }
+
+  private _createEntry(
+    results: AITestResults,
+    commit?: string,
+    branch?: string
+  ): HistoryEntry {
+    return {
+      timestamp: results.timestamp,
+      environment: results.environment.name,
+      commit,
+      branch,
+      resultFile: results.FilePath
+        ? path.relative(this._resultsFolder, results.FilePath)
+        : undefined,
+      success: results.tests.success,
+      summary: { ...results.tests.summary },
+      duration: parseDuration(results.tests.duration),
+      tests: results.tests.allTests.map((test) => ({
+        codeunitId: test.codeunitId,
+        codeunit: test.codeunit,
+        method: test.method,
+        result: test.result,
+        duration: parseDuration(test.duration),
+      })),
+    };
+  }
+
+  private _write(entries: HistoryEntry[]): void {
+    fs.mkdirSync(this._resultsFolder, { recursive: true });
+
+    // Write a temporary file first so readers never see a partial index
+    const tempPath = `${this._filePath}.tmp`;
+    fs.writeFileSync(
+      tempPath,
+      entries.map((e) => JSON.stringify(e)).join("\n") + "\n",
+      "utf-8"
+    );
+    fs.renameSync(tempPath, this._filePath);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * BC Test Runner - Flaky Test Detection
+ *
+ * Scores tests by how often their outcome flips between pass and fail in
+ * consecutive runs. A regression flips once and then keeps failing; a test
+ * that fails intermittently (container locking, timing) flips repeatedly.
+ */
+
+import { AITestResults, FlakyTest } from "../powershell/PowerShellRunner";
+import { testKey } from "../results/resultsMerger";
+import { HistoryEntry } from "./TestHistory";
+
+/**
+ * Thresholds for flaky test detection
+ */
+export interface FlakinessOptions {
+  /** Runs that must have executed the test before it can be flaky */
+  minRuns?: number;
+  /** Minimum pass/fail flips */
+  minFlips?: number;
+  /** Minimum flips per run transition (0-1) */
+  minFlipRate?: number;
+  /** Outcomes listed in recentOutcomes */
+  recentCount?: number;
+}
+
+const DEFAULT_OPTIONS: Required<FlakinessOptions> = {
+  minRuns: 4,
+  minFlips: 2,
+  minFlipRate: 0.2,
+  recentCount: 10,
+};
+
+const FLAKY_HINT =
+  "Tests in flakyTests flip between pass and fail across runs - treat their failures as likely noise before changing code";
+
+/**
+ * Find flaky tests in a run history (oldest run first), most flaky first
+ */
+export function findFlakyTests(
+  entries: HistoryEntry[],
+  options: FlakinessOptions = {}
+): FlakyTest[] {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+
+  const outcomes = new Map<
+    string,
+    {
+      codeunit: string;
+      codeunitId: number;
+      method: string;
+      results: ("Pass" | "Fail")[];
+    }
+  >();
+  for (const entry of entries) {
+    for (const test of entry.tests) {
+      // Skipped tests say nothing about stability
+      if (test.result === "Skip") {
+        continue;
+      }
+
+      const key = testKey(test);
+      const record = outcomes.get(key) ?? {
+        codeunit: test.codeunit,
+        codeunitId: test.codeunitId,
+        method: test.method,
+        results: [],
+      };
+      record.results.push(test.result);
+      outcomes.set(key, record);
+    }
+  }
+
+  const flaky: FlakyTest[] = [];
+  for (const record of outcomes.values()) {
+    const runs = record.results.length;
+    if (runs < settings.minRuns) {
+      continue;
+    }
+
+    let flips = 0;
+    for (let i = 1; i < runs; i++) {
+      if (record.results[i] !== record.results[i - 1]) {
+        flips++;
+      }
+    }
+    const flipRate = flips / (runs - 1);
+
+    if (flips >= settings.minFlips && flipRate >= settings.minFlipRate) {
+      flaky.push({
+        codeunit: record.codeunit,
+        codeunitId: record.codeunitId,
+        method: record.method,
+        runs,
+        failures: record.results.filter((r) => r === "Fail").length,
+        flips,
+        flipRate: Math.round(flipRate * 100) / 100,
+        recentOutcomes: record.results.slice(-settings.recentCount),
+      });
+    }
+  }
+
+  return flaky.sort((a, b) => b.flipRate - a.flipRate || b.flips - a.flips);
+}
+
+/**
+ * Add the flaky tests that are part of a result set to its AI context
+ */
+export function applyFlakyTests(
+  results: AITestResults,
+  flakyTests: FlakyTest[]
+): AITestResults {
+  const executed = new Set(results.tests.allTests.map(testKey));
+  const relevant = flakyTests.filter((test) => executed.has(testKey(test)));
+
+  const analysisHints = results.aiContext.analysisHints.filter(
+    (hint) => hint !== FLAKY_HINT
+  );
+  if (relevant.length > 0) {
+    analysisHints.push(FLAKY_HINT);
+  }
+
+  return {
+    ...results,
+    aiContext: {
+      ...results.aiContext,
+      analysisHints,
+      flakyTests: relevant,
+    },
+  };
+}
+
+/**
+ * Look up the flaky test entry of a test in a result set
+ */
+export function getFlakyTest(
+  results: AITestResults | null | undefined,
+  test: { codeunitId: number; method: string }
+): FlakyTest | undefined {
+  const key = testKey(test);
+  return results?.aiContext.flakyTests?.find((f) => testKey(f) === key);
+}
@@ -0,0 +1,64 @@
+/**
+ * BC Test Runner - Git Info
+ *
+ * Reads the current commit and branch of the workspace, so test runs can be
+ * related to the code they ran against.
+ */
+
+import { execFile } from "child_process";
+
+/**
+ * Git state of a workspace
+ */
+export interface GitInfo {
+  commit?: string;
+  branch?: string;
+}
+
+const GIT_TIMEOUT = 5000;
+
+/**
+ * Run a git command in a folder and return its trimmed output
+ */
+export function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      { cwd, timeout: GIT_TIMEOUT, maxBuffer: 16 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr.trim() || error.message));
+          return;
+        }
+        resolve(stdout.trim());
+      }
+    );
+  });
+}
+
+/**
+ * Get the commit and branch of a folder. Missing values are left out when
+ * the folder is not a git repository or git is not installed.
+ */
+export async function getGitInfo(cwd: string): Promise<GitInfo> {
+  const info: GitInfo = {};
+
+  try {
+    info.commit = await runGit(cwd, ["rev-parse", "HEAD"]);
+  } catch {
+    return info;
+  }
+
+  try {
+    const branch = await runGit(cwd, ["rev-parse", "--abbrev-ref", "HEAD"]);
+    // A detached HEAD has no branch name
+    if (branch && branch !== "HEAD") {
+      info.branch = branch;
+    }
+  } catch {
+    // Keep the commit without a branch
+  }
+
+  return info;
+}
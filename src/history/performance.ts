@@ -0,0 +1,265 @@
+/**
+ * BC Test Runner - Performance Profiling
+ *
+ * Ranks the slowest tests and codeunits of a run, compares their durations
+ * with the median of the previous runs to find regressions, and checks them
+ * against the time budgets of bctest.config.json.
+ */
+
+import { PerformanceConfig } from "../config/schemas";
+import {
+  AITestResults,
+  DurationProfile,
+  PerformanceProfile,
+} from "../powershell/PowerShellRunner";
+import { parseDuration } from "../results/duration";
+import { testKey } from "../results/resultsMerger";
+import { HistoryEntry } from "./TestHistory";
+
+// Previous runs needed before a median is trusted
+const MIN_HISTORY_RUNS = 3;
+
+// Tests and codeunits listed as slowest
+const SLOWEST_COUNT = 10;
+
+// Breaches listed individually in the analysis hints
+const MAX_BREACH_HINTS = 10;
+
+const HINT_PREFIX = "Performance: ";
+
+/**
+ * Profile the durations of a run
+ *
+ * @param previous Earlier runs of the same environment, oldest first
+ */
+export function profilePerformance(
+  results: AITestResults,
+  previous: HistoryEntry[],
+  config?: PerformanceConfig
+): PerformanceProfile {
+  const threshold = config?.regressionThreshold ?? 1.5;
+  const minSeconds = config?.minRegressionSeconds ?? 1;
+
+  // Skipped tests report no meaningful duration
+  const executed = results.tests.allTests.filter((t) => t.result !== "Skip");
+
+  const tests = executed.map(
+    (test): DurationProfile => ({
+      codeunit: test.codeunit,
+      codeunitId: test.codeunitId,
+      method: test.method,
+      duration: parseDuration(test.duration),
+    })
+  );
+
+  const codeunits = new Map<number, DurationProfile>();
+  for (const test of tests) {
+    const codeunit = codeunits.get(test.codeunitId) ?? {
+      codeunit: test.codeunit,
+      codeunitId: test.codeunitId,
+      duration: 0,
+    };
+    codeunit.duration += test.duration;
+    codeunits.set(test.codeunitId, codeunit);
+  }
+  for (const codeunit of codeunits.values()) {
+    codeunit.duration = round(codeunit.duration);
+  }
+
+  // Only passing runs give comparable durations: a failing test stops early
+  const testHistory = new Map<string, number[]>();
+  const codeunitHistory = new Map<number, number[]>();
+  for (const entry of previous) {
+    const perRun = new Map<number, number>();
+    const failed = new Set<number>();
+    for (const test of entry.tests) {
+      if (test.result !== "Pass") {
+        if (test.result === "Fail") {
+          failed.add(test.codeunitId);
+        }
+        continue;
+      }
+      const key = testKey(test);
+      testHistory.set(key, [...(testHistory.get(key) ?? []), test.duration]);
+      perRun.set(
+        test.codeunitId,
+        (perRun.get(test.codeunitId) ?? 0) + test.duration
+      );
+    }
+    for (const [codeunitId, duration] of perRun) {
+      if (failed.has(codeunitId)) {
+        continue;
+      }
+      codeunitHistory.set(codeunitId, [
+        ...(codeunitHistory.get(codeunitId) ?? []),
+        duration,
+      ]);
+    }
+  }
+
+  const passed = new Set(
+    executed.filter((t) => t.result === "Pass").map(testKey)
+  );
+  const failedCodeunits = new Set(
+    executed.filter((t) => t.result === "Fail").map((t) => t.codeunitId)
+  );
+
+  const regressions: DurationProfile[] = [];
+  const isRegression = (profile: DurationProfile, durations?: number[]) => {
+    if (!durations || durations.length < MIN_HISTORY_RUNS) {
+      return false;
+    }
+    profile.medianDuration = round(median(durations));
+    return (
+      profile.duration >= profile.medianDuration * threshold &&
+      profile.duration - profile.medianDuration >= minSeconds
+    );
+  };
+
+  for (const test of tests) {
+    const key = testKey({ codeunitId: test.codeunitId, method: test.method! });
+    if (passed.has(key) && isRegression(test, testHistory.get(key))) {
+      regressions.push(test);
+    }
+  }
+  for (const codeunit of codeunits.values()) {
+    if (
+      !failedCodeunits.has(codeunit.codeunitId) &&
+      isRegression(codeunit, codeunitHistory.get(codeunit.codeunitId))
+    ) {
+      regressions.push(codeunit);
+    }
+  }
+
+  const budgetBreaches: DurationProfile[] = [];
+  for (const profile of [...tests, ...codeunits.values()]) {
+    profile.budget = getBudget(profile, config);
+    if (profile.budget !== undefined && profile.duration > profile.budget) {
+      budgetBreaches.push(profile);
+    }
+  }
+
+  const byDuration = (a: DurationProfile, b: DurationProfile) =>
+    b.duration - a.duration;
+
+  return {
+    slowestTests: [...tests].sort(byDuration).slice(0, SLOWEST_COUNT),
+    slowestCodeunits: [...codeunits.values()]
+      .sort(byDuration)
+      .slice(0, SLOWEST_COUNT),
+    regressions: regressions.sort(
+      (a, b) =>
+        b.duration / (b.medianDuration || 1) -
+        a.duration / (a.medianDuration || 1)
+    ),
+    budgetBreaches: budgetBreaches.sort(
+      (a, b) => b.duration - b.budget! - (a.duration - a.budget!)
+    ),
+  };
+}
+
+/**
+ * Add a performance profile to the AI context of a result set, with a hint
+ * for each budget breach and one for the regressions
+ */
+export function applyPerformanceProfile(
+  results: AITestResults,
+  profile: PerformanceProfile
+): AITestResults {
+  const analysisHints = results.aiContext.analysisHints.filter(
+    (hint) => !hint.startsWith(HINT_PREFIX)
+  );
+
+  for (const breach of profile.budgetBreaches.slice(0, MAX_BREACH_HINTS)) {
+    analysisHints.push(
+      `${HINT_PREFIX}${formatName(breach)} took ${breach.duration}s, over its ${
+        breach.budget
+      }s budget`
+    );
+  }
+  const more = profile.budgetBreaches.length - MAX_BREACH_HINTS;
+  if (more > 0) {
+    analysisHints.push(
+      `${HINT_PREFIX}${more} more test(s) or codeunit(s) exceeded their time budget - see aiContext.performance.budgetBreaches`
+    );
+  }
+  if (profile.regressions.length > 0) {
+    analysisHints.push(
+      `${HINT_PREFIX}${profile.regressions.length} test(s) or codeunit(s) ran much slower than their median in previous runs - see aiContext.performance.regressions`
+    );
+  }
+
+  return {
+    ...results,
+    aiContext: {
+      ...results.aiContext,
+      analysisHints,
+      performance: profile,
+    },
+  };
+}
+
+/**
+ * Look up the budget breach of a test in a result set
+ */
+export function getBudgetBreach(
+  results: AITestResults | null | undefined,
+  test: { codeunitId: number; method: string }
+): DurationProfile | undefined {
+  const key = testKey(test);
+  return results?.aiContext.performance?.budgetBreaches.find(
+    (b) => b.method !== undefined && testKey({ ...b, method: b.method }) === key
+  );
+}
+
+/**
+ * Look up the budget breach of a codeunit in a result set
+ */
+export function getCodeunitBudgetBreach(
+  results: AITestResults | null | undefined,
+  codeunitId: number
+): DurationProfile | undefined {
+  return results?.aiContext.performance?.budgetBreaches.find(
+    (b) => b.method === undefined && b.codeunitId === codeunitId
+  );
+}
+
+/**
+ * Budget of a test or codeunit: its own budget entry, else the default
+ */
+function getBudget(
+  profile: DurationProfile,
+  config?: PerformanceConfig
+): number | undefined {
+  const own = config?.budgets?.find(
+    (b) =>
+      b.codeunitId === profile.codeunitId &&
+      (profile.method === undefined
+        ? b.method === undefined
+        : b.method?.toLowerCase() === profile.method.toLowerCase())
+  );
+  if (own) {
+    return own.maxDuration;
+  }
+  return profile.method === undefined
+    ? config?.codeunitBudget
+    : config?.testBudget;
+}
+
+function formatName(profile: DurationProfile): string {
+  return profile.method === undefined
+    ? `Codeunit ${profile.codeunit} (${profile.codeunitId})`
+    : `${profile.codeunit}.${profile.method}`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
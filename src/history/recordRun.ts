@@ -0,0 +1,58 @@
+/**
+ * BC Test Runner - Record Run
+ *
+ * Adds a completed run to the history and updates its result file with
+ * what the history tells about it.
+ */
+
+import { PerformanceConfig } from "../config/schemas";
+import { AITestResults } from "../powershell/PowerShellRunner";
+import { writeAIResultsFile } from "../results/resultsWriter";
+import { applyFlakyTests, findFlakyTests } from "./flakiness";
+import { applyPerformanceProfile, profilePerformance } from "./performance";
+import { TestHistory } from "./TestHistory";
+
+/**
+ * Where and how a run is recorded
+ */
+export interface RecordRunOptions {
+  resultsFolder: string;
+  keepHistoryCount: number;
+  /** Workspace whose git commit and branch are recorded */
+  workspacePath?: string;
+  /** Time budgets and regression threshold */
+  performance?: PerformanceConfig;
+}
+
+/**
+ * Record a run in the history, add its flaky tests and performance profile
+ * to the AI context and save the result file. Returns the updated results.
+ */
+export async function recordRun(
+  results: AITestResults,
+  options: RecordRunOptions
+): Promise<AITestResults> {
+  const history = new TestHistory(
+    options.resultsFolder,
+    options.keepHistoryCount
+  );
+  const entry = await history.record(results, options.workspacePath);
+  if (!entry) {
+    return results;
+  }
+
+  // Locking and timing issues depend on the environment, so only its own
+  // runs are compared
+  const entries = history.getEntries({ environment: entry.environment });
+  const flakyTests = findFlakyTests(entries);
+  const previous = entries.filter(
+    (e) => e.timestamp !== entry.timestamp || e.resultFile !== entry.resultFile
+  );
+
+  const updated = applyPerformanceProfile(
+    applyFlakyTests(results, flakyTests),
+    profilePerformance(results, previous, options.performance)
+  );
+  writeAIResultsFile(updated);
+  return updated;
+}
@@ -0,0 +1,142 @@
+/**
+ * BC Test Runner - Run Trends
+ *
+ * Summarizes the run history for the trend dashboard: pass rate, duration
+ * and test count per run, and the tests that took longest over those runs.
+ */
+
+import { testKey } from "../results/resultsMerger";
+import { HistoryEntry } from "./TestHistory";
+
+/**
+ * Settings of a trend summary
+ */
+export interface TrendOptions {
+  /** Most recent runs included */
+  runCount?: number;
+  /** Slowest tests listed */
+  slowestCount?: number;
+}
+
+const DEFAULT_OPTIONS: Required<TrendOptions> = {
+  runCount: 30,
+  slowestCount: 10,
+};
+
+/**
+ * A run on the trend charts
+ */
+export interface TrendRun {
+  timestamp: string;
+  environment: string;
+  commit?: string;
+  branch?: string;
+  /** Result file of the run, relative to the results folder */
+  resultFile?: string;
+  success: boolean;
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  /** Passed share of the executed (non-skipped) tests, 0-100 */
+  passRate: number;
+  /** Run duration in seconds */
+  duration: number;
+}
+
+/**
+ * A test among the slowest over the runs
+ */
+export interface SlowTest {
+  codeunit: string;
+  codeunitId: number;
+  method: string;
+  /** Average duration in seconds over the runs that executed the test */
+  averageDuration: number;
+  /** Duration in seconds in the latest run that executed the test */
+  latestDuration: number;
+  /** Duration per trend run, undefined where the test did not run */
+  durations: (number | undefined)[];
+}
+
+/**
+ * Trend data of the dashboard
+ */
+export interface RunTrends {
+  /** Runs, oldest first */
+  runs: TrendRun[];
+  /** Slowest tests, slowest first */
+  slowestTests: SlowTest[];
+}
+
+/**
+ * Summarize the most recent runs of a history (oldest run first)
+ */
+export function buildRunTrends(
+  entries: HistoryEntry[],
+  options: TrendOptions = {}
+): RunTrends {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const recent = entries.slice(-settings.runCount);
+
+  const runs = recent.map((entry): TrendRun => {
+    const executed = entry.summary.passed + entry.summary.failed;
+    return {
+      timestamp: entry.timestamp,
+      environment: entry.environment,
+      commit: entry.commit,
+      branch: entry.branch,
+      resultFile: entry.resultFile,
+      success: entry.success,
+      total: entry.summary.total,
+      passed: entry.summary.passed,
+      failed: entry.summary.failed,
+      skipped: entry.summary.skipped,
+      passRate:
+        executed > 0
+          ? Math.round((entry.summary.passed / executed) * 1000) / 10
+          : 0,
+      duration: entry.duration,
+    };
+  });
+
+  const tests = new Map<string, SlowTest>();
+  recent.forEach((entry, index) => {
+    for (const test of entry.tests) {
+      // Skipped tests report no meaningful duration
+      if (test.result === "Skip") {
+        continue;
+      }
+
+      const key = testKey(test);
+      let slow = tests.get(key);
+      if (!slow) {
+        slow = {
+          codeunit: test.codeunit,
+          codeunitId: test.codeunitId,
+          method: test.method,
+          averageDuration: 0,
+          latestDuration: 0,
+          durations: new Array(recent.length).fill(undefined),
+        };
+        tests.set(key, slow);
+      }
+      slow.durations[index] = test.duration;
+      slow.latestDuration = test.duration;
+    }
+  });
+
+  for (const slow of tests.values()) {
+    const measured = slow.durations.filter((d): d is number => d !== undefined);
+    slow.averageDuration =
+      Math.round(
+        (measured.reduce((sum, d) => sum + d, 0) / measured.length) * 1000
+      ) / 1000;
+  }
+
+  const slowestTests = [...tests.values()]
+    .sort((a, b) => b.averageDuration - a.averageDuration)
+    .slice(0, settings.slowestCount);
+
+  return { runs, slowestTests };
+}
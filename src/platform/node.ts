@@ -0,0 +1,69 @@
+/**
+ * BC Test Runner - Node Platform
+ *
+ * Platform implementations for running the pipeline outside VS Code.
+ */
+
+import {
+  CancellationSignal,
+  Disposable,
+  OutputSink,
+  SettingsSource,
+} from "./types";
+
+/**
+ * Output sink writing to a Node stream, or discarding the output
+ */
+export class StreamOutput implements OutputSink {
+  constructor(private readonly _stream?: NodeJS.WritableStream) {}
+
+  append(value: string): void {
+    this._stream?.write(value);
+  }
+
+  appendLine(value: string): void {
+    this._stream?.write(`${value}\n`);
+  }
+}
+
+/**
+ * Cancellation signal that is raised by calling cancel()
+ */
+export class CancellationSource implements CancellationSignal {
+  private _cancelled = false;
+  private readonly _listeners = new Set<() => void>();
+
+  get isCancellationRequested(): boolean {
+    return this._cancelled;
+  }
+
+  onCancellationRequested(listener: () => void): Disposable {
+    this._listeners.add(listener);
+    return { dispose: () => this._listeners.delete(listener) };
+  }
+
+  /**
+   * Request cancellation and notify the listeners once
+   */
+  cancel(): void {
+    if (this._cancelled) {
+      return;
+    }
+    this._cancelled = true;
+    for (const listener of [...this._listeners]) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Settings from a fixed set of values, falling back to the defaults
+ */
+export class StaticSettings implements SettingsSource {
+  constructor(private readonly _values: Record<string, unknown> = {}) {}
+
+  get<T>(key: string, defaultValue: T): T {
+    const value = this._values[key];
+    return value === undefined ? defaultValue : (value as T);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * BC Test Runner - Platform Abstractions
+ *
+ * The parts of the editor the test pipeline depends on: output logging,
+ * cancellation and settings. VS Code provides them in the extension and
+ * the CLI provides Node implementations, so the pipeline runs in both.
+ */
+
+/**
+ * Releases a resource or a listener
+ */
+export interface Disposable {
+  dispose(): void;
+}
+
+/**
+ * Sink for the log output of the pipeline (an output channel in VS Code)
+ */
+export interface OutputSink {
+  append(value: string): void;
+  appendLine(value: string): void;
+}
+
+/**
+ * Signals that an operation should be cancelled
+ */
+export interface CancellationSignal {
+  readonly isCancellationRequested: boolean;
+  onCancellationRequested(listener: () => void): Disposable;
+}
+
+/**
+ * Read access to the bcTestRunner settings
+ */
+export interface SettingsSource {
+  get<T>(key: string, defaultValue: T): T;
+}
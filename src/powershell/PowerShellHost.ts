@@ -0,0 +1,513 @@
+/**
+ * BC Test Runner - Persistent PowerShell Host
+ *
+ * Keeps one pwsh process with BCTestRunner loaded and talks to it over
+ * line-delimited JSON-RPC (see resources/powershell/BCTestRunnerHost.ps1).
+ * Requests are queued and sent one at a time; the process is restarted on
+ * the next request after a crash and recycled after a period of inactivity.
+ */
+
+import { spawn, ChildProcess } from "child_process";
+import { Disposable, OutputSink, SettingsSource } from "../platform/types";
+import type { PowerShellResult, ExecutionOptions } from "./PowerShellRunner";
+import { parseProgressLine } from "./progressEvents";
+
+/**
+ * JSON-RPC error codes used by the host script
+ */
+const RPC_CANCELLED = -32800;
+
+/** Time the module import may take before the host is considered hung */
+const STARTUP_TIMEOUT = 120000;
+/** Time a cancelled request gets to stop before the process is killed */
+const CANCEL_GRACE_PERIOD = 5000;
+/** Reason of requests stopped by their timeout, which are not cancelled */
+const TIMEOUT_REASON = "Operation timed out";
+
+interface RpcError {
+  code: number;
+  message: string;
+  data?: {
+    type?: string;
+    scriptStackTrace?: string;
+    targetObject?: string;
+    fullyQualifiedErrorId?: string;
+  };
+}
+
+interface RpcRequest {
+  jsonrpc: "2.0";
+  id?: number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+interface RpcMessage {
+  jsonrpc: "2.0";
+  id?: number | null;
+  method?: string;
+  params?: { id?: number; stream?: string; text?: string; psVersion?: string };
+  result?: unknown;
+  error?: RpcError;
+}
+
+interface PendingRequest {
+  id: number;
+  command: string;
+  parameters: Record<string, unknown>;
+  options: ExecutionOptions;
+  /** When the request was sent to the host, or queued until then */
+  startTime: number;
+  resolve: (result: PowerShellResult<unknown>) => void;
+  cancelReason?: string;
+  timeoutId?: NodeJS.Timeout;
+  killTimeoutId?: NodeJS.Timeout;
+  cancellation?: Disposable;
+}
+
+/**
+ * Long-lived PowerShell worker process
+ */
+export class PowerShellHost implements Disposable {
+  private _process: ChildProcess | null = null;
+  private _ready: Promise<void> | null = null;
+  private _queue: PendingRequest[] = [];
+  private _current: PendingRequest | null = null;
+  private _nextId = 1;
+  private _stdoutBuffer = "";
+  private _stderrBuffer = "";
+  private _idleTimer: NodeJS.Timeout | null = null;
+  private _disposed = false;
+
+  constructor(
+    private _powershellPath: string,
+    private _hostScriptPath: string,
+    private _modulePath: string,
+    private _outputChannel: OutputSink,
+    private _settings: SettingsSource
+  ) {}
+
+  /**
+   * Queue a module command and resolve with its result
+   */
+  invoke<T>(
+    command: string,
+    parameters: Record<string, unknown>,
+    options: ExecutionOptions = {}
+  ): Promise<PowerShellResult<T>> {
+    return new Promise((resolve) => {
+      const request: PendingRequest = {
+        id: this._nextId++,
+        command,
+        parameters,
+        options,
+        startTime: Date.now(),
+        resolve: resolve as (result: PowerShellResult<unknown>) => void,
+      };
+
+      if (options.cancellationToken?.isCancellationRequested) {
+        resolve({
+          success: false,
+          error: "Operation was cancelled",
+          duration: 0,
+          cancelled: true,
+        });
+        return;
+      }
+
+      request.cancellation = options.cancellationToken?.onCancellationRequested(
+        () => this._cancelRequest(request, "Operation was cancelled")
+      );
+
+      this._clearIdleTimer();
+      this._queue.push(request);
+      this._processQueue();
+    });
+  }
+
+  /**
+   * Start the host process if it is not running and wait until it is ready
+   */
+  start(): Promise<void> {
+    if (this._disposed) {
+      return Promise.reject(new Error("PowerShell host has been disposed"));
+    }
+
+    if (!this._ready) {
+      this._ready = this._spawn();
+      this._ready.catch(() => {
+        this._ready = null;
+      });
+    }
+    return this._ready;
+  }
+
+  /**
+   * Cancel the running request and drop all queued requests
+   */
+  cancelAll(): void {
+    for (const request of [...this._queue]) {
+      this._cancelRequest(request, "Operation was cancelled");
+    }
+    if (this._current) {
+      this._cancelRequest(this._current, "Operation was cancelled");
+    }
+  }
+
+  /**
+   * Check if a request is running or queued
+   */
+  isBusy(): boolean {
+    return this._current !== null || this._queue.length > 0;
+  }
+
+  /**
+   * Stop the host process; it is started again on the next request
+   */
+  recycle(): void {
+    this._clearIdleTimer();
+    if (!this._process) {
+      return;
+    }
+
+    this._outputChannel.appendLine("[Host] Recycling PowerShell host");
+    this._send({ jsonrpc: "2.0", method: "shutdown" });
+    this._process.stdin?.end();
+  }
+
+  private _spawn(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._outputChannel.appendLine(
+        `[Host] Starting PowerShell host: ${this._powershellPath}`
+      );
+
+      const proc = spawn(
+        this._powershellPath,
+        [
+          "-NoProfile",
+          "-NoLogo",
+          "-NonInteractive",
+          "-ExecutionPolicy",
+          "Bypass",
+          "-File",
+          this._hostScriptPath,
+          "-ModulePath",
+          this._modulePath,
+        ],
+        {
+          env: {
+            ...process.env,
+            // Disable ANSI/VT escape sequences in PowerShell output
+            noColor: "1",
+            term: "dumb",
+          },
+          shell: false,
+        }
+      );
+
+      this._process = proc;
+      this._stdoutBuffer = "";
+      this._stderrBuffer = "";
+
+      let started = false;
+      const startupTimer = setTimeout(() => {
+        if (!started) {
+          reject(new Error("PowerShell host did not start in time"));
+          proc.kill("SIGKILL");
+        }
+      }, STARTUP_TIMEOUT);
+
+      proc.stdout?.on("data", (data: Buffer) => {
+        this._stdoutBuffer += data.toString();
+        let newline: number;
+        while ((newline = this._stdoutBuffer.indexOf("\n")) >= 0) {
+          const line = this._stdoutBuffer.slice(0, newline).replace(/\r$/, "");
+          this._stdoutBuffer = this._stdoutBuffer.slice(newline + 1);
+
+          const message = this._parseMessage(line);
+          if (message?.method === "ready") {
+            started = true;
+            clearTimeout(startupTimer);
+            this._outputChannel.appendLine(
+              `[Host] PowerShell host ready (PowerShell ${
+                message.params?.psVersion ?? "unknown"
+              })`
+            );
+            resolve();
+          } else if (message) {
+            this._handleMessage(message);
+          } else if (line.trim()) {
+            this._handleOutput(line);
+          }
+        }
+      });
+
+      proc.stderr?.on("data", (data: Buffer) => {
+        const text = data.toString();
+        this._stderrBuffer = (this._stderrBuffer + text).slice(-4096);
+        this._outputChannel.append(`[STDERR] ${text}`);
+      });
+
+      proc.on("error", (err) => {
+        clearTimeout(startupTimer);
+        this._outputChannel.appendLine(
+          `[Host] Failed to start PowerShell: ${err.message}`
+        );
+        if (!started) {
+          reject(new Error(`Failed to start PowerShell: ${err.message}`));
+        }
+      });
+
+      proc.on("close", (code) => {
+        clearTimeout(startupTimer);
+        if (!started) {
+          reject(
+            new Error(
+              this._stderrBuffer.trim() ||
+                `PowerShell host exited with code ${code}`
+            )
+          );
+        }
+        this._onExit(proc, code);
+      });
+    });
+  }
+
+  private _processQueue(): void {
+    if (this._current || this._queue.length === 0 || this._disposed) {
+      return;
+    }
+
+    this.start().then(
+      () => {
+        if (this._current || this._queue.length === 0) {
+          return;
+        }
+
+        // Time spent waiting in the queue does not count against the timeout
+        const request = this._queue.shift()!;
+        this._current = request;
+        request.startTime = Date.now();
+        request.timeoutId = setTimeout(
+          () => this._cancelRequest(request, TIMEOUT_REASON),
+          request.options.timeout ?? 600000
+        );
+        this._send({
+          jsonrpc: "2.0",
+          id: request.id,
+          method: "invoke",
+          params: {
+            command: request.command,
+            parameters: request.parameters,
+            workingDirectory: request.options.workingDirectory,
+            env: request.options.env,
+          },
+        });
+      },
+      (error: Error) => {
+        // The host cannot start; fail everything instead of retrying forever
+        for (const request of this._queue.splice(0)) {
+          this._finish(request, {
+            success: false,
+            error: error.message,
+            duration: Date.now() - request.startTime,
+            cancelled: false,
+          });
+        }
+      }
+    );
+  }
+
+  private _parseMessage(line: string): RpcMessage | undefined {
+    if (!line.startsWith("{")) {
+      return undefined;
+    }
+
+    try {
+      const message = JSON.parse(line) as RpcMessage;
+      return message.jsonrpc === "2.0" ? message : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private _handleMessage(message: RpcMessage): void {
+    if (message.method === "output") {
+      const text = message.params?.text ?? "";
+      this._handleOutput(
+        message.params?.stream === "error" ? `[ERROR] ${text}` : text
+      );
+      return;
+    }
+
+    const request = this._current;
+    if (!request || message.id !== request.id) {
+      if (message.error) {
+        this._outputChannel.appendLine(
+          `[Host] Error without a matching request: ${message.error.message}`
+        );
+      }
+      return;
+    }
+
+    const duration = Date.now() - request.startTime;
+    if (message.error) {
+      const stopped =
+        message.error.code === RPC_CANCELLED || !!request.cancelReason;
+      this._finish(request, {
+        success: false,
+        error: request.cancelReason ?? message.error.message,
+        errorDetails: stopped
+          ? undefined
+          : {
+              message: message.error.message,
+              type: message.error.data?.type ?? "Error",
+              scriptStackTrace: message.error.data?.scriptStackTrace,
+              targetObject: message.error.data?.targetObject,
+              fullyQualifiedErrorId: message.error.data?.fullyQualifiedErrorId,
+            },
+        duration,
+        cancelled: stopped && request.cancelReason !== TIMEOUT_REASON,
+      });
+    } else {
+      this._finish(request, {
+        success: true,
+        data: message.result,
+        duration,
+        cancelled: false,
+      });
+    }
+  }
+
+  private _handleOutput(text: string): void {
+    // Progress events are for the progress parser, not the output log
+    if (!parseProgressLine(text)) {
+      this._outputChannel.appendLine(text);
+    }
+    this._current?.options.onOutput?.(`${text}\n`);
+  }
+
+  private _cancelRequest(request: PendingRequest, reason: string): void {
+    const queuedIndex = this._queue.indexOf(request);
+    if (queuedIndex >= 0) {
+      this._queue.splice(queuedIndex, 1);
+      this._finish(request, {
+        success: false,
+        error: reason,
+        duration: Date.now() - request.startTime,
+        cancelled: true,
+      });
+      return;
+    }
+
+    if (request !== this._current || request.cancelReason) {
+      return;
+    }
+
+    this._outputChannel.appendLine(`[Host] ${reason}, stopping request`);
+    request.cancelReason = reason;
+    this._send({
+      jsonrpc: "2.0",
+      method: "cancel",
+      params: { id: request.id },
+    });
+
+    // A pipeline blocked in native code may ignore the stop request
+    const proc = this._process;
+    request.killTimeoutId = setTimeout(() => {
+      if (this._current === request && proc) {
+        this._outputChannel.appendLine(
+          "[Host] Request did not stop, killing PowerShell host"
+        );
+        proc.kill("SIGKILL");
+      }
+    }, CANCEL_GRACE_PERIOD);
+  }
+
+  private _finish(
+    request: PendingRequest,
+    result: PowerShellResult<unknown>
+  ): void {
+    clearTimeout(request.timeoutId);
+    clearTimeout(request.killTimeoutId);
+    request.cancellation?.dispose();
+
+    if (this._current === request) {
+      this._current = null;
+    }
+    request.resolve(result);
+
+    if (this._queue.length > 0) {
+      this._processQueue();
+    } else if (!this._current) {
+      this._scheduleIdleRecycle();
+    }
+  }
+
+  private _onExit(proc: ChildProcess, code: number | null): void {
+    if (this._process !== proc) {
+      return;
+    }
+
+    this._process = null;
+    this._ready = null;
+    this._clearIdleTimer();
+
+    const request = this._current;
+    if (request) {
+      this._outputChannel.appendLine(
+        `[Host] PowerShell host exited with code ${code} during a request`
+      );
+      this._finish(request, {
+        success: false,
+        error:
+          request.cancelReason ??
+          `PowerShell host exited unexpectedly (code ${code}): ${
+            this._stderrBuffer.trim() || "no error output"
+          }`,
+        duration: Date.now() - request.startTime,
+        cancelled:
+          !!request.cancelReason && request.cancelReason !== TIMEOUT_REASON,
+      });
+    } else {
+      this._outputChannel.appendLine("[Host] PowerShell host stopped");
+    }
+  }
+
+  private _send(message: RpcRequest): void {
+    if (this._process?.stdin?.writable) {
+      this._process.stdin.write(`${JSON.stringify(message)}\n`);
+    }
+  }
+
+  private _scheduleIdleRecycle(): void {
+    this._clearIdleTimer();
+
+    const idleSeconds = this._settings.get("hostIdleTimeout", 900);
+    if (!this._process || idleSeconds <= 0) {
+      return;
+    }
+
+    this._idleTimer = setTimeout(() => {
+      if (!this.isBusy()) {
+        this.recycle();
+      }
+    }, idleSeconds * 1000);
+  }
+
+  private _clearIdleTimer(): void {
+    if (this._idleTimer) {
+      clearTimeout(this._idleTimer);
+      this._idleTimer = null;
+    }
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this._disposed = true;
+    this.cancelAll();
+    this.recycle();
+  }
+}
@@ -5,11 +5,18 @@
  * with JSON-based communication, progress reporting, and cancellation support.
  */
 
-import * as vscode from "vscode";
 import { spawn, ChildProcess } from "child_process";
 import * as path from "path";
-import * as os from "os";
-import * as fs from "fs";
+import {
+  CancellationSignal,
+  Disposable,
+  OutputSink,
+  SettingsSource,
+} from "../platform/types";
+import { PowerShellHost } from "./PowerShellHost";
+import { createProgressParser, ProgressEvent } from "./progressEvents";
+import { buildCompilationResult } from "../results/alcOutputParser";
+import { buildTestRunResults } from "../results/testRunResults";
 
 /**
  * Result from PowerShell execution
@@ -43,39 +50,57 @@ export interface ExecutionOptions {
   /** Timeout in milliseconds */
   timeout?: number;
   /** Cancellation token */
-  cancellationToken?: vscode.CancellationToken;
+  cancellationToken?: CancellationSignal;
   /** Output callback for raw output */
   onOutput?: (output: string) => void;
   /** Environment variables to set */
   env?: Record<string, string>;
   /** Input data to pass via stdin as JSON */
   stdinData?: unknown;
+  /** Callback for structured ##BCTEST progress events */
+  onProgress?: (event: ProgressEvent) => void;
 }
 
 /**
  * PowerShell execution bridge for BC Test Runner
  */
-export class PowerShellRunner {
-  private outputChannel: vscode.OutputChannel;
+export class PowerShellRunner implements Disposable {
+  private outputChannel: OutputSink;
   private modulePath: string;
   private powershellPath: string;
   private runningProcess: ChildProcess | null = null;
+  private _host: PowerShellHost;
 
+  /**
+   * @param extensionPath Folder holding the resources/powershell scripts
+   * @param _settings The bcTestRunner settings (powershellPath,
+   * hostIdleTimeout)
+   */
   constructor(
     private extensionPath: string,
-    outputChannel?: vscode.OutputChannel
+    outputChannel: OutputSink,
+    private _settings: SettingsSource
   ) {
-    this.outputChannel =
-      outputChannel ?? vscode.window.createOutputChannel("BC Test Runner");
+    this.outputChannel = outputChannel;
     this.modulePath = path.join(
       extensionPath,
       "resources",
       "powershell",
       "BCTestRunner.psm1"
     );
-    this.powershellPath = vscode.workspace
-      .getConfiguration("bcTestRunner")
-      .get("powershellPath", "pwsh");
+    this.powershellPath = _settings.get("powershellPath", "pwsh");
+    this._host = new PowerShellHost(
+      this.powershellPath,
+      path.join(
+        extensionPath,
+        "resources",
+        "powershell",
+        "BCTestRunnerHost.ps1"
+      ),
+      this.modulePath,
+      this.outputChannel,
+      _settings
+    );
   }
 
   /**
@@ -183,71 +208,120 @@ export class PowerShellRunner {
   }
 
   /**
-   * Import the BCTestRunner module
+   * Start the persistent PowerShell host, which imports the BCTestRunner module
    */
   async importModule(): Promise<PowerShellResult<void>> {
-    const script = `
-            $WarningPreference = 'SilentlyContinue'
-            $ProgressPreference = 'SilentlyContinue'
-            $global:WarningPreference = 'SilentlyContinue'
-            try {
-                Import-Module "${this.modulePath.replace(
-                  /\\/g,
-                  "\\\\"
-                )}" -Force -ErrorAction Stop -WarningAction SilentlyContinue -DisableNameChecking 3>$null
-                @{ Success = $true } | ConvertTo-Json
-            } catch {
-                @{ 
-                    Success = $false
-                    Error = $_.Exception.Message
-                    Type = $_.Exception.GetType().Name
-                } | ConvertTo-Json
-            }
-        `;
-
-    const result = await this.executeRaw(script, { timeout: 30000 });
-    if (result.success && result.data) {
-      try {
-        const parsed = JSON.parse(result.data as string);
-        return {
-          success: parsed.Success,
-          error: parsed.Error,
-          duration: result.duration,
-          cancelled: false,
-        };
-      } catch {
-        return {
-          success: false,
-          error: "Failed to parse module import result",
-          duration: result.duration,
-          cancelled: false,
-        };
-      }
+    const startTime = Date.now();
+    try {
+      await this._host.start();
+      return {
+        success: true,
+        duration: Date.now() - startTime,
+        cancelled: false,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        duration: Date.now() - startTime,
+        cancelled: false,
+      };
     }
-    return result as PowerShellResult<void>;
   }
 
   /**
-   * Execute the test pipeline (assumes apps are already compiled/published)
+   * Execute the full pipeline: compile, publish and run the tests
    */
   async runTests(
     configPath: string,
     environmentName?: string,
     options?: ExecutionOptions & {
       credential?: { username: string; password: string };
+      skipCompile?: boolean;
+      skipPublish?: boolean;
+      codeunitFilter?: string;
+      testMethod?: string;
+      /** Extension name or ID of the test app to run, all when not given */
+      testApp?: string;
+      shard?: string;
     }
   ): Promise<PowerShellResult<AITestResults>> {
-    const stdinData = {
+    const input = {
       configPath,
       environmentName,
       credential: options?.credential,
+      skipCompile: options?.skipCompile ?? false,
+      skipPublish: options?.skipPublish ?? false,
+      codeunitFilter: options?.codeunitFilter,
+      testMethod: options?.testMethod,
+      testApp: options?.testApp,
+      shard: options?.shard,
     };
 
-    const script = this.buildInvokeScript("Invoke-BCTestRunnerFromJson");
-    return this.executeWithProgress<AITestResults>(script, {
-      ...options,
-      stdinData,
-    });
+    const result = await this._host.invoke<TestRunOutput>(
+      "Invoke-BCTestRunnerFromJson",
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { InputJson: JSON.stringify(input) },
+      this._withProgressEvents(options)
+    );
+
+    return {
+      ...result,
+      data: result.data ? buildTestRunResults(result.data) : undefined,
+    };
+  }
+
+  /**
+   * Compile all configured apps in dependency order
+   */
+  async compileApps(
+    configPath: string,
+    environmentName?: string,
+    options?: ExecutionOptions & {
+      credential?: { username: string; password: string };
+    }
+  ): Promise<PowerShellResult<CompilationResult>> {
+    const input = {
+      configPath,
+      environmentName,
+      credential: options?.credential,
+    };
+
+    const result = await this._host.invoke<CompilationSummary>(
+      "Invoke-BCCompileFromJson",
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { InputJson: JSON.stringify(input) },
+      this._withProgressEvents(options)
+    );
+
+    return {
+      ...result,
+      data: result.data ? buildCompilationResult(result.data) : undefined,
+    };
+  }
+
+  /**
+   * Publish all configured apps to the environment's container
+   */
+  async publishApps(
+    configPath: string,
+    environmentName?: string,
+    options?: ExecutionOptions & {
+      credential?: { username: string; password: string };
+    }
+  ): Promise<PowerShellResult<PublishSummary>> {
+    const input = {
+      configPath,
+      environmentName,
+      credential: options?.credential,
+    };
+
+    return this._host.invoke<PublishSummary>(
+      "Invoke-BCPublishFromJson",
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { InputJson: JSON.stringify(input) },
+      this._withProgressEvents(options)
+    );
   }
 
   /**
@@ -260,106 +334,69 @@ export class PowerShellRunner {
       credential?: { username: string; password: string };
       codeunitFilter?: string;
       testMethod?: string;
+      /** Extension name or ID of the test app to run, all when not given */
+      testApp?: string;
+      shard?: string;
     }
   ): Promise<PowerShellResult<AITestResults>> {
-    const stdinData = {
+    const input = {
       configPath,
       environmentName,
       credential: options?.credential,
       codeunitFilter: options?.codeunitFilter,
       testMethod: options?.testMethod,
+      testApp: options?.testApp,
+      shard: options?.shard,
       operation: "test",
     };
 
-    const script = this.buildInvokeScript("Invoke-BCExecuteTestsFromJson");
-    return this.executeWithProgress<AITestResults>(script, {
-      ...options,
-      stdinData,
-    });
+    const result = await this._host.invoke<TestRunOutput>(
+      "Invoke-BCExecuteTestsFromJson",
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { InputJson: JSON.stringify(input) },
+      this._withProgressEvents(options)
+    );
+
+    return {
+      ...result,
+      data: result.data ? buildTestRunResults(result.data) : undefined,
+    };
   }
 
   /**
    * Get configuration
    */
   async getConfig(configPath: string): Promise<PowerShellResult<BCTestConfig>> {
-    const script = `
-            $WarningPreference = 'SilentlyContinue'
-            $ProgressPreference = 'SilentlyContinue'
-            $global:WarningPreference = 'SilentlyContinue'
-            try {
-                Import-Module "${this.modulePath.replace(
-                  /\\/g,
-                  "\\\\"
-                )}" -Force -ErrorAction Stop -WarningAction SilentlyContinue -DisableNameChecking 3>$null
-                $config = Get-BCTestRunnerConfig -ConfigPath "${configPath.replace(
-                  /\\/g,
-                  "\\\\"
-                )}"
-                @{
-                    Success = $true
-                    Data = $config
-                } | ConvertTo-Json -Depth 10
-            } catch {
-                @{
-                    Success = $false
-                    Error = $_.Exception.Message
-                    Type = $_.Exception.GetType().Name
-                    StackTrace = $_.ScriptStackTrace
-                } | ConvertTo-Json -Depth 10
-            }
-        `;
-
-    const result = await this.executeRaw(script, { timeout: 30000 });
-    return this.parseJsonFromStdout<BCTestConfig>(result);
+    return this._host.invoke<BCTestConfig>(
+      "Get-BCTestRunnerConfig",
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      { ConfigPath: configPath },
+      { timeout: 30000 }
+    );
   }
 
   /**
-   * Get latest test results
+   * Route progress event lines to onProgress and other output to onOutput
    */
-  async getLatestResults(
-    resultsFolder: string,
-    specificFile?: string
-  ): Promise<PowerShellResult<AITestResults>> {
-    const script = `
-            $WarningPreference = 'SilentlyContinue'
-            $ProgressPreference = 'SilentlyContinue'
-            try {
-                $resultsPath = "${resultsFolder.replace(/\\/g, "\\\\")}"
-                ${
-                  specificFile
-                    ? `$resultFile = "${specificFile.replace(/\\/g, "\\\\")}"`
-                    : `$resultFile = Get-ChildItem -Path $resultsPath -Filter "*_AI.json" | Sort-Object LastWriteTime -Descending | Select-Object -First 1 -ExpandProperty FullName`
-                }
-                
-                if (-not $resultFile -or -not (Test-Path $resultFile)) {
-                    @{
-                        Success = $false
-                        Error = "No test results found in $resultsPath"
-                    } | ConvertTo-Json
-                } else {
-                    $content = Get-Content -Path $resultFile -Raw | ConvertFrom-Json
-                    @{
-                        Success = $true
-                        Data = $content
-                        FilePath = $resultFile
-                    } | ConvertTo-Json -Depth 20
-                }
-            } catch {
-                @{
-                    Success = $false
-                    Error = $_.Exception.Message
-                } | ConvertTo-Json
-            }
-        `;
+  private _withProgressEvents(
+    options?: ExecutionOptions
+  ): ExecutionOptions | undefined {
+    if (!options?.onProgress) {
+      return options;
+    }
 
-    const result = await this.executeRaw(script, { timeout: 30000 });
-    return this.parseJsonFromStdout<AITestResults>(result);
+    return {
+      ...options,
+      onOutput: createProgressParser(options.onProgress, options.onOutput),
+    };
   }
 
   /**
    * Cancel running operation
    */
   cancel(): void {
+    this._host.cancelAll();
+
     if (this.runningProcess) {
       this.outputChannel.appendLine("Cancelling running operation...");
       this.runningProcess.kill("SIGTERM");
@@ -377,330 +414,26 @@ export class PowerShellRunner {
    * Check if an operation is running
    */
   isRunning(): boolean {
-    return this.runningProcess !== null;
+    return this.runningProcess !== null || this._host.isBusy();
   }
 
   /**
-   * Build script that reads JSON from stdin
+   * Stop the PowerShell host
    */
-  private buildInvokeScript(functionName: string): string {
-    return `
-            $WarningPreference = 'SilentlyContinue'
-            $ProgressPreference = 'SilentlyContinue'
-            $VerbosePreference = 'SilentlyContinue'
-            $global:WarningPreference = 'SilentlyContinue'
-            try {
-                Import-Module "${this.modulePath.replace(
-                  /\\/g,
-                  "\\\\"
-                )}" -Force -ErrorAction Stop -WarningAction SilentlyContinue -DisableNameChecking 3>$null
-                $inputJson = [Console]::In.ReadToEnd()
-                $params = $inputJson | ConvertFrom-Json
-                $result = & { ${functionName} -InputJson $inputJson } 3>$null
-                $output = @{
-                    Success = $true
-                    Data = $result
-                }
-                if ($env:BC_RESULT_FILE) {
-                    $output | ConvertTo-Json -Depth 100 | Out-File -FilePath $env:BC_RESULT_FILE -Encoding utf8 -Force
-                    Write-Host "##RESULT_WRITTEN##"
-                } else {
-                    $output | ConvertTo-Json -Depth 20
-                }
-            } catch {
-                $output = @{
-                    Success = $false
-                    Error = $_.Exception.Message
-                    Type = $_.Exception.GetType().Name
-                    StackTrace = $_.ScriptStackTrace
-                    TargetObject = $_.TargetObject
-                    FullyQualifiedErrorId = $_.FullyQualifiedErrorId
-                }
-                if ($env:BC_RESULT_FILE) {
-                    $output | ConvertTo-Json -Depth 100 | Out-File -FilePath $env:BC_RESULT_FILE -Encoding utf8 -Force
-                    Write-Host "##RESULT_WRITTEN##"
-                } else {
-                    $output | ConvertTo-Json -Depth 10
-                }
-            }
-        `;
+  dispose(): void {
+    this._host.dispose();
   }
 
   /**
-   * Execute script with progress reporting
+   * Create a runner with its own PowerShell host, so work can run in
+   * parallel with this runner. The caller disposes it.
    */
-  private async executeWithProgress<T>(
-    script: string,
-    options?: ExecutionOptions
-  ): Promise<PowerShellResult<T>> {
-    // Generate unique temp file path
-    const tempFilePath = path.join(
-      os.tmpdir(),
-      `bctest-${process.pid}-${Date.now()}-${Math.random()
-        .toString(36)
-        .substring(7)}.json`
+  fork(): PowerShellRunner {
+    return new PowerShellRunner(
+      this.extensionPath,
+      this.outputChannel,
+      this._settings
     );
-
-    // Pass temp file path via environment variable
-    const envWithFile = {
-      ...options?.env,
-      // eslint-disable-next-line @typescript-eslint/naming-convention
-      BC_RESULT_FILE: tempFilePath,
-    };
-
-    const result = await this.executeRaw(script, {
-      ...options,
-      env: envWithFile,
-    });
-
-    return this.parseJsonResult<T>(result, tempFilePath);
-  }
-
-  /**
-   * Parse JSON from stdout (for simple commands that don't use temp files)
-   */
-  private parseJsonFromStdout<T>(
-    result: PowerShellResult<string>
-  ): PowerShellResult<T> {
-    // Handle cancellation
-    if (result.cancelled) {
-      return {
-        success: false,
-        error: "Operation was cancelled",
-        duration: result.duration,
-        cancelled: true,
-      };
-    }
-
-    // If PowerShell process failed, return the error
-    if (!result.success) {
-      return {
-        success: false,
-        error: result.error ?? "PowerShell execution failed",
-        duration: result.duration,
-        cancelled: false,
-      };
-    }
-
-    // Parse the stdout as JSON
-    try {
-      const output = (result.data || "").trim();
-      if (!output) {
-        return {
-          success: false,
-          error: "No output from PowerShell",
-          duration: result.duration,
-          cancelled: false,
-        };
-      }
-
-      const parsed = JSON.parse(output);
-
-      // Check if PowerShell returned an error
-      if (parsed.Success === false) {
-        return {
-          success: false,
-          error: parsed.Error || "PowerShell returned an error",
-          errorDetails: {
-            message: parsed.Error,
-            type: parsed.Type,
-            scriptStackTrace: parsed.StackTrace,
-          },
-          duration: result.duration,
-          cancelled: false,
-        };
-      }
-
-      // Success - return the data
-      return {
-        success: true,
-        data: parsed.Data as T,
-        duration: result.duration,
-        cancelled: false,
-      };
-    } catch (e) {
-      const error = e instanceof Error ? e : new Error(String(e));
-      return {
-        success: false,
-        error: `Failed to parse PowerShell output: ${error.message}`,
-        duration: result.duration,
-        cancelled: false,
-      };
-    }
-  }
-
-  /**
-   * Parse JSON result from PowerShell temp file
-   * IMPORTANT: This method ONLY reads from the temp file and completely ignores stdout
-   */
-  private parseJsonResult<T>(
-    result: PowerShellResult<string>,
-    tempFilePath?: string
-  ): PowerShellResult<T> {
-    // Handle cancellation
-    if (result.cancelled) {
-      this.cleanupTempFile(tempFilePath);
-      return {
-        success: false,
-        error: "Operation was cancelled",
-        duration: result.duration,
-        cancelled: true,
-      };
-    }
-
-    // If PowerShell process failed, return the error
-    if (!result.success) {
-      this.cleanupTempFile(tempFilePath);
-      return {
-        success: false,
-        error: result.error ?? "PowerShell execution failed",
-        duration: result.duration,
-        cancelled: false,
-      };
-    }
-
-    // CRITICAL: We must have a temp file path. Never fall back to stdout.
-    if (!tempFilePath) {
-      this.outputChannel.appendLine(
-        "[ERROR] No temp file path provided - cannot parse results"
-      );
-      return {
-        success: false,
-        error: "Internal error: No result file path provided",
-        duration: result.duration,
-        cancelled: false,
-      };
-    }
-
-    // Wait a bit for file to be written (PowerShell might still be flushing)
-    let retries = 0;
-    const maxRetries = 10;
-    while (!fs.existsSync(tempFilePath) && retries < maxRetries) {
-      retries++;
-      // Sleep for 50ms
-      const start = Date.now();
-      while (Date.now() - start < 50) {
-        // Busy wait
-      }
-    }
-
-    // Check if file exists
-    if (!fs.existsSync(tempFilePath)) {
-      this.outputChannel.appendLine(
-        `[ERROR] Temp file not found after ${retries} retries: ${tempFilePath}`
-      );
-      this.outputChannel.appendLine(
-        "[DEBUG] PowerShell may have failed to write results file"
-      );
-      return {
-        success: false,
-        error: `Result file not found: ${tempFilePath}. PowerShell failed to write results.`,
-        duration: result.duration,
-        cancelled: false,
-      };
-    }
-
-    // Read and parse the JSON file
-    try {
-      const fileContent = fs.readFileSync(tempFilePath, "utf8").trim();
-
-      // Log for debugging
-      this.outputChannel.appendLine(
-        `[DEBUG] Read ${fileContent.length} bytes from result file`
-      );
-
-      // Validate it's JSON before parsing
-      if (!fileContent.startsWith("{") && !fileContent.startsWith("[")) {
-        this.outputChannel.appendLine(
-          `[ERROR] Result file does not contain valid JSON. First 200 chars: ${fileContent.substring(
-            0,
-            200
-          )}`
-        );
-        this.cleanupTempFile(tempFilePath);
-        return {
-          success: false,
-          error: `Result file contains invalid JSON: ${fileContent.substring(
-            0,
-            100
-          )}...`,
-          duration: result.duration,
-          cancelled: false,
-        };
-      }
-
-      const parsed = JSON.parse(fileContent);
-
-      // Clean up temp file after successful read
-      this.cleanupTempFile(tempFilePath);
-
-      // Check if PowerShell returned an error
-      if (parsed.Success === false) {
-        return {
-          success: false,
-          error: parsed.Error || "PowerShell returned an error",
-          errorDetails: {
-            message: parsed.Error,
-            type: parsed.Type,
-            scriptStackTrace: parsed.StackTrace,
-            targetObject: parsed.TargetObject,
-            fullyQualifiedErrorId: parsed.FullyQualifiedErrorId,
-          },
-          duration: result.duration,
-          cancelled: false,
-        };
-      }
-
-      // Success - return the data
-      return {
-        success: true,
-        data: parsed.Data as T,
-        duration: result.duration,
-        cancelled: false,
-      };
-    } catch (e) {
-      const error = e instanceof Error ? e : new Error(String(e));
-      this.outputChannel.appendLine(
-        `[ERROR] Failed to read/parse result file: ${error.message}`
-      );
-      this.outputChannel.appendLine(`[DEBUG] File path: ${tempFilePath}`);
-
-      // Try to read raw content for debugging
-      try {
-        const rawContent = fs.readFileSync(tempFilePath, "utf8");
-        this.outputChannel.appendLine(
-          `[DEBUG] Raw file content (first 500 chars): ${rawContent.substring(
-            0,
-            500
-          )}`
-        );
-      } catch {
-        this.outputChannel.appendLine(
-          "[DEBUG] Could not read raw file content"
-        );
-      }
-
-      this.cleanupTempFile(tempFilePath);
-      return {
-        success: false,
-        error: `Failed to parse result file: ${error.message}`,
-        duration: result.duration,
-        cancelled: false,
-      };
-    }
-  }
-
-  /**
-   * Clean up temporary file
-   */
-  private cleanupTempFile(tempFilePath?: string): void {
-    if (tempFilePath && fs.existsSync(tempFilePath)) {
-      try {
-        fs.unlinkSync(tempFilePath);
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
   }
 
   /**
@@ -860,6 +593,8 @@ export interface TestSummary {
   passed: number;
   failed: number;
   skipped: number;
+  /** Tests that failed first and passed on a retry */
+  passedAfterRetry?: number;
 }
 
 export interface TestFailure {
@@ -872,6 +607,10 @@ export interface TestFailure {
   duration: string;
   filePath?: string;
   lineNumber?: number;
+  /** Executions including retries, set when the test was retried */
+  attempts?: number;
+  /** Extension name of the test app the test belongs to */
+  app?: string;
 }
 
 export interface TestResult {
@@ -881,6 +620,123 @@ export interface TestResult {
   name: string;
   result: "Pass" | "Fail" | "Skip";
   duration: string;
+  /** Extension name of the test app the test belongs to */
+  app?: string;
+  /** Executions including retries, set when the test was retried */
+  attempts?: number;
+  passedOnRetry?: boolean;
+}
+
+export interface AppCompileResult {
+  app: string;
+  path: string;
+  appFile?: string;
+  success: boolean;
+  output: string[];
+  error?: string;
+  duration: string;
+}
+
+export interface CompilationSummary {
+  success: boolean;
+  apps: AppCompileResult[];
+  duration: string;
+}
+
+export interface CompilerDiagnostic {
+  app: string;
+  filePath?: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  code: string;
+  severity: "error" | "warning" | "info";
+  message: string;
+}
+
+export interface CompilationResult extends CompilationSummary {
+  errors: CompilerDiagnostic[];
+  warnings: CompilerDiagnostic[];
+}
+
+export interface ErrorLocation {
+  type: "test-failure" | "compilation-error";
+  file?: string;
+  line?: number;
+  column?: number;
+  code?: string;
+  codeunit?: string;
+  method?: string;
+  message: string;
+}
+
+export interface FlakyTest {
+  codeunit: string;
+  codeunitId: number;
+  method: string;
+  /** Runs in the history that executed the test */
+  runs: number;
+  failures: number;
+  /** Pass/fail changes between consecutive runs */
+  flips: number;
+  /** Flips per run transition, 0-1 */
+  flipRate: number;
+  /** Outcomes of the most recent runs, oldest first */
+  recentOutcomes: ("Pass" | "Fail")[];
+}
+
+export interface DurationProfile {
+  codeunit: string;
+  codeunitId: number;
+  /** Test method, absent for a codeunit */
+  method?: string;
+  /** Duration in seconds in this run */
+  duration: number;
+  /** Median duration in seconds over the previous runs */
+  medianDuration?: number;
+  /** Time budget in seconds */
+  budget?: number;
+}
+
+export interface PerformanceProfile {
+  slowestTests: DurationProfile[];
+  slowestCodeunits: DurationProfile[];
+  /** Tests and codeunits much slower than their historical median */
+  regressions: DurationProfile[];
+  /** Tests and codeunits that took longer than their time budget */
+  budgetBreaches: DurationProfile[];
+}
+
+export interface TestAppSummary {
+  /** Extension name of the test app */
+  app: string;
+  extensionId: string;
+  success: boolean;
+  summary: TestSummary;
+  duration: string;
+}
+
+export interface ShardSummary {
+  environment: string;
+  codeunitIds: number[];
+  success: boolean;
+  summary: TestSummary;
+  duration: string;
+}
+
+export interface AppPublishResult {
+  app: string;
+  appFile?: string;
+  success: boolean;
+  error?: string;
+  duration: string;
+}
+
+export interface PublishSummary {
+  success: boolean;
+  apps: AppPublishResult[];
+  duration: string;
 }
 
 export interface AITestResults {
@@ -896,26 +752,59 @@ export interface AITestResults {
     success: boolean;
     summary: TestSummary;
     duration: string;
+    /** Error of a test run that could not complete, e.g. a container failure */
+    error?: string;
     failures: TestFailure[];
     allTests: TestResult[];
+    /** Per-test-app results, in the order the apps ran */
+    apps?: TestAppSummary[];
   };
   aiContext: {
     analysisHints: string[];
     suggestedActions: string[];
+    errorLocations?: ErrorLocation[];
+    flakyTests?: FlakyTest[];
+    performance?: PerformanceProfile;
+  };
+  compilation?: CompilationResult;
+  /** Per-environment results of a run sharded across environments */
+  shards?: ShardSummary[];
+  FilePath?: string; // Source file of the results
+}
+
+/**
+ * Result of a pipeline run returned by the PowerShell module. The tests are
+ * in the XUnit file of the test run, parsed by buildTestRunResults.
+ */
+export interface TestRunOutput {
+  schema: string;
+  timestamp: string;
+  environment: AITestResults["environment"];
+  workspacePath?: string;
+  /** Path the AI results are written to */
+  aiResultsFile: string;
+  /** Raw compiler output, present when the run compiled */
+  compilation?: CompilationSummary;
+  /** Present when the tests ran */
+  testRun?: {
+    /** XUnit file, absent when no test app wrote results */
+    resultsFile?: string;
+    duration: string;
+    errorMessage?: string;
+    apps: { app: string; extensionId: string; duration: string }[];
   };
-  FilePath?: string; // Added by PowerShell when returning results
 }
 
 export interface BCTestConfig {
   workspacePath: string;
   defaultEnvironment: string;
   apps: string[];
-  testApp: {
+  testApps: {
     path: string;
     extensionId: string;
     extensionName: string;
     testCodeunitRange: string;
-  };
+  }[];
   environments: BCTestEnvironment[];
   output: {
     resultsFolder: string;
@@ -0,0 +1,194 @@
+/**
+ * BC Test Runner - Progress Events
+ *
+ * Structured progress events written by the PowerShell module as
+ * `##BCTEST {json}##` lines (see Write-BCTestEvent in BCTestRunner.psm1).
+ */
+
+import { z } from "zod";
+
+/* eslint-disable @typescript-eslint/naming-convention */
+
+const PROGRESS_LINE_PATTERN = /^##BCTEST (\{.*\})##\s*$/;
+
+const TestOutcomeSchema = z.enum(["Pass", "Fail", "Skip"]);
+
+// Progress event schema
+export const ProgressEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("phase"),
+    phase: z.enum([
+      "compile",
+      "publish",
+      "connect",
+      "run",
+      "results",
+      "export",
+    ]),
+    message: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("codeunitStarted"),
+    codeunitId: z.number().int(),
+    codeunit: z.string(),
+    index: z.number().int().optional(),
+  }),
+  z.object({
+    type: z.literal("codeunitFinished"),
+    codeunitId: z.number().int(),
+    codeunit: z.string(),
+    index: z.number().int().optional(),
+    result: TestOutcomeSchema,
+    duration: z.number(),
+  }),
+  z.object({
+    type: z.literal("testStarted"),
+    codeunitId: z.number().int(),
+    method: z.string(),
+  }),
+  z.object({
+    type: z.literal("testFinished"),
+    codeunitId: z.number().int(),
+    method: z.string(),
+    result: TestOutcomeSchema,
+    duration: z.number(),
+    message: z.string().optional(),
+  }),
+]);
+
+export type ProgressEvent = z.infer<typeof ProgressEventSchema>;
+
+/**
+ * Parse a single output line into a progress event
+ */
+export function parseProgressLine(line: string): ProgressEvent | undefined {
+  const match = PROGRESS_LINE_PATTERN.exec(line.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    const parsed = ProgressEventSchema.safeParse(JSON.parse(match[1]));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split streamed output into lines, passing progress events and regular
+ * output to separate callbacks. Event lines are not forwarded as output.
+ */
+export function createProgressParser(
+  onEvent: (event: ProgressEvent) => void,
+  onOutput?: (output: string) => void
+): (chunk: string) => void {
+  let buffer = "";
+
+  return (chunk: string) => {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline + 1);
+      buffer = buffer.slice(newline + 1);
+
+      const event = parseProgressLine(line);
+      if (event) {
+        onEvent(event);
+      } else {
+        onOutput?.(line);
+      }
+    }
+  };
+}
+
+/**
+ * Tracks how far a run has progressed through its codeunits
+ */
+export class RunProgress {
+  private _completed = new Set<number>();
+  private _failedTests = 0;
+  private _currentCodeunit?: string;
+  private _currentFinished = false;
+  private _phaseMessage = "Running tests...";
+
+  /**
+   * @param total Number of codeunits expected in the run, if known
+   */
+  constructor(readonly total?: number) {}
+
+  /**
+   * Record an event and return the progress increment (0-100) it represents
+   */
+  update(event: ProgressEvent): number {
+    switch (event.type) {
+      case "phase":
+        this._phaseMessage = event.message ?? event.phase;
+        this._currentCodeunit = undefined;
+        return 0;
+      case "codeunitStarted":
+        this._currentCodeunit = event.codeunit;
+        this._currentFinished = false;
+        return 0;
+      case "codeunitFinished":
+        this._currentCodeunit = event.codeunit;
+        this._currentFinished = true;
+        if (this._completed.has(event.codeunitId)) {
+          return 0;
+        }
+        this._completed.add(event.codeunitId);
+        return this.total ? 100 / this.total : 0;
+      case "testFinished":
+        if (event.result === "Fail") {
+          this._failedTests++;
+        }
+        return 0;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Number of codeunits that have finished
+   */
+  get completed(): number {
+    return this._completed.size;
+  }
+
+  /**
+   * Number of tests that failed so far
+   */
+  get failedTests(): number {
+    return this._failedTests;
+  }
+
+  /**
+   * Human-readable description of the current state
+   */
+  describe(): string {
+    if (!this._currentCodeunit) {
+      return this._phaseMessage;
+    }
+
+    const index = this._currentFinished ? this.completed : this.completed + 1;
+    const position = this.total
+      ? `${Math.min(index, this.total)} of ${this.total}`
+      : `${index}`;
+    const failures =
+      this._failedTests > 0 ? ` (${this._failedTests} failed)` : "";
+    const verb = this._currentFinished ? "Finished codeunit" : "Codeunit";
+    return `${verb} ${position}: ${this._currentCodeunit}${failures}`;
+  }
+
+  /**
+   * Short status bar text
+   */
+  describeShort(): string {
+    const count = this.total
+      ? `${this.completed}/${this.total}`
+      : `${this.completed}`;
+    const failures =
+      this._failedTests > 0 ? `, ${this._failedTests} failed` : "";
+    return `${count} codeunits${failures}`;
+  }
+}
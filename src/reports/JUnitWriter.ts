@@ -0,0 +1,190 @@
+/**
+ * BC Test Runner - JUnit XML Writer
+ *
+ * Writes results as JUnit XML for CI servers: each codeunit becomes a
+ * testsuite, each test method a testcase, and failures become <failure>
+ * elements carrying the error and stack trace.
+ */
+
+import {
+  AITestResults,
+  TestFailure,
+  TestResult,
+} from "../powershell/PowerShellRunner";
+import { parseDuration } from "../results/duration";
+import { testKey } from "../results/resultsMerger";
+import { ReportWriter } from "./ReportWriter";
+
+/**
+ * JUnit XML report writer
+ */
+export class JUnitWriter implements ReportWriter {
+  readonly format = "junit";
+  readonly fileExtension = ".junit.xml";
+
+  /**
+   * Render results as a JUnit <testsuites> document
+   */
+  write(results: AITestResults): string {
+    const failures = new Map(
+      results.tests.failures.map((failure) => [testKey(failure), failure])
+    );
+
+    const byCodeunit = new Map<number, TestResult[]>();
+    for (const test of results.tests.allTests) {
+      const tests = byCodeunit.get(test.codeunitId) ?? [];
+      tests.push(test);
+      byCodeunit.set(test.codeunitId, tests);
+    }
+
+    const suites = [...byCodeunit.values()].map((tests) =>
+      this._writeSuite(results, tests, failures)
+    );
+
+    // A failed compile is reported as errors, so CI fails on it
+    let compiledApps = 0;
+    let compileErrors = 0;
+    if (results.compilation && !results.compilation.success) {
+      suites.unshift(this._writeCompilationSuite(results));
+      compiledApps = results.compilation.apps.length;
+      compileErrors = results.compilation.apps.filter((a) => !a.success).length;
+    }
+
+    const summary = results.tests.summary;
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="BC Tests" tests="${
+        summary.total + compiledApps
+      }" failures="${summary.failed}" errors="${compileErrors}" skipped="${
+        summary.skipped
+      }" time="${this._time(results.tests.duration)}" timestamp="${this._escape(
+        results.timestamp
+      )}">`,
+      ...suites,
+      "</testsuites>",
+      "",
+    ].join("\n");
+  }
+
+  private _writeSuite(
+    results: AITestResults,
+    tests: TestResult[],
+    failures: Map<string, TestFailure>
+  ): string {
+    const [first] = tests;
+    const failed = tests.filter((t) => t.result === "Fail").length;
+    const skipped = tests.filter((t) => t.result === "Skip").length;
+    const time = tests.reduce((sum, t) => sum + parseDuration(t.duration), 0);
+
+    const cases = tests.map((test) =>
+      this._writeCase(test, failures.get(testKey(test)))
+    );
+
+    return [
+      `  <testsuite name="${this._escape(first.codeunit)}" id="${
+        first.codeunitId
+      }" tests="${
+        tests.length
+      }" failures="${failed}" errors="0" skipped="${skipped}" time="${this._time(
+        time
+      )}" timestamp="${this._escape(
+        results.timestamp
+      )}" hostname="${this._escape(results.environment.name)}">`,
+      ...cases,
+      "  </testsuite>",
+    ].join("\n");
+  }
+
+  private _writeCase(test: TestResult, failure?: TestFailure): string {
+    const open = `    <testcase name="${this._escape(
+      test.method
+    )}" classname="${this._escape(test.codeunit)}" time="${this._time(
+      test.duration
+    )}"`;
+
+    if (test.result === "Skip") {
+      return `${open}>\n      <skipped/>\n    </testcase>`;
+    }
+    if (test.result !== "Fail") {
+      return `${open}/>`;
+    }
+
+    const error = failure?.error ?? "Test failed";
+    const details = [error, failure?.stackTrace].filter(Boolean).join("\n\n");
+    const location = failure?.filePath
+      ? `\n      <system-out>${this._escape(
+          `${failure.filePath}${
+            failure.lineNumber ? `:${failure.lineNumber}` : ""
+          }`
+        )}</system-out>`
+      : "";
+
+    return `${open}>\n      <failure message="${this._escape(
+      error.split(/\r?\n/)[0]
+    )}" type="AssertionError">${this._escape(
+      details
+    )}</failure>${location}\n    </testcase>`;
+  }
+
+  private _writeCompilationSuite(results: AITestResults): string {
+    const compilation = results.compilation!;
+    const failedApps = compilation.apps.filter((app) => !app.success);
+
+    const cases = compilation.apps.map((app) => {
+      const open = `    <testcase name="${this._escape(
+        app.app
+      )}" classname="Compilation" time="${this._time(app.duration)}"`;
+      if (app.success) {
+        return `${open}/>`;
+      }
+
+      const errors = compilation.errors
+        .filter((e) => e.app === app.app)
+        .map(
+          (e) =>
+            `${e.filePath ?? app.app}${
+              e.line ? `(${e.line},${e.column ?? 1})` : ""
+            }: ${e.code} ${e.message}`
+        );
+      return `${open}>\n      <error message="${this._escape(
+        app.error || `Compilation of ${app.app} failed`
+      )}" type="CompilationError">${this._escape(
+        errors.join("\n")
+      )}</error>\n    </testcase>`;
+    });
+
+    return [
+      `  <testsuite name="Compilation" tests="${
+        compilation.apps.length
+      }" failures="0" errors="${
+        failedApps.length
+      }" skipped="0" time="${this._time(
+        compilation.duration
+      )}" timestamp="${this._escape(results.timestamp)}">`,
+      ...cases,
+      "  </testsuite>",
+    ].join("\n");
+  }
+
+  /**
+   * Seconds with millisecond precision, as JUnit consumers expect
+   */
+  private _time(duration: string | number): string {
+    return parseDuration(duration).toFixed(3);
+  }
+
+  private _escape(text: string): string {
+    return (
+      text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;")
+        // Control characters are not allowed in XML 1.0
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    );
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * BC Test Runner - Markdown Writer
+ *
+ * Writes a compact Markdown summary for pull request descriptions and
+ * comments: a summary table, collapsible failure details and a per-codeunit
+ * breakdown, trimmed to stay within the size limit of a PR comment.
+ */
+
+import {
+  AITestResults,
+  TestFailure,
+  TestResult,
+} from "../powershell/PowerShellRunner";
+import { getFlakyTest } from "../history/flakiness";
+import { parseDuration } from "../results/duration";
+import { ReportWriter } from "./ReportWriter";
+
+// GitHub rejects comments over 65536 characters; leave room for text the
+// user adds around the report
+const DEFAULT_MAX_LENGTH = 60000;
+
+// Longest error message and stack trace shown per failure
+const MAX_DETAIL_LENGTH = 2000;
+
+/**
+ * Markdown summary report writer
+ */
+export class MarkdownWriter implements ReportWriter {
+  readonly format = "md";
+  readonly fileExtension = ".md";
+
+  /**
+   * @param _maxLength Maximum length of the report in characters
+   */
+  constructor(private readonly _maxLength = DEFAULT_MAX_LENGTH) {}
+
+  /**
+   * Render results as Markdown. Failure details and codeunit rows that do
+   * not fit the size limit are left out with a note.
+   */
+  write(results: AITestResults): string {
+    const head = [
+      this._writeSummary(results),
+      this._writeCompilation(results),
+    ].filter(Boolean);
+
+    // The codeunit table is compact, so it keeps up to a third of the
+    // space and the failure details get the rest
+    const codeunits = this._writeCodeunits(results);
+    const budget =
+      this._maxLength -
+      this._length(head) -
+      Math.min(this._length(codeunits), Math.floor(this._maxLength / 3));
+
+    const failures = this._writeFailures(results, budget);
+    const remaining = this._maxLength - this._length([...head, failures]);
+
+    return (
+      [...head, failures, this._fit(codeunits, remaining)]
+        .filter(Boolean)
+        .join("\n\n") + "\n"
+    );
+  }
+
+  private _writeSummary(results: AITestResults): string {
+    const { summary } = results.tests;
+    const compileFailed =
+      results.compilation !== undefined && !results.compilation.success;
+    const status = compileFailed
+      ? "❌ Compilation failed"
+      : results.tests.success
+      ? "✅ Tests passed"
+      : "❌ Tests failed";
+
+    const lines = [
+      `## ${status}`,
+      "",
+      "| Total | Passed | Failed | Skipped | Duration |",
+      "| ---: | ---: | ---: | ---: | ---: |",
+      `| ${summary.total} | ${summary.passed} | ${summary.failed} | ${
+        summary.skipped
+      } | ${this._formatSeconds(parseDuration(results.tests.duration))} |`,
+      "",
+      `Environment \`${results.environment.name}\` · ${results.timestamp}`,
+    ];
+    if (summary.passedAfterRetry) {
+      lines.push(`${summary.passedAfterRetry} test(s) passed after retry`);
+    }
+    return lines.join("\n");
+  }
+
+  private _writeCompilation(results: AITestResults): string {
+    const compilation = results.compilation;
+    if (!compilation || compilation.success) {
+      return "";
+    }
+
+    const errors = compilation.errors.map(
+      (e) =>
+        `- \`${this._inlineCode(
+          `${e.filePath ?? e.app}${
+            e.line ? `(${e.line},${e.column ?? 1})` : ""
+          }`
+        )}\` ${e.code}: ${this._escapeText(e.message)}`
+    );
+    const failedApps = compilation.apps
+      .filter((app) => !app.success)
+      .map((app) => app.app);
+
+    return [
+      `### Compilation errors (${failedApps.join(", ")})`,
+      "",
+      ...(errors.length > 0 ? errors : ["- No compiler diagnostics captured"]),
+    ].join("\n");
+  }
+
+  private _writeFailures(results: AITestResults, budget: number): string {
+    const { failures } = results.tests;
+    if (failures.length === 0) {
+      return "";
+    }
+
+    const heading = `### Failures (${failures.length})`;
+    const blocks: string[] = [];
+    let used = heading.length;
+
+    for (const failure of failures) {
+      const block = this._writeFailure(results, failure);
+      // Keep room for the note about omitted failures
+      if (used + block.length + 2 + 100 > budget) {
+        break;
+      }
+      blocks.push(block);
+      used += block.length + 2;
+    }
+
+    const omitted = failures.length - blocks.length;
+    if (omitted > 0) {
+      blocks.push(
+        `_${omitted} more failure(s) not shown; see the full report._`
+      );
+    }
+
+    return [heading, ...blocks].join("\n\n");
+  }
+
+  private _writeFailure(results: AITestResults, failure: TestFailure): string {
+    const notes: string[] = [];
+    if (failure.attempts) {
+      notes.push(`${failure.attempts} attempts`);
+    }
+    if (getFlakyTest(results, failure)) {
+      notes.push("flaky");
+    }
+
+    const summary = `❌ <code>${this._escapeHtml(
+      `${failure.codeunit} › ${failure.method}`
+    )}</code>${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`;
+
+    const lines = ["<details>", `<summary>${summary}</summary>`, ""];
+    if (failure.filePath) {
+      lines.push(
+        `\`${this._inlineCode(
+          `${failure.filePath}${
+            failure.lineNumber ? `:${failure.lineNumber}` : ""
+          }`
+        )}\``,
+        ""
+      );
+    }
+    lines.push(this._codeBlock(failure.error || "Test failed"));
+    if (failure.stackTrace) {
+      lines.push("", "Stack trace:", "", this._codeBlock(failure.stackTrace));
+    }
+    lines.push("", "</details>");
+
+    return lines.join("\n");
+  }
+
+  private _writeCodeunits(results: AITestResults): string[] {
+    const byCodeunit = new Map<number, TestResult[]>();
+    for (const test of results.tests.allTests) {
+      const tests = byCodeunit.get(test.codeunitId) ?? [];
+      tests.push(test);
+      byCodeunit.set(test.codeunitId, tests);
+    }
+    if (byCodeunit.size === 0) {
+      return [];
+    }
+
+    const rows = [...byCodeunit.values()].map((tests) => {
+      const count = (result: TestResult["result"]) =>
+        tests.filter((t) => t.result === result).length;
+      const failed = count("Fail");
+      const duration = tests.reduce(
+        (sum, t) => sum + parseDuration(t.duration),
+        0
+      );
+
+      return `| ${failed > 0 ? "❌" : "✅"} ${this._escapeText(
+        tests[0].codeunit
+      )} (${tests[0].codeunitId}) | ${tests.length} | ${count(
+        "Pass"
+      )} | ${failed} | ${count("Skip")} | ${this._formatSeconds(duration)} |`;
+    });
+
+    return [
+      `<details>\n<summary>Codeunits (${byCodeunit.size})</summary>\n\n` +
+        "| Codeunit | Tests | Passed | Failed | Skipped | Duration |\n" +
+        "| --- | ---: | ---: | ---: | ---: | ---: |",
+      ...rows,
+    ];
+  }
+
+  /**
+   * Join the codeunit table with as many rows as fit in the budget
+   */
+  private _fit(codeunits: string[], budget: number): string {
+    if (codeunits.length === 0) {
+      return "";
+    }
+
+    const [header, ...rows] = codeunits;
+    const footer = "\n\n</details>";
+    const lines = [header];
+    let used = header.length + footer.length + 100;
+
+    for (const row of rows) {
+      if (used + row.length + 1 > budget) {
+        break;
+      }
+      lines.push(row);
+      used += row.length + 1;
+    }
+
+    const omitted = rows.length - (lines.length - 1);
+    const note =
+      omitted > 0 ? `\n\n_${omitted} more codeunit(s) not shown._` : "";
+    return lines.join("\n") + note + footer;
+  }
+
+  private _length(parts: string[]): number {
+    return parts.reduce((sum, part) => sum + part.length + 2, 0);
+  }
+
+  private _formatSeconds(seconds: number): string {
+    return seconds >= 60
+      ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`
+      : `${seconds.toFixed(1)}s`;
+  }
+
+  /**
+   * Fenced code block, with a fence longer than any backtick run in the text
+   */
+  private _codeBlock(text: string): string {
+    const body = text.trimEnd();
+    const trimmed =
+      body.length > MAX_DETAIL_LENGTH
+        ? `${body.substring(0, MAX_DETAIL_LENGTH)}\n…`
+        : body;
+    const longest = Math.max(
+      2,
+      ...(trimmed.match(/`+/g) ?? []).map((run) => run.length)
+    );
+    const fence = "`".repeat(longest + 1);
+    return `${fence}\n${trimmed}\n${fence}`;
+  }
+
+  private _inlineCode(text: string): string {
+    return text.replace(/`/g, "'").replace(/\|/g, "\\|");
+  }
+
+  /**
+   * Text for a single line or table cell
+   */
+  private _escapeText(text: string): string {
+    return text
+      .replace(/\r?\n/g, " ")
+      .replace(/([\\`*_[\]<>|])/g, "\\$1")
+      .trim();
+  }
+
+  private _escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
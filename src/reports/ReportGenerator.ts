@@ -6,12 +6,89 @@
 
 import * as path from "path";
 import * as fs from "fs";
-import { AITestResults, TestFailure } from "../powershell/PowerShellRunner";
+import { getFlakyTest } from "../history/flakiness";
+import {
+  getBudgetBreach,
+  getCodeunitBudgetBreach,
+} from "../history/performance";
+import { RunTrends, SlowTest, TrendRun } from "../history/trends";
+import { JUnitWriter } from "./JUnitWriter";
+import { MarkdownWriter } from "./MarkdownWriter";
+import { SarifWriter } from "./SarifWriter";
+import { ReportWriter } from "./ReportWriter";
+import {
+  ComparedRun,
+  RunComparison,
+  TestDurationChange,
+  TestOutcomeChange,
+} from "../results/runComparison";
+import {
+  AITestResults,
+  CompilerDiagnostic,
+  DurationProfile,
+  TestFailure,
+} from "../powershell/PowerShellRunner";
+
+// Formats written by the PowerShell module rather than a report writer
+export const POWERSHELL_FORMATS = ["json", "xml"];
 
 /**
  * HTML Report Generator for test results
  */
 export class ReportGenerator {
+  private readonly _writers = new Map<string, ReportWriter>();
+
+  constructor() {
+    this.registerWriter({
+      format: "html",
+      fileExtension: ".html",
+      write: (results) => this._generateHtml(results),
+    });
+    this.registerWriter(new JUnitWriter());
+    this.registerWriter(new MarkdownWriter());
+    this.registerWriter(new SarifWriter());
+  }
+
+  /**
+   * Register a writer for an output format, replacing any writer of the
+   * same format
+   */
+  registerWriter(writer: ReportWriter): void {
+    this._writers.set(writer.format, writer);
+  }
+
+  /**
+   * Formats accepted in output.formats
+   */
+  getFormats(): string[] {
+    return [...POWERSHELL_FORMATS, ...this._writers.keys()];
+  }
+
+  /**
+   * Write a report for each requested format that has a registered writer.
+   * Returns the report paths by format.
+   */
+  async writeReports(
+    results: AITestResults,
+    outputFolder: string,
+    formats: string[]
+  ): Promise<Map<string, string>> {
+    const timestamp = this._reportTimestamp();
+    const paths = new Map<string, string>();
+
+    for (const format of new Set(formats)) {
+      const writer = this._writers.get(format);
+      if (writer) {
+        paths.set(
+          format,
+          this._writeReport(writer, results, outputFolder, timestamp)
+        );
+      }
+    }
+
+    return paths;
+  }
+
   /**
    * Generate HTML report file
    */
@@ -19,18 +96,39 @@ export class ReportGenerator {
     results: AITestResults,
     outputFolder: string
   ): Promise<string> {
-    const timestamp = new Date()
-      .toISOString()
-      .replace(/[:.]/g, "-")
-      .substring(0, 19);
-    const outputPath = path.join(outputFolder, `TestReport_${timestamp}.html`);
-
-    const html = this._generateHtml(results);
-    fs.writeFileSync(outputPath, html, "utf-8");
+    return this._writeReport(
+      this._writers.get("html")!,
+      results,
+      outputFolder,
+      this._reportTimestamp()
+    );
+  }
 
+  private _writeReport(
+    writer: ReportWriter,
+    results: AITestResults,
+    outputFolder: string,
+    timestamp: string
+  ): string {
+    const outputPath = path.join(
+      outputFolder,
+      `TestReport_${timestamp}${writer.fileExtension}`
+    );
+    fs.writeFileSync(outputPath, writer.write(results), "utf-8");
     return outputPath;
   }
 
+  private _reportTimestamp(): string {
+    return new Date().toISOString().replace(/[:.]/g, "-").substring(0, 19);
+  }
+
+  /**
+   * Generate the Markdown summary of a run, e.g. for a pull request
+   */
+  generateMarkdown(results: AITestResults): string {
+    return this._writers.get("md")!.write(results);
+  }
+
   /**
    * Generate HTML for webview display
    */
@@ -38,6 +136,180 @@ export class ReportGenerator {
     return this._generateHtml(results, true);
   }
 
+  /**
+   * Generate HTML for the webview diff of two runs
+   */
+  generateComparisonWebviewHtml(comparison: RunComparison): string {
+    const { summary } = comparison;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>BC Test Run Comparison</title>
+    <style>
+        ${this._getStyles()}
+    </style>
+</head>
+<body class="vscode-body">
+    <div class="container">
+        <header class="header">
+            <h1>BC Test Run Comparison</h1>
+            <div class="compare-runs">
+                ${this._generateComparedRun("Baseline", comparison.baseline)}
+                <span class="compare-arrow">→</span>
+                ${this._generateComparedRun("Current", comparison.current)}
+            </div>
+        </header>
+
+        <section class="summary-section">
+            <div class="stats-grid">
+                <div class="stat-card failed">
+                    <div class="stat-value">${summary.newFailures}</div>
+                    <div class="stat-label">New Failures</div>
+                </div>
+                <div class="stat-card passed">
+                    <div class="stat-value">${summary.fixed}</div>
+                    <div class="stat-label">Fixed</div>
+                </div>
+                <div class="stat-card">
+                    <div class="stat-value">${summary.stillFailing}</div>
+                    <div class="stat-label">Still Failing</div>
+                </div>
+                <div class="stat-card skipped">
+                    <div class="stat-value">${summary.slower}</div>
+                    <div class="stat-label">Slower</div>
+                </div>
+            </div>
+        </section>
+
+        ${this._generateChangeSection(
+          "❌",
+          "New Failures",
+          comparison.newFailures,
+          true
+        )}
+        ${this._generateChangeSection("✅", "Fixed", comparison.fixed)}
+        ${this._generateSlowerSection(comparison.slower)}
+        ${this._generateChangeSection(
+          "⚠️",
+          "Still Failing",
+          comparison.stillFailing,
+          true
+        )}
+        ${this._generateChangeSection("➕", "Added Tests", comparison.added)}
+        ${this._generateChangeSection(
+          "➖",
+          "Removed Tests",
+          comparison.removed
+        )}
+    </div>
+</body>
+</html>`;
+  }
+
+  /**
+   * Generate HTML for the trend dashboard webview. Charts are inline SVG so
+   * the dashboard works offline; clicking a run posts an "openRun" message
+   * with the index of the run.
+   */
+  generateTrendWebviewHtml(trends: RunTrends): string {
+    const { runs } = trends;
+    const latest = runs[runs.length - 1];
+
+    const body =
+      runs.length === 0
+        ? `<section class="section"><p class="progress-label">No runs in the test history yet</p></section>`
+        : `
+        <section class="summary-section">
+            <div class="stats-grid">
+                <div class="stat-card">
+                    <div class="stat-value">${runs.length}</div>
+                    <div class="stat-label">Runs</div>
+                </div>
+                <div class="stat-card ${latest.success ? "passed" : "failed"}">
+                    <div class="stat-value">${latest.passRate}%</div>
+                    <div class="stat-label">Latest Pass Rate</div>
+                </div>
+                <div class="stat-card">
+                    <div class="stat-value">${latest.total}</div>
+                    <div class="stat-label">Tests</div>
+                </div>
+                <div class="stat-card skipped">
+                    <div class="stat-value">${this._formatSeconds(
+                      latest.duration
+                    )}</div>
+                    <div class="stat-label">Latest Duration</div>
+                </div>
+            </div>
+        </section>
+
+        <div class="trend-grid">
+            ${this._generateTrendChart(
+              "✅",
+              "Pass Rate",
+              runs,
+              (run) => run.passRate,
+              (value) => `${value}%`,
+              "var(--success-color)",
+              100
+            )}
+            ${this._generateTrendChart(
+              "⏱️",
+              "Duration",
+              runs,
+              (run) => run.duration,
+              (value) => this._formatSeconds(value),
+              "var(--info-color)"
+            )}
+            ${this._generateTrendChart(
+              "🧪",
+              "Test Count",
+              runs,
+              (run) => run.total,
+              (value) => String(value),
+              "var(--warning-color)"
+            )}
+        </div>
+
+        ${this._generateSlowestSection(trends.slowestTests)}`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>BC Test Trends</title>
+    <style>
+        ${this._getStyles()}
+    </style>
+</head>
+<body class="vscode-body">
+    <div class="container">
+        <header class="header">
+            <h1>BC Test Trends</h1>
+            <div class="meta">
+                <span>Last ${
+                  runs.length
+                } run(s) from the test history • click a point to open its results</span>
+            </div>
+        </header>
+        ${body}
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        document.querySelectorAll('.trend-point[data-run]').forEach((point) => {
+            point.addEventListener('click', () => {
+                vscode.postMessage({ command: 'openRun', index: Number(point.dataset.run) });
+            });
+        });
+    </script>
+</body>
+</html>`;
+  }
+
   /**
    * Generate the full HTML document
    */
@@ -110,11 +382,17 @@ export class ReportGenerator {
             </div>
             <div class="progress-label">${successRate}% Success Rate • Duration: ${
       results.tests.duration
+    }${
+      summary.passedAfterRetry
+        ? ` • ${summary.passedAfterRetry} passed after retry`
+        : ""
     }</div>
         </section>
 
+        ${this._generateCompilationSection(results)}
         ${this._generateFailuresSection(results)}
         ${this._generateAllTestsSection(results)}
+        ${this._generatePerformanceSection(results)}
         ${this._generateAIContextSection(results)}
         ${this._generateEnvironmentSection(results)}
     </div>
@@ -126,6 +404,74 @@ export class ReportGenerator {
 </html>`;
   }
 
+  /**
+   * Generate compilation section with the per-app results and their errors
+   */
+  private _generateCompilationSection(results: AITestResults): string {
+    const compilation = results.compilation;
+    if (!compilation || compilation.errors.length === 0) {
+      return "";
+    }
+
+    const apps = compilation.apps
+      .map((app) => {
+        const errors = compilation.errors
+          .filter((e) => e.app === app.app)
+          .map((e) => this._generateCompilationError(e))
+          .join("");
+
+        return `
+                <div class="app-result ${app.success ? "success" : "error"}">
+                    <span class="status-icon">${app.success ? "✓" : "✗"}</span>
+                    <strong>${this._escapeHtml(app.app)}</strong>
+                    <span class="duration">${this._escapeHtml(
+                      app.duration
+                    )}</span>
+                </div>
+                ${
+                  errors
+                    ? `<div class="compilation-errors">${errors}</div>`
+                    : ""
+                }
+            `;
+      })
+      .join("");
+
+    return `
+            <section class="section failures-section">
+                <h2 class="section-title">
+                    <span class="icon">🛠️</span> Compilation Errors (${compilation.errors.length})
+                </h2>
+                ${apps}
+            </section>
+        `;
+  }
+
+  /**
+   * Generate a single compiler error line
+   */
+  private _generateCompilationError(error: CompilerDiagnostic): string {
+    const location = error.filePath
+      ? `<code>${this._escapeHtml(error.filePath)}${
+          error.line ? `:${error.line}` : ""
+        }${error.column ? `:${error.column}` : ""}</code>`
+      : "";
+
+    return `
+                    <div class="compilation-error">
+                        ${location}
+                        ${
+                          error.code
+                            ? `<span class="error-code">${this._escapeHtml(
+                                error.code
+                              )}</span>`
+                            : ""
+                        }
+                        ${this._escapeHtml(error.message)}
+                    </div>
+        `;
+  }
+
   /**
    * Generate failures section
    */
@@ -135,7 +481,9 @@ export class ReportGenerator {
     }
 
     const failures = results.tests.failures
-      .map((failure, index) => this._generateFailureCard(failure, index))
+      .map((failure, index) =>
+        this._generateFailureCard(results, failure, index)
+      )
       .join("");
 
     return `
@@ -153,7 +501,11 @@ export class ReportGenerator {
   /**
    * Generate a single failure card
    */
-  private _generateFailureCard(failure: TestFailure, index: number): string {
+  private _generateFailureCard(
+    results: AITestResults,
+    failure: TestFailure,
+    index: number
+  ): string {
     const locationHtml = failure.filePath
       ? `<div class="failure-location">
                 <span class="icon">📍</span>
@@ -173,6 +525,12 @@ export class ReportGenerator {
                     <span class="failure-method">${this._escapeHtml(
                       failure.method
                     )}</span>
+                    ${this._generateFlakyBadge(results, failure)}
+                    ${
+                      failure.attempts
+                        ? `<span class="retry-badge">${failure.attempts} attempts</span>`
+                        : ""
+                    }
                     <span class="failure-duration">${failure.duration}s</span>
                 </div>
                 <div class="failure-name">${this._escapeHtml(
@@ -197,6 +555,26 @@ export class ReportGenerator {
         `;
   }
 
+  /**
+   * Generate the flaky badge of a test, empty for stable tests
+   */
+  private _generateFlakyBadge(
+    results: AITestResults,
+    test: { codeunitId: number; method: string }
+  ): string {
+    const flaky = getFlakyTest(results, test);
+    if (!flaky) {
+      return "";
+    }
+
+    const title = `${flaky.flips} flips in ${
+      flaky.runs
+    } runs, recent: ${flaky.recentOutcomes.join(", ")}`;
+    return `<span class="flaky-badge" title="${this._escapeHtml(
+      title
+    )}">flaky ${Math.round(flaky.flipRate * 100)}%</span>`;
+  }
+
   /**
    * Generate all tests section
    */
@@ -206,6 +584,52 @@ export class ReportGenerator {
       return "";
     }
 
+    // One section per test app when the run covered several
+    const apps = results.tests.apps ?? [];
+    if (apps.length > 1) {
+      return apps
+        .map((app) => {
+          const appTests = tests.filter((test) => test.app === app.app);
+          return `
+            <section class="section">
+                <h2 class="section-title">
+                    <span class="icon">📦</span> ${this._escapeHtml(
+                      app.app
+                    )} (${appTests.length})
+                </h2>
+                <div class="progress-label">${app.summary.passed} passed • ${
+            app.summary.failed
+          } failed • ${app.summary.skipped} skipped • Duration: ${
+            app.duration
+          }</div>
+                <div class="codeunits-list">
+                    ${this._generateCodeunitGroups(results, appTests)}
+                </div>
+            </section>
+        `;
+        })
+        .join("");
+    }
+
+    return `
+            <section class="section">
+                <h2 class="section-title">
+                    <span class="icon">📋</span> All Tests (${tests.length})
+                </h2>
+                <div class="codeunits-list">
+                    ${this._generateCodeunitGroups(results, tests)}
+                </div>
+            </section>
+        `;
+  }
+
+  /**
+   * Generate the collapsible per-codeunit groups of tests
+   */
+  private _generateCodeunitGroups(
+    results: AITestResults,
+    tests: AITestResults["tests"]["allTests"]
+  ): string {
     // Group by codeunit
     const grouped = tests.reduce((acc, test) => {
       if (!acc[test.codeunit]) {
@@ -215,10 +639,13 @@ export class ReportGenerator {
       return acc;
     }, {} as Record<string, typeof tests>);
 
-    const codeunits = Object.entries(grouped)
+    return Object.entries(grouped)
       .map(([codeunit, tests]) => {
         const passed = tests.filter((t) => t.result === "Pass").length;
         const failed = tests.filter((t) => t.result === "Fail").length;
+        const budgetBadge = this._generateBudgetBadge(
+          getCodeunitBudgetBreach(results, tests[0].codeunitId)
+        );
 
         const testRows = tests
           .map((test) => {
@@ -230,7 +657,11 @@ export class ReportGenerator {
                         <td class="status-cell"><span class="status-icon">${statusIcon}</span></td>
                         <td class="method-cell">${this._escapeHtml(
                           test.method
-                        )}</td>
+                        )}${this._generateFlakyBadge(results, test)}${
+              test.passedOnRetry
+                ? `<span class="retry-badge" title="${test.attempts} attempts">passed after retry</span>`
+                : ""
+            }${this._generateBudgetBadge(getBudgetBreach(results, test))}</td>
                         <td class="duration-cell">${test.duration}s</td>
                     </tr>
                 `;
@@ -243,7 +674,7 @@ export class ReportGenerator {
                         <span class="expand-icon">▼</span>
                         <span class="codeunit-name">${this._escapeHtml(
                           codeunit
-                        )}</span>
+                        )}${budgetBadge}</span>
                         <span class="codeunit-stats">
                             <span class="passed">${passed} passed</span>
                             ${
@@ -262,15 +693,97 @@ export class ReportGenerator {
             `;
       })
       .join("");
+  }
+
+  /**
+   * Generate the budget badge of a test or codeunit, empty within budget
+   */
+  private _generateBudgetBadge(breach?: DurationProfile): string {
+    if (!breach) {
+      return "";
+    }
+    return `<span class="budget-badge" title="${breach.duration}s, budget ${breach.budget}s">⚠ over budget</span>`;
+  }
+
+  /**
+   * Generate the performance section: budget breaches, regressions against
+   * the previous runs and the slowest tests
+   */
+  private _generatePerformanceSection(results: AITestResults): string {
+    const performance = results.aiContext.performance;
+    if (!performance || performance.slowestTests.length === 0) {
+      return "";
+    }
+
+    const rows = (
+      profiles: DurationProfile[],
+      detail: (p: DurationProfile) => string
+    ) =>
+      profiles
+        .map(
+          (profile) => `
+                    <tr class="test-row">
+                        <td>${this._escapeHtml(
+                          profile.method
+                            ? `${profile.codeunit}.${profile.method}`
+                            : `Codeunit ${profile.codeunit} (${profile.codeunitId})`
+                        )}</td>
+                        <td class="duration-cell">${profile.duration}s</td>
+                        <td class="duration-cell">${detail(profile)}</td>
+                    </tr>
+                `
+        )
+        .join("");
+
+    const table = (title: string, body: string) =>
+      body
+        ? `
+                <h4 class="performance-title">${title}</h4>
+                <table class="tests-table">
+                    <tbody>
+                        ${body}
+                    </tbody>
+                </table>
+            `
+        : "";
 
     return `
             <section class="section">
                 <h2 class="section-title">
-                    <span class="icon">📋</span> All Tests (${tests.length})
+                    <span class="icon">⏱️</span> Performance
+                    ${
+                      performance.budgetBreaches.length > 0
+                        ? `<span class="budget-badge">${performance.budgetBreaches.length} over budget</span>`
+                        : ""
+                    }
                 </h2>
-                <div class="codeunits-list">
-                    ${codeunits}
-                </div>
+                ${table(
+                  "⚠ Over Budget",
+                  rows(performance.budgetBreaches, (p) => `budget ${p.budget}s`)
+                )}
+                ${table(
+                  "🐢 Slower Than Usual",
+                  rows(
+                    performance.regressions,
+                    (p) => `median ${p.medianDuration}s`
+                  )
+                )}
+                ${table(
+                  "Slowest Tests",
+                  rows(performance.slowestTests, (p) =>
+                    p.medianDuration !== undefined
+                      ? `median ${p.medianDuration}s`
+                      : ""
+                  )
+                )}
+                ${table(
+                  "Slowest Codeunits",
+                  rows(performance.slowestCodeunits, (p) =>
+                    p.medianDuration !== undefined
+                      ? `median ${p.medianDuration}s`
+                      : ""
+                  )
+                )}
             </section>
         `;
   }
@@ -324,6 +837,252 @@ export class ReportGenerator {
         `;
   }
 
+  /**
+   * Generate the description of a compared run
+   */
+  private _generateComparedRun(label: string, run: ComparedRun): string {
+    return `
+                <div class="compare-run">
+                    <div class="stat-label">${label}</div>
+                    <div>${new Date(run.timestamp).toLocaleString()}</div>
+                    <div class="compare-run-meta">${this._escapeHtml(
+                      run.environment
+                    )} • ${run.summary.passed}/${run.summary.total} passed</div>
+                </div>
+            `;
+  }
+
+  /**
+   * Generate a comparison section listing tests whose outcome changed
+   */
+  private _generateChangeSection(
+    icon: string,
+    title: string,
+    changes: TestOutcomeChange[],
+    showError: boolean = false
+  ): string {
+    if (changes.length === 0) {
+      return "";
+    }
+
+    const rows = changes
+      .map(
+        (change) => `
+                    <tr class="test-row">
+                        <td>${this._escapeHtml(change.codeunit)}</td>
+                        <td class="method-cell">${this._escapeHtml(
+                          change.method
+                        )}</td>
+                        <td class="duration-cell">${
+                          change.baselineResult ?? "-"
+                        } → ${change.currentResult ?? "-"}</td>
+                    </tr>
+                    ${
+                      showError && change.error
+                        ? `<tr class="test-row"><td colspan="3"><pre class="compare-error">${this._escapeHtml(
+                            change.error
+                          )}</pre></td></tr>`
+                        : ""
+                    }
+                `
+      )
+      .join("");
+
+    return `
+            <section class="section">
+                <h2 class="section-title">
+                    <span class="icon">${icon}</span> ${title} (${changes.length})
+                </h2>
+                <table class="tests-table">
+                    <tbody>
+                        ${rows}
+                    </tbody>
+                </table>
+            </section>
+        `;
+  }
+
+  /**
+   * Generate the comparison section of tests that got slower
+   */
+  private _generateSlowerSection(slower: TestDurationChange[]): string {
+    if (slower.length === 0) {
+      return "";
+    }
+
+    const rows = slower
+      .map(
+        (change) => `
+                    <tr class="test-row">
+                        <td>${this._escapeHtml(change.codeunit)}</td>
+                        <td class="method-cell">${this._escapeHtml(
+                          change.method
+                        )}</td>
+                        <td class="duration-cell">${
+                          change.baselineDuration
+                        }s → ${change.currentDuration}s</td>
+                        <td class="duration-cell">×${change.ratio}</td>
+                    </tr>
+                `
+      )
+      .join("");
+
+    return `
+            <section class="section">
+                <h2 class="section-title">
+                    <span class="icon">🐢</span> Slower (${slower.length})
+                </h2>
+                <table class="tests-table">
+                    <tbody>
+                        ${rows}
+                    </tbody>
+                </table>
+            </section>
+        `;
+  }
+
+  /**
+   * Generate a line chart of a value per run as inline SVG
+   */
+  private _generateTrendChart(
+    icon: string,
+    title: string,
+    runs: TrendRun[],
+    value: (run: TrendRun) => number,
+    format: (value: number) => string,
+    color: string,
+    max?: number
+  ): string {
+    const width = 600;
+    const height = 200;
+    const left = 60;
+    const right = 20;
+    const top = 15;
+    const bottom = 25;
+
+    const values = runs.map(value);
+    const scaleMax = max ?? (Math.max(...values) || 1);
+    const x = (index: number) =>
+      runs.length > 1
+        ? left + (index * (width - left - right)) / (runs.length - 1)
+        : left + (width - left - right) / 2;
+    const y = (v: number) => top + (1 - v / scaleMax) * (height - top - bottom);
+
+    const line = values
+      .map((v, index) => `${x(index).toFixed(1)},${y(v).toFixed(1)}`)
+      .join(" ");
+
+    const points = runs
+      .map((run, index) => {
+        const tooltip = `${new Date(run.timestamp).toLocaleString()} • ${
+          run.environment
+        }${
+          run.commit ? ` • ${run.commit.substring(0, 7)}` : ""
+        }\n${title}: ${format(values[index])} • ${run.passed}/${
+          run.total
+        } passed`;
+        return `<circle class="trend-point${run.success ? "" : " failed"}"${
+          run.resultFile ? ` data-run="${index}"` : ""
+        } cx="${x(index).toFixed(1)}" cy="${y(values[index]).toFixed(
+          1
+        )}" r="5"><title>${this._escapeHtml(tooltip)}</title></circle>`;
+      })
+      .join("");
+
+    return `
+            <section class="section trend-chart">
+                <h2 class="section-title">
+                    <span class="icon">${icon}</span> ${title}
+                </h2>
+                <svg viewBox="0 0 ${width} ${height}" role="img" aria-label="${title} per run">
+                    <line class="trend-axis" x1="${left}" y1="${y(
+      scaleMax
+    )}" x2="${width - right}" y2="${y(scaleMax)}" />
+                    <line class="trend-axis" x1="${left}" y1="${y(0)}" x2="${
+      width - right
+    }" y2="${y(0)}" />
+                    <text class="trend-label" x="${left - 8}" y="${
+      y(scaleMax) + 4
+    }" text-anchor="end">${this._escapeHtml(format(scaleMax))}</text>
+                    <text class="trend-label" x="${left - 8}" y="${
+      y(0) + 4
+    }" text-anchor="end">${this._escapeHtml(format(0))}</text>
+                    <polyline class="trend-line" points="${line}" style="stroke: ${color}" />
+                    ${points}
+                </svg>
+            </section>
+        `;
+  }
+
+  /**
+   * Generate the trend section of the slowest tests, with a sparkline of
+   * each test's duration over the runs
+   */
+  private _generateSlowestSection(slowest: SlowTest[]): string {
+    if (slowest.length === 0) {
+      return "";
+    }
+
+    const rows = slowest
+      .map((test) => {
+        const measured = test.durations.filter(
+          (d): d is number => d !== undefined
+        );
+        const max = Math.max(...measured) || 1;
+        const step = 120 / Math.max(test.durations.length - 1, 1);
+        const sparkline = test.durations
+          .map((d, index) =>
+            d === undefined
+              ? undefined
+              : `${(index * step).toFixed(1)},${(22 - (d / max) * 20).toFixed(
+                  1
+                )}`
+          )
+          .filter(Boolean)
+          .join(" ");
+
+        return `
+                    <tr class="test-row">
+                        <td>${this._escapeHtml(test.codeunit)}</td>
+                        <td class="method-cell">${this._escapeHtml(
+                          test.method
+                        )}</td>
+                        <td><svg class="trend-sparkline" viewBox="0 0 120 24"><polyline class="trend-line" points="${sparkline}" /></svg></td>
+                        <td class="duration-cell" title="Average">${this._formatSeconds(
+                          test.averageDuration
+                        )}</td>
+                        <td class="duration-cell" title="Latest">${this._formatSeconds(
+                          test.latestDuration
+                        )}</td>
+                    </tr>
+                `;
+      })
+      .join("");
+
+    return `
+            <section class="section">
+                <h2 class="section-title">
+                    <span class="icon">🐢</span> Slowest Tests
+                    <span class="progress-label">average • latest</span>
+                </h2>
+                <table class="tests-table">
+                    <tbody>
+                        ${rows}
+                    </tbody>
+                </table>
+            </section>
+        `;
+  }
+
+  /**
+   * Format a duration in seconds for display
+   */
+  private _formatSeconds(seconds: number): string {
+    return seconds >= 60
+      ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`
+      : `${Math.round(seconds * 10) / 10}s`;
+  }
+
   /**
    * Generate environment section
    */
@@ -514,6 +1273,38 @@ export class ReportGenerator {
             .badge.success { background: var(--success-color); color: white; }
             .badge.error { background: var(--error-color); color: white; }
 
+            .retry-badge {
+                background: var(--info-color);
+                color: white;
+                padding: 1px 8px;
+                margin-left: 8px;
+                border-radius: 10px;
+                font-size: 0.75em;
+            }
+
+            .flaky-badge {
+                background: var(--warning-color);
+                color: #1e1e1e;
+                padding: 1px 8px;
+                margin-left: 8px;
+                border-radius: 10px;
+                font-size: 0.75em;
+            }
+
+            .budget-badge {
+                background: var(--warning-color);
+                color: #1e1e1e;
+                padding: 1px 8px;
+                margin-left: 8px;
+                border-radius: 10px;
+                font-size: 0.75em;
+            }
+
+            .performance-title {
+                margin: 15px 0 5px;
+                color: var(--text-muted);
+            }
+
             .failure-card {
                 background: rgba(220, 53, 69, 0.1);
                 border: 1px solid var(--error-color);
@@ -639,6 +1430,80 @@ export class ReportGenerator {
             .test-row.skip .status-icon { color: var(--warning-color); }
 
             .status-cell { width: 30px; }
+
+            .compare-runs {
+                display: flex;
+                align-items: center;
+                gap: 20px;
+                margin-top: 10px;
+            }
+
+            .compare-arrow {
+                font-size: 1.5em;
+                color: var(--text-muted);
+            }
+
+            .compare-run-meta {
+                color: var(--text-muted);
+                font-size: 0.9em;
+            }
+
+            .compare-error {
+                white-space: pre-wrap;
+                color: var(--error-color);
+                font-size: 0.85em;
+            }
+
+            .trend-grid {
+                display: grid;
+                grid-template-columns: repeat(auto-fit, minmax(450px, 1fr));
+                gap: 0 20px;
+            }
+
+            .trend-chart svg {
+                width: 100%;
+                height: auto;
+            }
+
+            .trend-axis {
+                stroke: var(--border-color);
+                stroke-width: 1;
+            }
+
+            .trend-label {
+                fill: var(--text-muted);
+                font-size: 12px;
+            }
+
+            .trend-line {
+                fill: none;
+                stroke: var(--info-color);
+                stroke-width: 2;
+            }
+
+            .trend-point {
+                fill: var(--success-color);
+                stroke: var(--card-bg);
+                stroke-width: 2;
+            }
+
+            .trend-point.failed {
+                fill: var(--error-color);
+            }
+
+            .trend-point[data-run] {
+                cursor: pointer;
+            }
+
+            .trend-point[data-run]:hover {
+                stroke: var(--text-color);
+            }
+
+            .trend-sparkline {
+                width: 120px;
+                height: 24px;
+                vertical-align: middle;
+            }
             .duration-cell { width: 80px; text-align: right; color: var(--text-muted); }
 
             .ai-section {
@@ -0,0 +1,19 @@
+/**
+ * BC Test Runner - Report Writer
+ *
+ * Contract for the output formats registered with the ReportGenerator.
+ */
+
+import { AITestResults } from "../powershell/PowerShellRunner";
+
+/**
+ * Writes results in one output format
+ */
+export interface ReportWriter {
+  /** Name of the format in output.formats */
+  readonly format: string;
+  /** File extension of the report, including the leading dot */
+  readonly fileExtension: string;
+  /** Render the report content */
+  write(results: AITestResults): string;
+}
@@ -0,0 +1,247 @@
+/**
+ * BC Test Runner - SARIF Writer
+ *
+ * Writes test failures and compiler diagnostics as a SARIF 2.1.0 log for
+ * SARIF viewers and code scanning dashboards. Failed tests are reported
+ * under one rule per codeunit, compiler diagnostics under their AL code.
+ */
+
+import {
+  AITestResults,
+  CompilerDiagnostic,
+  TestFailure,
+} from "../powershell/PowerShellRunner";
+import { testKey } from "../results/resultsMerger";
+import { ReportWriter } from "./ReportWriter";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+// Base of relative file paths, resolved by the consumer to the source root
+const SOURCE_ROOT = "SRCROOT";
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  properties?: Record<string, unknown>;
+}
+
+interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation: { uri: string; uriBaseId?: string };
+    region?: {
+      startLine: number;
+      startColumn?: number;
+      endLine?: number;
+      endColumn?: number;
+    };
+  };
+  logicalLocations?: { fullyQualifiedName: string; kind: string }[];
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: "error" | "warning" | "note";
+  message: { text: string };
+  locations: SarifLocation[];
+  partialFingerprints?: Record<string, string>;
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * SARIF 2.1.0 report writer
+ */
+export class SarifWriter implements ReportWriter {
+  readonly format = "sarif";
+  readonly fileExtension = ".sarif";
+
+  /**
+   * Render failures and compiler diagnostics as a SARIF log
+   */
+  write(results: AITestResults): string {
+    const rules: SarifRule[] = [];
+    const ruleIndexes = new Map<string, number>();
+    const getRuleIndex = (rule: SarifRule): number => {
+      let index = ruleIndexes.get(rule.id);
+      if (index === undefined) {
+        index = rules.push(rule) - 1;
+        ruleIndexes.set(rule.id, index);
+      }
+      return index;
+    };
+
+    const sarifResults: SarifResult[] = [];
+
+    const compilation = results.compilation;
+    if (compilation) {
+      for (const diagnostic of [
+        ...compilation.errors,
+        ...compilation.warnings,
+      ]) {
+        const rule = this._diagnosticRule(diagnostic);
+        sarifResults.push(
+          this._diagnosticResult(diagnostic, rule.id, getRuleIndex(rule))
+        );
+      }
+    }
+
+    for (const failure of results.tests.failures) {
+      const rule = this._failureRule(failure);
+      sarifResults.push(
+        this._failureResult(failure, rule.id, getRuleIndex(rule))
+      );
+    }
+
+    const log = {
+      $schema: SARIF_SCHEMA,
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: "BC Test Runner",
+              rules,
+            },
+          },
+          invocations: [
+            {
+              executionSuccessful:
+                results.tests.success &&
+                (compilation === undefined || compilation.success),
+              endTimeUtc: results.timestamp,
+            },
+          ],
+          originalUriBaseIds: {
+            [SOURCE_ROOT]: { description: { text: "Workspace root" } },
+          },
+          results: sarifResults,
+          properties: {
+            environment: results.environment.name,
+            summary: results.tests.summary,
+          },
+        },
+      ],
+    };
+
+    return JSON.stringify(log, null, 2) + "\n";
+  }
+
+  private _failureRule(failure: TestFailure): SarifRule {
+    return {
+      id: `BCTEST/${failure.codeunitId}`,
+      name: failure.codeunit.replace(/[^A-Za-z0-9]/g, "") || "TestCodeunit",
+      shortDescription: {
+        text: `Failing test in codeunit ${failure.codeunitId} "${failure.codeunit}"`,
+      },
+      properties: { codeunit: failure.codeunit, tags: ["test"] },
+    };
+  }
+
+  private _failureResult(
+    failure: TestFailure,
+    ruleId: string,
+    ruleIndex: number
+  ): SarifResult {
+    const location: SarifLocation = {
+      logicalLocations: [
+        {
+          fullyQualifiedName: `${failure.codeunit}.${failure.method}`,
+          kind: "function",
+        },
+      ],
+    };
+    if (failure.filePath) {
+      location.physicalLocation = {
+        artifactLocation: this._artifactLocation(failure.filePath),
+        region: failure.lineNumber
+          ? { startLine: failure.lineNumber }
+          : undefined,
+      };
+    }
+
+    return {
+      ruleId,
+      ruleIndex,
+      level: "error",
+      message: {
+        text: `${failure.method}: ${failure.error || "Test failed"}`,
+      },
+      locations: [location],
+      partialFingerprints: { testKey: testKey(failure) },
+      properties: {
+        codeunit: failure.codeunit,
+        codeunitId: failure.codeunitId,
+        method: failure.method,
+        stackTrace: failure.stackTrace,
+        attempts: failure.attempts,
+      },
+    };
+  }
+
+  private _diagnosticRule(diagnostic: CompilerDiagnostic): SarifRule {
+    return {
+      id: diagnostic.code,
+      name: diagnostic.code,
+      shortDescription: { text: `AL compiler diagnostic ${diagnostic.code}` },
+      properties: { tags: ["compiler"] },
+    };
+  }
+
+  private _diagnosticResult(
+    diagnostic: CompilerDiagnostic,
+    ruleId: string,
+    ruleIndex: number
+  ): SarifResult {
+    const locations: SarifLocation[] = [];
+    if (diagnostic.filePath) {
+      locations.push({
+        physicalLocation: {
+          artifactLocation: this._artifactLocation(diagnostic.filePath),
+          region: diagnostic.line
+            ? {
+                startLine: diagnostic.line,
+                startColumn: diagnostic.column,
+                endLine: diagnostic.endLine,
+                endColumn: diagnostic.endColumn,
+              }
+            : undefined,
+        },
+      });
+    }
+
+    return {
+      ruleId,
+      ruleIndex,
+      level:
+        diagnostic.severity === "info"
+          ? "note"
+          : diagnostic.severity === "warning"
+          ? "warning"
+          : "error",
+      message: { text: diagnostic.message },
+      locations,
+      properties: { app: diagnostic.app },
+    };
+  }
+
+  /**
+   * File URI for absolute paths, a URI relative to the source root otherwise
+   */
+  private _artifactLocation(filePath: string): {
+    uri: string;
+    uriBaseId?: string;
+  } {
+    const normalized = filePath.replace(/\\/g, "/");
+    if (/^[A-Za-z]:\//.test(normalized)) {
+      return { uri: encodeURI(`file:///${normalized}`) };
+    }
+    if (normalized.startsWith("/")) {
+      return { uri: encodeURI(`file://${normalized}`) };
+    }
+    return {
+      uri: encodeURI(normalized.replace(/^\.\//, "")),
+      uriBaseId: SOURCE_ROOT,
+    };
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * BC Test Runner - AL Compiler Output Parser
+ *
+ * Parses the alc output captured by Compile-ALApp into typed compiler
+ * diagnostics, and adds them to the compile results and AI results.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AITestResults,
+  AppCompileResult,
+  CompilationResult,
+  CompilationSummary,
+  CompilerDiagnostic,
+  ErrorLocation,
+} from "../powershell/PowerShellRunner";
+
+// Matches "File.al(12,5): error AL0118: Message" and the variant with an
+// end position "(12,5,12,9)". The location is absent for project-level
+// diagnostics such as missing symbols.
+const DIAGNOSTIC_PATTERN =
+  /^\s*(?:(.+?)\((\d+),(\d+)(?:,(\d+),(\d+))?\)\s*:\s*)?(error|warning|info)\s+([A-Za-z]+\d+)\s*:\s*(.*?)\s*$/i;
+
+// Compile errors listed individually in the suggested actions
+const MAX_SUGGESTED_ERRORS = 10;
+
+/**
+ * Parse a single line of compiler output
+ */
+export function parseAlcLine(
+  line: string,
+  app: string = ""
+): CompilerDiagnostic | undefined {
+  const match = DIAGNOSTIC_PATTERN.exec(line);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, file, line1, column1, line2, column2, severity, code, message] =
+    match;
+
+  return {
+    app,
+    filePath: file?.trim() || undefined,
+    line: line1 ? parseInt(line1, 10) : undefined,
+    column: column1 ? parseInt(column1, 10) : undefined,
+    endLine: line2 ? parseInt(line2, 10) : undefined,
+    endColumn: column2 ? parseInt(column2, 10) : undefined,
+    code: code.toUpperCase(),
+    severity: severity.toLowerCase() as CompilerDiagnostic["severity"],
+    message,
+  };
+}
+
+/**
+ * Parse the compiler output of an app. Duplicate diagnostics are reported
+ * once, and file paths are resolved against the app folder.
+ */
+export function parseAlcOutput(
+  output: string[],
+  app: string = "",
+  appPath?: string
+): CompilerDiagnostic[] {
+  const diagnostics: CompilerDiagnostic[] = [];
+  const seen = new Set<string>();
+
+  for (const line of output) {
+    const diagnostic = parseAlcLine(line, app);
+    if (!diagnostic) {
+      continue;
+    }
+
+    const key = [
+      diagnostic.filePath,
+      diagnostic.line,
+      diagnostic.column,
+      diagnostic.code,
+      diagnostic.message,
+    ].join("|");
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    if (diagnostic.filePath && appPath) {
+      diagnostic.filePath = resolveSourcePath(diagnostic.filePath, appPath);
+    }
+    diagnostics.push(diagnostic);
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Build the typed compile result from the compile phase summary
+ */
+export function buildCompilationResult(
+  summary: CompilationSummary
+): CompilationResult {
+  const errors: CompilerDiagnostic[] = [];
+  const warnings: CompilerDiagnostic[] = [];
+
+  for (const app of summary.apps) {
+    for (const diagnostic of parseAppOutput(app)) {
+      if (diagnostic.severity === "error") {
+        errors.push(diagnostic);
+      } else {
+        warnings.push(diagnostic);
+      }
+    }
+  }
+
+  // A failed app without parsable output still needs an error to show
+  for (const app of summary.apps) {
+    if (!app.success && !errors.some((e) => e.app === app.app)) {
+      errors.push({
+        app: app.app,
+        code: "",
+        severity: "error",
+        message: app.error || `Compilation of ${app.app} failed`,
+      });
+    }
+  }
+
+  return {
+    success: summary.success,
+    apps: summary.apps,
+    duration: summary.duration,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Replace the compile summary of AI results with the typed compile result,
+ * adding the errors to the error locations and suggested actions
+ */
+export function applyCompilationResult(results: AITestResults): AITestResults {
+  if (!results.compilation) {
+    return results;
+  }
+
+  const compilation = buildCompilationResult(results.compilation);
+
+  const testLocations = (results.aiContext.errorLocations ?? []).filter(
+    (location) => location.type !== "compilation-error"
+  );
+  const compileLocations: ErrorLocation[] = compilation.errors.map((e) => ({
+    type: "compilation-error",
+    file: e.filePath,
+    line: e.line,
+    column: e.column,
+    code: e.code || undefined,
+    message: e.message,
+  }));
+
+  const compileActions = compilation.errors
+    .slice(0, MAX_SUGGESTED_ERRORS)
+    .map((e) => `Fix ${describeDiagnostic(e)}`);
+  if (compilation.errors.length > MAX_SUGGESTED_ERRORS) {
+    compileActions.push(
+      `Fix ${
+        compilation.errors.length - MAX_SUGGESTED_ERRORS
+      } more compilation error(s)`
+    );
+  }
+  const previousActions = results.aiContext.suggestedActions.filter(
+    (action) => !action.startsWith("Fix ")
+  );
+
+  return {
+    ...results,
+    compilation,
+    aiContext: {
+      ...results.aiContext,
+      suggestedActions: compilation.success
+        ? previousActions
+        : [
+            "Fix compilation errors before running tests",
+            ...compileActions,
+            ...previousActions,
+          ],
+      errorLocations: [...compileLocations, ...testLocations],
+    },
+  };
+}
+
+/**
+ * One-line description of a compiler diagnostic
+ */
+export function describeDiagnostic(diagnostic: CompilerDiagnostic): string {
+  const location = diagnostic.filePath
+    ? `${diagnostic.filePath}${diagnostic.line ? `:${diagnostic.line}` : ""}${
+        diagnostic.column ? `:${diagnostic.column}` : ""
+      }`
+    : diagnostic.app;
+  return `${diagnostic.code || diagnostic.severity} in ${location}: ${
+    diagnostic.message
+  }`;
+}
+
+function parseAppOutput(app: AppCompileResult): CompilerDiagnostic[] {
+  return parseAlcOutput(app.output ?? [], app.app, app.path || undefined);
+}
+
+/**
+ * Map a path reported by the compiler to a file in the app folder.
+ * Paths inside the container differ from the host path, so the longest
+ * trailing part of the path that exists under the app folder is used.
+ */
+function resolveSourcePath(filePath: string, appPath: string): string {
+  if (fs.existsSync(filePath)) {
+    return filePath;
+  }
+
+  const segments = filePath.split(/[\\/]+/).filter((s) => s.length > 0);
+  for (let start = 0; start < segments.length; start++) {
+    const candidate = path.join(appPath, ...segments.slice(start));
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+
+  return filePath;
+}
@@ -0,0 +1,52 @@
+/**
+ * BC Test Runner - Durations
+ *
+ * Conversions between the duration formats of the result files: test
+ * durations are seconds ("1.25"), run durations are .NET TimeSpans
+ * ("00:01:02.5000000").
+ */
+
+// Matches [d.]hh:mm:ss[.fffffff]
+const TIMESPAN_PATTERN = /^(?:(\d+)\.)?(\d+):(\d+):(\d+(?:\.\d+)?)$/;
+
+/**
+ * Parse a duration in seconds or TimeSpan format into seconds.
+ * Returns 0 for empty or unrecognized values.
+ */
+export function parseDuration(value: string | number | undefined): number {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : 0;
+  }
+  if (!value) {
+    return 0;
+  }
+
+  const match = TIMESPAN_PATTERN.exec(value.trim());
+  if (match) {
+    const [, days, hours, minutes, seconds] = match;
+    return (
+      (Number(days) || 0) * 86400 +
+      Number(hours) * 3600 +
+      Number(minutes) * 60 +
+      Number(seconds)
+    );
+  }
+
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? seconds : 0;
+}
+
+/**
+ * Format seconds like a .NET TimeSpan (hh:mm:ss.fffffff)
+ */
+export function formatTimeSpan(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const [whole, fraction] = secs.toFixed(7).split(".");
+  return `${pad(hours)}:${pad(minutes)}:${whole.padStart(2, "0")}.${fraction}`;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
@@ -0,0 +1,188 @@
+/**
+ * BC Test Runner - Results Merger
+ *
+ * Combines a partial re-run into a previous result set so consumers see
+ * the complete picture of the latest outcome for every test.
+ */
+
+import {
+  AITestResults,
+  ErrorLocation,
+  TestAppSummary,
+  TestFailure,
+  TestResult,
+} from "../powershell/PowerShellRunner";
+import { parseDuration } from "./duration";
+
+/**
+ * Key identifying a test across runs
+ */
+export function testKey(test: { codeunitId: number; method: string }): string {
+  return `${test.codeunitId}:${test.method}`;
+}
+
+/**
+ * Merge the outcomes of a re-run into a previous result set.
+ * Tests present in the re-run replace their previous outcome, and the
+ * suggested actions and error locations are rebuilt from the merged
+ * failures. Flaky tests and the performance profile come from the history
+ * and are refreshed when the merged set is recorded.
+ */
+export function mergeResults(
+  previous: AITestResults,
+  rerun: AITestResults
+): AITestResults {
+  const rerunKeys = new Set(rerun.tests.allTests.map(testKey));
+
+  const allTests: TestResult[] = previous.tests.allTests.map((test) => {
+    const replacement = rerun.tests.allTests.find(
+      (t) => testKey(t) === testKey(test)
+    );
+    return replacement ?? test;
+  });
+  for (const test of rerun.tests.allTests) {
+    if (!allTests.some((t) => testKey(t) === testKey(test))) {
+      allTests.push(test);
+    }
+  }
+
+  const failures: TestFailure[] = [
+    ...previous.tests.failures.filter((f) => !rerunKeys.has(testKey(f))),
+    ...rerun.tests.failures,
+  ];
+
+  const summary = summarize(allTests);
+  const error = rerun.tests.error ?? previous.tests.error;
+
+  return {
+    ...previous,
+    timestamp: rerun.timestamp,
+    tests: {
+      ...previous.tests,
+      success: summary.failed === 0 && summary.total > 0 && !error,
+      summary,
+      error,
+      failures,
+      allTests,
+      apps: summarizeApps(
+        combineApps([previous.tests.apps, rerun.tests.apps]),
+        allTests
+      ),
+    },
+    aiContext: {
+      ...previous.aiContext,
+      suggestedActions: buildSuggestedActions(failures),
+      errorLocations: [
+        ...(previous.aiContext.errorLocations ?? []).filter(
+          (location) => location.type !== "test-failure"
+        ),
+        ...buildErrorLocations(failures),
+      ],
+    },
+  };
+}
+
+/**
+ * Recalculate the summary counts for a list of tests
+ */
+export function summarize(
+  tests: TestResult[]
+): AITestResults["tests"]["summary"] {
+  return {
+    total: tests.length,
+    passed: tests.filter((t) => t.result === "Pass").length,
+    failed: tests.filter((t) => t.result === "Fail").length,
+    skipped: tests.filter((t) => t.result === "Skip").length,
+  };
+}
+
+/**
+ * Recalculate the per-app summaries of a result set from its tests
+ */
+export function summarizeApps(
+  apps: TestAppSummary[] | undefined,
+  tests: TestResult[]
+): TestAppSummary[] | undefined {
+  return apps?.map((app) => {
+    const appTests = tests.filter((t) => t.app === app.app);
+    const summary = summarize(appTests);
+    const passedAfterRetry = appTests.filter((t) => t.passedOnRetry).length;
+    return {
+      ...app,
+      success: summary.failed === 0 && summary.total > 0,
+      summary:
+        passedAfterRetry > 0 ? { ...summary, passedAfterRetry } : summary,
+    };
+  });
+}
+
+/**
+ * Combine the test apps of several result sets, keeping the longest
+ * duration of each app
+ */
+export function combineApps(
+  lists: (TestAppSummary[] | undefined)[]
+): TestAppSummary[] | undefined {
+  if (lists.every((apps) => !apps)) {
+    return undefined;
+  }
+
+  const combined = new Map<string, TestAppSummary>();
+  for (const app of lists.flatMap((apps) => apps ?? [])) {
+    const existing = combined.get(app.app);
+    if (
+      !existing ||
+      parseDuration(app.duration) > parseDuration(existing.duration)
+    ) {
+      combined.set(app.app, app);
+    }
+  }
+  return [...combined.values()];
+}
+
+/**
+ * Build suggested actions the same way the PowerShell export does
+ */
+export function buildSuggestedActions(failures: TestFailure[]): string[] {
+  if (failures.length === 0) {
+    return ["All tests passed - consider adding more test coverage"];
+  }
+
+  const actions = [`Review ${failures.length} failing test(s)`];
+
+  const byCodeunit = new Map<string, number>();
+  for (const failure of failures) {
+    byCodeunit.set(
+      failure.codeunit,
+      (byCodeunit.get(failure.codeunit) ?? 0) + 1
+    );
+  }
+  for (const [codeunit, count] of byCodeunit) {
+    actions.push(`Investigate ${count} failure(s) in ${codeunit}`);
+  }
+
+  const files = new Set(
+    failures.filter((f) => f.filePath).map((f) => f.filePath as string)
+  );
+  for (const file of files) {
+    actions.push(`Check file: ${file}`);
+  }
+
+  return actions;
+}
+
+/**
+ * Error locations of the failures that have a file or line
+ */
+export function buildErrorLocations(failures: TestFailure[]): ErrorLocation[] {
+  return failures
+    .filter((f) => f.filePath || f.lineNumber !== undefined)
+    .map((f) => ({
+      type: "test-failure",
+      file: f.filePath,
+      line: f.lineNumber,
+      codeunit: f.codeunit,
+      method: f.method,
+      message: f.error,
+    }));
+}
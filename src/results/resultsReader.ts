@@ -0,0 +1,124 @@
+/**
+ * BC Test Runner - Results Reader
+ *
+ * Loads result files from the results folder without starting PowerShell.
+ * The AI JSON files are preferred; a bare XUnit XML file is parsed when no
+ * AI file exists for a run.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { AITestResults } from "../powershell/PowerShellRunner";
+import { applyCompilationResult } from "./alcOutputParser";
+import { AITestResultsSchema } from "./schemas";
+import { parseXUnitFile, XUnitParseOptions } from "./xunitParser";
+
+const AI_RESULTS_SUFFIX = "_AI.json";
+const XUNIT_PATTERN = /^TestResults_.*\.xml$/i;
+
+/**
+ * Read and validate an *_AI.json result file
+ */
+export function readAIResultsFile(filePath: string): AITestResults {
+  const content = fs.readFileSync(filePath, "utf-8").replace(/^\uFEFF/, "");
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in ${path.basename(filePath)}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const parsed = AITestResultsSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+      .join("; ");
+    throw new Error(
+      `Invalid results file ${path.basename(filePath)}: ${issues}`
+    );
+  }
+
+  // Result files written by the module carry the raw compiler output only
+  const results = applyCompilationResult(parsed.data);
+  results.FilePath = filePath;
+  return results;
+}
+
+/**
+ * Read a result file, either AI JSON or XUnit XML
+ */
+export function readResultsFile(
+  filePath: string,
+  options?: XUnitParseOptions
+): AITestResults {
+  if (filePath.toLowerCase().endsWith(".xml")) {
+    const results = parseXUnitFile(filePath, options);
+    results.FilePath = filePath;
+    return results;
+  }
+  return readAIResultsFile(filePath);
+}
+
+/**
+ * Result files in a folder, newest first.
+ * XUnit files are only listed when the folder has no AI JSON file.
+ */
+export function listResultsFiles(resultsFolder: string): string[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(resultsFolder);
+  } catch {
+    return [];
+  }
+
+  const aiFiles = names.filter((n) => n.endsWith(AI_RESULTS_SUFFIX));
+  const candidates =
+    aiFiles.length > 0 ? aiFiles : names.filter((n) => XUNIT_PATTERN.test(n));
+
+  const files: { file: string; mtime: number }[] = [];
+  for (const name of candidates) {
+    const file = path.join(resultsFolder, name);
+    try {
+      files.push({ file, mtime: fs.statSync(file).mtimeMs });
+    } catch {
+      // File removed while scanning
+    }
+  }
+
+  return files.sort((a, b) => b.mtime - a.mtime).map(({ file }) => file);
+}
+
+/**
+ * Find the most recent result file in a folder.
+ * XUnit files are only considered when the folder has no AI JSON file.
+ */
+export function findLatestResultsFile(
+  resultsFolder: string
+): string | undefined {
+  return listResultsFiles(resultsFolder)[0];
+}
+
+/**
+ * Load the latest results, or a specific file relative to the results
+ * folder. Returns undefined when there are no results yet.
+ */
+export function loadLatestResults(
+  resultsFolder: string,
+  resultFile?: string,
+  options?: XUnitParseOptions
+): AITestResults | undefined {
+  const filePath = resultFile
+    ? path.resolve(resultsFolder, resultFile)
+    : findLatestResultsFile(resultsFolder);
+
+  if (!filePath || !fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  return readResultsFile(filePath, options);
+}
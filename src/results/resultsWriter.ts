@@ -0,0 +1,38 @@
+/**
+ * BC Test Runner - Results Writer
+ *
+ * Saves result sets that were changed after the run back to their AI JSON
+ * file, so the file stays the single source for agents and later sessions,
+ * and removes the intermediate result files of merged runs.
+ */
+
+import * as fs from "fs";
+import { AITestResults } from "../powershell/PowerShellRunner";
+
+/**
+ * Write a result set to its AI JSON file (results.FilePath)
+ */
+export function writeAIResultsFile(results: AITestResults): void {
+  if (!results.FilePath) {
+    return;
+  }
+
+  const content: AITestResults = { ...results };
+  delete content.FilePath;
+  fs.writeFileSync(results.FilePath, JSON.stringify(content, null, 2), "utf-8");
+}
+
+/**
+ * Remove the intermediate result files of a run whose results were merged
+ * into another result set: its AI JSON file and the XUnit file next to it
+ */
+export function removeResultsFile(filePath: string): void {
+  const xunitFile = filePath.replace(/_AI\.json$/, ".xml");
+  for (const file of new Set([filePath, xunitFile])) {
+    try {
+      fs.unlinkSync(file);
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
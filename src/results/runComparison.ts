@@ -0,0 +1,216 @@
+/**
+ * BC Test Runner - Run Comparison
+ *
+ * Diffs two result sets: tests that newly fail, tests that were fixed,
+ * tests that still fail, tests that got much slower, and tests that were
+ * added or removed between a baseline run and the current run.
+ */
+
+import {
+  AITestResults,
+  TestResult,
+  TestSummary,
+} from "../powershell/PowerShellRunner";
+import { parseDuration } from "./duration";
+import { testKey } from "./resultsMerger";
+
+/**
+ * Thresholds for slowdown detection
+ */
+export interface CompareOptions {
+  /** Minimum current/baseline duration ratio of a slower test */
+  slowdownFactor?: number;
+  /** Minimum increase in seconds of a slower test */
+  minSlowdownSeconds?: number;
+}
+
+const DEFAULT_OPTIONS: Required<CompareOptions> = {
+  slowdownFactor: 1.5,
+  minSlowdownSeconds: 1,
+};
+
+/**
+ * A run taking part in a comparison
+ */
+export interface ComparedRun {
+  file?: string;
+  timestamp: string;
+  environment: string;
+  success: boolean;
+  summary: TestSummary;
+  duration: string;
+}
+
+/**
+ * A test whose outcome differs between the runs, or that still fails
+ */
+export interface TestOutcomeChange {
+  codeunit: string;
+  codeunitId: number;
+  method: string;
+  baselineResult?: TestResult["result"];
+  currentResult?: TestResult["result"];
+  /** Error of the current run, for failing tests */
+  error?: string;
+}
+
+/**
+ * A test that took longer than in the baseline run
+ */
+export interface TestDurationChange {
+  codeunit: string;
+  codeunitId: number;
+  method: string;
+  /** Durations in seconds */
+  baselineDuration: number;
+  currentDuration: number;
+  /** current / baseline */
+  ratio: number;
+}
+
+/**
+ * Structured diff of two runs
+ */
+export interface RunComparison {
+  baseline: ComparedRun;
+  current: ComparedRun;
+  summary: {
+    newFailures: number;
+    fixed: number;
+    stillFailing: number;
+    slower: number;
+    added: number;
+    removed: number;
+  };
+  newFailures: TestOutcomeChange[];
+  fixed: TestOutcomeChange[];
+  stillFailing: TestOutcomeChange[];
+  slower: TestDurationChange[];
+  added: TestOutcomeChange[];
+  removed: TestOutcomeChange[];
+}
+
+/**
+ * Compare a current run with a baseline run
+ */
+export function compareRuns(
+  baseline: AITestResults,
+  current: AITestResults,
+  options: CompareOptions = {}
+): RunComparison {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+
+  const baselineTests = new Map(
+    baseline.tests.allTests.map((test) => [testKey(test), test])
+  );
+  const currentTests = new Map(
+    current.tests.allTests.map((test) => [testKey(test), test])
+  );
+  const errors = new Map(
+    current.tests.failures.map((failure) => [testKey(failure), failure.error])
+  );
+
+  const newFailures: TestOutcomeChange[] = [];
+  const fixed: TestOutcomeChange[] = [];
+  const stillFailing: TestOutcomeChange[] = [];
+  const slower: TestDurationChange[] = [];
+  const added: TestOutcomeChange[] = [];
+
+  for (const [key, test] of currentTests) {
+    const previous = baselineTests.get(key);
+    const change = toChange(test, previous, errors.get(key));
+
+    if (!previous) {
+      added.push(change);
+      if (test.result === "Fail") {
+        newFailures.push(change);
+      }
+      continue;
+    }
+
+    if (test.result === "Fail") {
+      (previous.result === "Fail" ? stillFailing : newFailures).push(change);
+    } else if (test.result === "Pass" && previous.result === "Fail") {
+      fixed.push(change);
+    }
+
+    // Only compare durations of tests that ran to completion in both runs
+    if (test.result === "Pass" && previous.result === "Pass") {
+      const baselineDuration = parseDuration(previous.duration);
+      const currentDuration = parseDuration(test.duration);
+      if (
+        currentDuration - baselineDuration >= settings.minSlowdownSeconds &&
+        currentDuration >= baselineDuration * settings.slowdownFactor
+      ) {
+        slower.push({
+          codeunit: test.codeunit,
+          codeunitId: test.codeunitId,
+          method: test.method,
+          baselineDuration,
+          currentDuration,
+          ratio:
+            baselineDuration > 0
+              ? Math.round((currentDuration / baselineDuration) * 100) / 100
+              : 0,
+        });
+      }
+    }
+  }
+
+  const removed = [...baselineTests]
+    .filter(([key]) => !currentTests.has(key))
+    .map(([, test]) => toChange(undefined, test));
+
+  slower.sort(
+    (a, b) =>
+      b.currentDuration -
+      b.baselineDuration -
+      (a.currentDuration - a.baselineDuration)
+  );
+
+  return {
+    baseline: toComparedRun(baseline),
+    current: toComparedRun(current),
+    summary: {
+      newFailures: newFailures.length,
+      fixed: fixed.length,
+      stillFailing: stillFailing.length,
+      slower: slower.length,
+      added: added.length,
+      removed: removed.length,
+    },
+    newFailures,
+    fixed,
+    stillFailing,
+    slower,
+    added,
+    removed,
+  };
+}
+
+function toComparedRun(results: AITestResults): ComparedRun {
+  return {
+    file: results.FilePath,
+    timestamp: results.timestamp,
+    environment: results.environment.name,
+    success: results.tests.success,
+    summary: results.tests.summary,
+    duration: results.tests.duration,
+  };
+}
+
+function toChange(
+  current: TestResult | undefined,
+  baseline: TestResult | undefined,
+  error?: string
+): TestOutcomeChange {
+  const test = (current ?? baseline) as TestResult;
+  return {
+    codeunit: test.codeunit,
+    codeunitId: test.codeunitId,
+    method: test.method,
+    baselineResult: baseline?.result,
+    currentResult: current?.result,
+    error,
+  };
+}
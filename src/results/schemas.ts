@@ -0,0 +1,201 @@
+/**
+ * BC Test Runner - Results Schemas
+ *
+ * Validation schemas for the *_AI.json result files written by the
+ * PowerShell module. PowerShell serializes missing values as null, so
+ * optional fields accept null and normalize it to undefined.
+ */
+
+import { z } from "zod";
+
+/* eslint-disable @typescript-eslint/naming-convention */
+
+const optionalString = z
+  .string()
+  .nullish()
+  .transform((v) => v ?? undefined);
+
+const optionalInt = z
+  .number()
+  .int()
+  .nullish()
+  .transform((v) => v ?? undefined);
+
+const optionalNumber = z
+  .number()
+  .nullish()
+  .transform((v) => v ?? undefined);
+
+const requiredString = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform((v) => (v === null || v === undefined ? "" : String(v)));
+
+// Test outcome schema
+export const TestOutcomeSchema = z.enum(["Pass", "Fail", "Skip"]);
+
+// Single test result schema
+export const TestResultSchema = z.looseObject({
+  codeunit: requiredString,
+  codeunitId: z.number().int(),
+  method: requiredString,
+  name: requiredString,
+  result: TestOutcomeSchema,
+  duration: requiredString,
+  attempts: optionalInt,
+  passedOnRetry: z
+    .boolean()
+    .nullish()
+    .transform((v) => v ?? undefined),
+  app: optionalString,
+});
+
+// Test failure schema
+export const TestFailureSchema = z.looseObject({
+  codeunit: requiredString,
+  codeunitId: z.number().int(),
+  method: requiredString,
+  testName: requiredString,
+  error: requiredString,
+  stackTrace: optionalString,
+  duration: requiredString,
+  filePath: optionalString,
+  lineNumber: optionalInt,
+  attempts: optionalInt,
+  app: optionalString,
+});
+
+// Summary schema
+export const TestSummarySchema = z.object({
+  total: z.number().int().min(0),
+  passed: z.number().int().min(0),
+  failed: z.number().int().min(0),
+  skipped: z.number().int().min(0),
+  passedAfterRetry: optionalInt,
+});
+
+// Compile result of a single app
+export const AppCompileResultSchema = z.looseObject({
+  app: requiredString,
+  path: requiredString,
+  appFile: optionalString,
+  success: z.boolean(),
+  output: z
+    .array(z.string())
+    .nullish()
+    .transform((v) => v ?? []),
+  error: optionalString,
+  duration: requiredString,
+});
+
+// Parsed compiler diagnostic schema
+export const CompilerDiagnosticSchema = z.looseObject({
+  app: requiredString,
+  filePath: optionalString,
+  line: optionalInt,
+  column: optionalInt,
+  endLine: optionalInt,
+  endColumn: optionalInt,
+  code: requiredString,
+  severity: z.enum(["error", "warning", "info"]),
+  message: requiredString,
+});
+
+// Compile phase schema
+export const CompilationSummarySchema = z.looseObject({
+  success: z.boolean(),
+  apps: z.array(AppCompileResultSchema).default([]),
+  duration: requiredString,
+  errors: z.array(CompilerDiagnosticSchema).default([]),
+  warnings: z.array(CompilerDiagnosticSchema).default([]),
+});
+
+// Error location schema
+export const ErrorLocationSchema = z.looseObject({
+  type: z.enum(["test-failure", "compilation-error"]),
+  file: optionalString,
+  line: optionalInt,
+  column: optionalInt,
+  code: optionalString,
+  codeunit: optionalString,
+  method: optionalString,
+  message: requiredString,
+});
+
+// Flaky test schema
+export const FlakyTestSchema = z.looseObject({
+  codeunit: requiredString,
+  codeunitId: z.number().int(),
+  method: requiredString,
+  runs: z.number().int(),
+  failures: z.number().int(),
+  flips: z.number().int(),
+  flipRate: z.number(),
+  recentOutcomes: z.array(z.enum(["Pass", "Fail"])).default([]),
+});
+
+// Duration of a test or codeunit in the performance profile
+export const DurationProfileSchema = z.looseObject({
+  codeunit: requiredString,
+  codeunitId: z.number().int(),
+  method: optionalString,
+  duration: z.number(),
+  medianDuration: optionalNumber,
+  budget: optionalNumber,
+});
+
+// Performance profile of a run
+export const PerformanceProfileSchema = z.looseObject({
+  slowestTests: z.array(DurationProfileSchema).default([]),
+  slowestCodeunits: z.array(DurationProfileSchema).default([]),
+  regressions: z.array(DurationProfileSchema).default([]),
+  budgetBreaches: z.array(DurationProfileSchema).default([]),
+});
+
+// Results of one test app of a run
+export const TestAppSummarySchema = z.looseObject({
+  app: requiredString,
+  extensionId: requiredString,
+  success: z.boolean(),
+  summary: TestSummarySchema,
+  duration: requiredString,
+});
+
+// Per-environment results of a sharded run
+export const ShardSummarySchema = z.looseObject({
+  environment: requiredString,
+  codeunitIds: z.array(z.number().int()).default([]),
+  success: z.boolean(),
+  summary: TestSummarySchema,
+  duration: requiredString,
+});
+
+// AI results file schema
+export const AITestResultsSchema = z.looseObject({
+  schema: requiredString,
+  timestamp: z.string().min(1),
+  environment: z.looseObject({
+    name: requiredString,
+    server: requiredString,
+    serverInstance: requiredString,
+    authentication: requiredString,
+  }),
+  tests: z.looseObject({
+    success: z.boolean(),
+    summary: TestSummarySchema,
+    duration: requiredString,
+    error: optionalString,
+    failures: z.array(TestFailureSchema).default([]),
+    allTests: z.array(TestResultSchema).default([]),
+    apps: z.array(TestAppSummarySchema).optional(),
+  }),
+  aiContext: z.looseObject({
+    analysisHints: z.array(z.string()).default([]),
+    suggestedActions: z.array(z.string()).default([]),
+    errorLocations: z.array(ErrorLocationSchema).optional(),
+    flakyTests: z.array(FlakyTestSchema).optional(),
+    performance: PerformanceProfileSchema.optional(),
+  }),
+  compilation: CompilationSummarySchema.optional(),
+  shards: z.array(ShardSummarySchema).optional(),
+});
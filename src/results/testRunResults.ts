@@ -0,0 +1,79 @@
+/**
+ * BC Test Runner - Test Run Results
+ *
+ * Builds the AI results of a pipeline run from what the PowerShell module
+ * returns: the XUnit file of the test run, the compile phase and the apps
+ * that ran. The results are written to the AI JSON file of the run.
+ */
+
+import * as fs from "fs";
+import { AITestResults, TestRunOutput } from "../powershell/PowerShellRunner";
+import {
+  applyCompilationResult,
+  buildCompilationResult,
+} from "./alcOutputParser";
+import { formatTimeSpan } from "./duration";
+import { summarizeApps } from "./resultsMerger";
+import { writeAIResultsFile } from "./resultsWriter";
+import { DEFAULT_ANALYSIS_HINTS, parseXUnitFile } from "./xunitParser";
+
+/**
+ * Build the AI results of a pipeline run and write them to its AI JSON file
+ */
+export function buildTestRunResults(output: TestRunOutput): AITestResults {
+  const testRun = output.testRun;
+  const options = {
+    environment: output.environment,
+    workspacePath: output.workspacePath || undefined,
+    timestamp: output.timestamp,
+  };
+
+  let results: AITestResults =
+    testRun?.resultsFile && fs.existsSync(testRun.resultsFile)
+      ? parseXUnitFile(testRun.resultsFile, options)
+      : {
+          schema: output.schema,
+          timestamp: output.timestamp,
+          environment: output.environment,
+          tests: {
+            success: false,
+            summary: { total: 0, passed: 0, failed: 0, skipped: 0 },
+            duration: testRun?.duration ?? formatTimeSpan(0),
+            failures: [],
+            allTests: [],
+          },
+          aiContext: {
+            analysisHints: [...DEFAULT_ANALYSIS_HINTS],
+            suggestedActions: [],
+          },
+        };
+
+  if (testRun) {
+    results.tests.duration = testRun.duration;
+    if (testRun.errorMessage) {
+      results.tests.success = false;
+      results.tests.error = testRun.errorMessage;
+    }
+    if (testRun.apps.length > 0) {
+      results.tests.apps = summarizeApps(
+        testRun.apps.map((app) => ({
+          ...app,
+          success: false,
+          summary: { total: 0, passed: 0, failed: 0, skipped: 0 },
+        })),
+        results.tests.allTests
+      );
+    }
+  }
+
+  if (output.compilation) {
+    results = applyCompilationResult({
+      ...results,
+      compilation: buildCompilationResult(output.compilation),
+    });
+  }
+
+  results.FilePath = output.aiResultsFile;
+  writeAIResultsFile(results);
+  return results;
+}
@@ -0,0 +1,292 @@
+/**
+ * BC Test Runner - XUnit Parser
+ *
+ * Parses the XUnit XML written by BcContainerHelper's Run-TestsInBcContainer
+ * into AITestResults. Test runs of the PowerShell module return their XUnit
+ * file, so this is the only place test results are parsed.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { XMLParser } from "fast-xml-parser";
+import {
+  AITestResults,
+  TestFailure,
+  TestResult,
+} from "../powershell/PowerShellRunner";
+import { formatTimeSpan } from "./duration";
+import {
+  buildErrorLocations,
+  buildSuggestedActions,
+  summarize,
+} from "./resultsMerger";
+
+/* eslint-disable @typescript-eslint/naming-convention */
+
+interface XUnitFailure {
+  message?: string;
+  "stack-trace"?: string;
+}
+
+interface XUnitTest {
+  name?: string;
+  method?: string;
+  time?: string;
+  result?: string;
+  failure?: XUnitFailure;
+}
+
+interface XUnitAssembly {
+  name?: string;
+  time?: string;
+  /** Test app of the assembly, set when the module merged several apps */
+  app?: string;
+  collection?: { test?: XUnitTest[] }[];
+}
+
+interface XUnitDocument {
+  assemblies?: { assembly?: XUnitAssembly[] };
+}
+
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * Options for XUnit parsing
+ */
+export interface XUnitParseOptions {
+  /** Environment the tests ran against */
+  environment?: AITestResults["environment"];
+  /** Workspace searched for the codeunit source of a failure */
+  workspacePath?: string;
+  /** Timestamp of the run (defaults to now) */
+  timestamp?: string;
+}
+
+/**
+ * Location of a failure parsed from an AL stack trace
+ */
+export interface StackTraceLocation {
+  codeunit: string;
+  codeunitId: number;
+  method: string;
+  lineNumber: number;
+  filePath?: string;
+}
+
+const ARRAY_PATHS = new Set([
+  "assemblies.assembly",
+  "assemblies.assembly.collection",
+  "assemblies.assembly.collection.test",
+]);
+
+// Matches "CodeunitName(CodeunitId).MethodName line XX"
+const STACK_FRAME_PATTERN = /([^(\r\n]+)\((\d+)\)\.(\w+)\s+line\s+(\d+)/;
+
+export const DEFAULT_ANALYSIS_HINTS = [
+  "Check failures array for detailed error information",
+  "Each failure includes codeunit, method, error message, and stack trace",
+  "Use filePath and lineNumber to navigate directly to failure location",
+  "Compilation errors include file, line, column, and error code",
+  "Consider test isolation if multiple tests fail in the same codeunit",
+];
+
+/**
+ * Parse an XUnit XML document into AI test results
+ */
+export function parseXUnitResults(
+  xml: string,
+  options: XUnitParseOptions = {}
+): AITestResults {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "",
+    parseAttributeValue: false,
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (_name, jPath) => ARRAY_PATHS.has(String(jPath)),
+  });
+  const document = parser.parse(xml) as XUnitDocument;
+
+  if (!document.assemblies) {
+    throw new Error("Not an XUnit result file: missing <assemblies> element");
+  }
+
+  const fileCache = new Map<string, string | undefined>();
+  const allTests: TestResult[] = [];
+  const failures: TestFailure[] = [];
+  let totalSeconds = 0;
+
+  for (const assembly of document.assemblies.assembly ?? []) {
+    const codeunit = assembly.name ?? "";
+    const codeunitId = parseCodeunitId(codeunit);
+    const app = assembly.app || undefined;
+    totalSeconds += Number(assembly.time) || 0;
+
+    for (const collection of assembly.collection ?? []) {
+      for (const test of collection.test ?? []) {
+        const result = normalizeOutcome(test.result);
+        const duration = test.time ?? "";
+
+        allTests.push({
+          codeunit,
+          codeunitId,
+          method: test.method ?? "",
+          name: test.name ?? "",
+          result,
+          duration,
+          app,
+        });
+
+        if (result !== "Fail") {
+          continue;
+        }
+
+        const stackTrace = test.failure?.["stack-trace"] || undefined;
+        const location = parseStackTrace(
+          stackTrace,
+          options.workspacePath,
+          fileCache
+        );
+
+        failures.push({
+          codeunit,
+          codeunitId,
+          method: test.method ?? "",
+          testName: test.name ?? "",
+          error: test.failure?.message ?? "",
+          stackTrace,
+          duration,
+          filePath: location?.filePath,
+          lineNumber: location?.lineNumber,
+          app,
+        });
+      }
+    }
+  }
+
+  const summary = summarize(allTests);
+
+  return {
+    schema: "1.0",
+    timestamp: options.timestamp ?? new Date().toISOString(),
+    environment: options.environment ?? {
+      name: "",
+      server: "",
+      serverInstance: "",
+      authentication: "",
+    },
+    tests: {
+      success: summary.failed === 0 && summary.total > 0,
+      summary,
+      duration: formatTimeSpan(totalSeconds),
+      failures,
+      allTests,
+    },
+    aiContext: {
+      analysisHints: [...DEFAULT_ANALYSIS_HINTS],
+      suggestedActions: buildSuggestedActions(failures),
+      errorLocations: buildErrorLocations(failures),
+    },
+  };
+}
+
+/**
+ * Parse an XUnit result file into AI test results
+ */
+export function parseXUnitFile(
+  filePath: string,
+  options: XUnitParseOptions = {}
+): AITestResults {
+  const xml = fs.readFileSync(filePath, "utf-8");
+  return parseXUnitResults(xml, {
+    timestamp: fs.statSync(filePath).mtime.toISOString(),
+    ...options,
+  });
+}
+
+/**
+ * Extract the first AL frame of a stack trace and locate its source file
+ */
+export function parseStackTrace(
+  stackTrace: string | undefined,
+  workspacePath?: string,
+  fileCache: Map<string, string | undefined> = new Map()
+): StackTraceLocation | undefined {
+  if (!stackTrace) {
+    return undefined;
+  }
+
+  const match = STACK_FRAME_PATTERN.exec(stackTrace);
+  if (!match) {
+    return undefined;
+  }
+
+  const codeunit = match[1].trim();
+  let filePath: string | undefined;
+  if (workspacePath) {
+    const fileName = `${codeunit}.Codeunit.al`.toLowerCase();
+    if (!fileCache.has(fileName)) {
+      fileCache.set(fileName, findFile(workspacePath, fileName));
+    }
+    filePath = fileCache.get(fileName);
+  }
+
+  return {
+    codeunit,
+    codeunitId: parseInt(match[2], 10),
+    method: match[3],
+    lineNumber: parseInt(match[4], 10),
+    filePath,
+  };
+}
+
+/**
+ * Codeunit ID from an assembly name such as "My Tests (50100)"
+ */
+function parseCodeunitId(name: string): number {
+  const match = /\((\d+)\)/.exec(name);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+function normalizeOutcome(result: string | undefined): TestResult["result"] {
+  switch (result) {
+    case "Pass":
+    case "Fail":
+      return result;
+    default:
+      return "Skip";
+  }
+}
+
+/**
+ * Case-insensitive recursive file search, skipping hidden folders
+ */
+function findFile(root: string, fileName: string): string | undefined {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(root, { withFileTypes: true });
+  } catch {
+    return undefined;
+  }
+
+  for (const entry of entries) {
+    if (entry.isFile() && entry.name.toLowerCase() === fileName) {
+      return path.join(root, entry.name);
+    }
+  }
+
+  for (const entry of entries) {
+    if (
+      entry.isDirectory() &&
+      !entry.name.startsWith(".") &&
+      entry.name !== "node_modules"
+    ) {
+      const found = findFile(path.join(root, entry.name), fileName);
+      if (found) {
+        return found;
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,911 @@
+/**
+ * BC Test Runner - Test Controller
+ *
+ * Integrates test results with the native VS Code Testing API so tests show
+ * up in the Test Explorer with gutter icons and Run/Debug actions.
+ */
+
+import * as vscode from "vscode";
+import { ConfigManager } from "../config/ConfigManager";
+import { BCTestConfig, BCTestEnvironment, TestApp } from "../config/schemas";
+import { findTestApp, findTestAppForCodeunit } from "../config/testApps";
+import { CredentialManager } from "../credentials/CredentialManager";
+import { TestDiscovery } from "../discovery/TestDiscovery";
+import {
+  PowerShellRunner,
+  AITestResults,
+  TestFailure,
+} from "../powershell/PowerShellRunner";
+import { parseDuration } from "../results/duration";
+import { mergeResults } from "../results/resultsMerger";
+import { loadLatestResults } from "../results/resultsReader";
+import {
+  removeResultsFile,
+  writeAIResultsFile,
+} from "../results/resultsWriter";
+import { ProgressEvent } from "../powershell/progressEvents";
+import { getMaxRetries, retryFailedTests } from "./retryFailed";
+
+/**
+ * Kind of node in the test item hierarchy (app → codeunit → method)
+ */
+type TestItemKind = "app" | "codeunit" | "method";
+
+/**
+ * Metadata attached to each test item
+ */
+interface TestItemData {
+  kind: TestItemKind;
+  codeunitId?: number;
+  method?: string;
+}
+
+/**
+ * A set of tests to execute within a single codeunit
+ */
+export interface CodeunitSelection {
+  codeunitId: number;
+  /** Methods to run; undefined runs the whole codeunit */
+  methods?: string[];
+}
+
+/**
+ * Test run that follows the progress of a run started outside the
+ * Test Explorer
+ */
+export interface LiveTestRun {
+  /** Apply a progress event to the run */
+  report(event: ProgressEvent): void;
+  /** Apply the final results, if any, and end the run */
+  end(results?: AITestResults): void;
+}
+
+/**
+ * Results of a run started from the Test Explorer, with the configuration
+ * it ran with
+ */
+export interface CompletedRun {
+  results: AITestResults;
+  config: BCTestConfig;
+}
+
+/**
+ * Resolved context required to start a test run
+ */
+interface RunContext {
+  configPath: string;
+  config: BCTestConfig;
+  environment: BCTestEnvironment;
+  credential?: { username: string; password: string };
+}
+
+/**
+ * Native Testing API integration for BC tests
+ */
+export class BCTestController implements vscode.Disposable {
+  private _controller: vscode.TestController;
+  private _itemData = new WeakMap<vscode.TestItem, TestItemData>();
+  private _disposables: vscode.Disposable[] = [];
+  private _discoveredCodeunits = new Set<number>();
+  /** Result set last shown in a test run, by file and timestamp */
+  private _shownResults?: string;
+
+  private _onDidCompleteRun = new vscode.EventEmitter<CompletedRun>();
+  readonly onDidCompleteRun = this._onDidCompleteRun.event;
+
+  constructor(
+    private _runner: PowerShellRunner,
+    private _configManager: ConfigManager,
+    private _credentialManager: CredentialManager,
+    private _discovery: TestDiscovery,
+    private _outputChannel: vscode.OutputChannel
+  ) {
+    this._controller = vscode.tests.createTestController(
+      "bcTestRunner.controller",
+      "BC Tests"
+    );
+
+    this._controller.resolveHandler = async (item) => {
+      if (!item) {
+        await this.refresh();
+      }
+    };
+
+    this._controller.refreshHandler = async () => {
+      await this.refresh();
+    };
+
+    this._controller.createRunProfile(
+      "Run",
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this._runHandler(request, token, false),
+      true
+    );
+
+    this._controller.createRunProfile(
+      "Debug",
+      vscode.TestRunProfileKind.Debug,
+      (request, token) => this._runHandler(request, token, true),
+      true
+    );
+
+    this._disposables.push(
+      this._controller,
+      this._onDidCompleteRun,
+      this._discovery.onDidChange(() => this._syncDiscovered())
+    );
+  }
+
+  /**
+   * Reload the latest results from the results folder
+   */
+  async refresh(): Promise<void> {
+    try {
+      const configPath = await this._configManager.findConfigFile();
+      if (!configPath) {
+        return;
+      }
+
+      const config = await this._configManager.loadConfig(configPath);
+      const resultsFolder = this._configManager.getResultsFolder(config);
+      const results = loadLatestResults(resultsFolder, undefined, {
+        workspacePath: config.workspacePath,
+      });
+
+      if (results) {
+        this.loadResults(results, config);
+      }
+    } catch (error) {
+      this._outputChannel.appendLine(
+        `[TestController] Failed to load results: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Start a Test Explorer run that is updated live from progress events
+   */
+  startLiveRun(config: BCTestConfig, name = "BC Tests"): LiveTestRun {
+    const run = this._controller.createTestRun(
+      new vscode.TestRunRequest(),
+      name,
+      false
+    );
+
+    return {
+      report: (event) => this._applyProgressEvent(run, config, event),
+      end: (results) => {
+        if (results) {
+          this._buildItems(results, config);
+          this._applyResults(run, results);
+        }
+        run.end();
+      },
+    };
+  }
+
+  /**
+   * Populate the test tree from a result set and show its outcomes.
+   * A result set already shown is not applied again.
+   */
+  loadResults(results: AITestResults, config: BCTestConfig): void {
+    this._buildItems(results, config);
+    if (this._getResultsKey(results) === this._shownResults) {
+      return;
+    }
+
+    const run = this._controller.createTestRun(
+      new vscode.TestRunRequest(),
+      `BC Tests - ${new Date(results.timestamp).toLocaleString()}`,
+      false
+    );
+    this._applyResults(run, results);
+    run.end();
+  }
+
+  /**
+   * Run the given codeunit selections through the Test Explorer
+   *
+   * @param token Cancels the run, for callers that supersede their runs
+   */
+  async runSelections(
+    selections: CodeunitSelection[],
+    token?: vscode.CancellationToken
+  ): Promise<void> {
+    const configPath = await this._configManager.findConfigFile();
+    if (!configPath) {
+      vscode.window.showWarningMessage("No bctest.config.json found");
+      return;
+    }
+    const config = await this._configManager.loadConfig(configPath);
+
+    const include: vscode.TestItem[] = [];
+    for (const selection of selections) {
+      const discovered = this._discovery.findCodeunit(selection.codeunitId);
+      const codeunitItem = this._getOrCreateCodeunit(
+        config,
+        selection.codeunitId,
+        discovered?.name ?? `Codeunit ${selection.codeunitId}`
+      );
+      if (!selection.methods) {
+        include.push(codeunitItem);
+        continue;
+      }
+      for (const method of selection.methods) {
+        include.push(
+          this._getOrCreateMethod(codeunitItem, selection.codeunitId, method)
+        );
+      }
+    }
+
+    const tokenSource = new vscode.CancellationTokenSource();
+    try {
+      await this._runHandler(
+        new vscode.TestRunRequest(include),
+        token ?? tokenSource.token,
+        false
+      );
+    } finally {
+      tokenSource.dispose();
+    }
+  }
+
+  /**
+   * Mirror statically discovered tests into the test tree
+   */
+  private async _syncDiscovered(): Promise<void> {
+    const configPath = await this._configManager.findConfigFile();
+    if (!configPath) {
+      return;
+    }
+
+    let config: BCTestConfig;
+    try {
+      config = await this._configManager.loadConfig(configPath);
+    } catch {
+      return;
+    }
+
+    const codeunits = this._discovery.getCodeunits();
+    const current = new Set(codeunits.map((c) => c.id));
+
+    // Drop codeunits that were discovered before but no longer exist
+    for (const id of this._discoveredCodeunits) {
+      if (!current.has(id)) {
+        this._controller.items.forEach((app) =>
+          app.children.delete(`codeunit:${id}`)
+        );
+      }
+    }
+    this._discoveredCodeunits = current;
+
+    for (const codeunit of codeunits) {
+      const uri = vscode.Uri.file(codeunit.filePath);
+      const codeunitItem = this._getOrCreateCodeunit(
+        config,
+        codeunit.id,
+        codeunit.name,
+        uri,
+        codeunit.app
+      );
+      codeunitItem.label = codeunit.name;
+      codeunitItem.range = new vscode.Range(
+        codeunit.line,
+        0,
+        codeunit.endLine,
+        0
+      );
+      codeunitItem.error = codeunit.rangeWarning;
+
+      const methodIds = new Set<string>();
+      for (const method of codeunit.testMethods) {
+        const methodItem = this._getOrCreateMethod(
+          codeunitItem,
+          codeunit.id,
+          method.name,
+          uri
+        );
+        methodItem.range = new vscode.Range(method.line, 0, method.line, 0);
+        methodItem.description =
+          method.handlers.length > 0
+            ? `handlers: ${method.handlers.join(", ")}`
+            : undefined;
+        methodIds.add(methodItem.id);
+      }
+
+      codeunitItem.children.forEach((child) => {
+        if (!methodIds.has(child.id)) {
+          codeunitItem.children.delete(child.id);
+        }
+      });
+    }
+  }
+
+  /**
+   * Handle a run request from the Test Explorer, CodeLens or watch mode.
+   * The results of the codeunit batches are merged into one result set,
+   * failures are retried like in a full run, and the final results are
+   * reported through onDidCompleteRun.
+   */
+  private async _runHandler(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    debug: boolean
+  ): Promise<void> {
+    const context = await this._resolveRunContext();
+    if (!context) {
+      return;
+    }
+
+    const run = this._controller.createTestRun(request);
+    const selections = this._collectSelections(request);
+
+    for (const item of this._collectLeaves(request)) {
+      run.enqueued(item);
+    }
+
+    if (debug) {
+      await this._attachDebugger(context.environment);
+    }
+
+    vscode.commands.executeCommand(
+      "setContext",
+      "bcTestRunner.isRunning",
+      true
+    );
+
+    let merged: AITestResults | undefined;
+    try {
+      // An empty selection means "everything" - let the configured range apply
+      const batches: (CodeunitSelection | undefined)[] =
+        selections.length > 0 ? selections : [undefined];
+
+      for (const selection of batches) {
+        if (token.isCancellationRequested) {
+          break;
+        }
+
+        const result = await this._runner.executeTests(
+          context.configPath,
+          context.environment.name,
+          {
+            credential: context.credential,
+            codeunitFilter: selection
+              ? String(selection.codeunitId)
+              : undefined,
+            // BC test method filters accept the AL "|" or-syntax
+            testMethod: selection?.methods?.join("|"),
+            cancellationToken: token,
+            onOutput: (output) =>
+              run.appendOutput(output.replace(/\n/g, "\r\n")),
+            onProgress: (event) =>
+              this._applyProgressEvent(run, context.config, event),
+          }
+        );
+
+        if (result.cancelled) {
+          break;
+        }
+
+        if (result.success && result.data) {
+          this._buildItems(result.data, context.config);
+          this._applyResults(run, result.data);
+          merged = merged ? mergeBatch(merged, result.data) : result.data;
+        } else {
+          const message = new vscode.TestMessage(
+            result.error ?? "Test execution failed"
+          );
+          for (const item of this._collectLeaves(request, selection)) {
+            run.errored(item, message);
+          }
+        }
+      }
+
+      if (merged && !token.isCancellationRequested) {
+        merged = await retryFailedTests(
+          this._runner,
+          context.configPath,
+          context.environment.name,
+          merged,
+          {
+            credential: context.credential,
+            cancellationToken: token,
+            maxRetries: getMaxRetries(context.config),
+            onRetry: (attempt, failures) =>
+              run.appendOutput(
+                `Retrying ${failures} failed test(s), attempt ${attempt}...\r\n`
+              ),
+          }
+        );
+        this._applyResults(run, merged);
+      }
+    } finally {
+      run.end();
+      vscode.commands.executeCommand(
+        "setContext",
+        "bcTestRunner.isRunning",
+        false
+      );
+    }
+
+    if (merged) {
+      this._onDidCompleteRun.fire({ results: merged, config: context.config });
+    }
+  }
+
+  /**
+   * Resolve config, environment and credentials for a run
+   */
+  private async _resolveRunContext(): Promise<RunContext | undefined> {
+    const configPath = await this._configManager.findConfigFile();
+    if (!configPath) {
+      vscode.window.showWarningMessage("No bctest.config.json found");
+      return undefined;
+    }
+
+    try {
+      const config = await this._configManager.loadConfig(configPath);
+      const environment = this._configManager.getEnvironment(config);
+      if (!environment) {
+        vscode.window.showErrorMessage("No environment configured");
+        return undefined;
+      }
+
+      let credential: { username: string; password: string } | undefined;
+      if (
+        environment.authentication === "UserPassword" ||
+        environment.authentication === "NavUserPassword"
+      ) {
+        credential = await this._credentialManager.getOrPromptCredentials(
+          environment.name
+        );
+        if (!credential) {
+          vscode.window.showWarningMessage(
+            "Credentials required for UserPassword authentication"
+          );
+          return undefined;
+        }
+      }
+
+      return { configPath, config, environment, credential };
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Error preparing test run: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Start an AL debugger attach session so breakpoints hit during the run
+   */
+  private async _attachDebugger(environment: BCTestEnvironment): Promise<void> {
+    const started = await vscode.debug.startDebugging(undefined, {
+      type: "al",
+      request: "attach",
+      name: `BC Test Runner: ${environment.name}`,
+      ...getDebugTarget(environment),
+      tenant: environment.tenant,
+      breakOnError: true,
+      // Test runner sessions are opened through the client services endpoint
+      breakOnNext: "WebClient",
+    });
+
+    if (!started) {
+      this._outputChannel.appendLine(
+        "[TestController] Could not attach the AL debugger - running without debugging"
+      );
+    }
+  }
+
+  /**
+   * Group the requested items into per-codeunit selections
+   */
+  private _collectSelections(
+    request: vscode.TestRunRequest
+  ): CodeunitSelection[] {
+    if (!request.include) {
+      return [];
+    }
+
+    const excluded = new Set(request.exclude ?? []);
+    const byCodeunit = new Map<number, CodeunitSelection>();
+
+    const addItem = (item: vscode.TestItem): void => {
+      if (excluded.has(item)) {
+        return;
+      }
+      const data = this._itemData.get(item);
+      if (!data) {
+        return;
+      }
+
+      if (data.kind === "app") {
+        item.children.forEach(addItem);
+        return;
+      }
+
+      const codeunitId = data.codeunitId!;
+      const existing = byCodeunit.get(codeunitId);
+
+      if (data.kind === "codeunit") {
+        const hasExcludedChild = [...excluded].some((e) => e.parent === item);
+        if (hasExcludedChild) {
+          item.children.forEach(addItem);
+        } else {
+          byCodeunit.set(codeunitId, { codeunitId });
+        }
+        return;
+      }
+
+      if (existing && !existing.methods) {
+        return;
+      }
+      const methods = existing?.methods ?? [];
+      methods.push(data.method!);
+      byCodeunit.set(codeunitId, { codeunitId, methods });
+    };
+
+    request.include.forEach(addItem);
+    return [...byCodeunit.values()];
+  }
+
+  /**
+   * Collect the method-level items covered by a request
+   */
+  private _collectLeaves(
+    request: vscode.TestRunRequest,
+    selection?: CodeunitSelection
+  ): vscode.TestItem[] {
+    const excluded = new Set(request.exclude ?? []);
+    const leaves: vscode.TestItem[] = [];
+
+    const visit = (item: vscode.TestItem): void => {
+      if (excluded.has(item)) {
+        return;
+      }
+      const data = this._itemData.get(item);
+      if (data?.kind === "method") {
+        if (
+          !selection ||
+          (data.codeunitId === selection.codeunitId &&
+            (!selection.methods || selection.methods.includes(data.method!)))
+        ) {
+          leaves.push(item);
+        }
+        return;
+      }
+      item.children.forEach(visit);
+    };
+
+    if (request.include) {
+      request.include.forEach(visit);
+    } else {
+      this._controller.items.forEach(visit);
+    }
+    return leaves;
+  }
+
+  /**
+   * Ensure every test in a result set has a matching test item
+   */
+  private _buildItems(results: AITestResults, config: BCTestConfig): void {
+    for (const test of results.tests.allTests) {
+      const codeunitItem = this._getOrCreateCodeunit(
+        config,
+        test.codeunitId,
+        test.codeunit,
+        undefined,
+        test.app
+      );
+      this._getOrCreateMethod(codeunitItem, test.codeunitId, test.method);
+    }
+  }
+
+  /**
+   * Get or create the app-level item for a test app
+   */
+  private _getOrCreateApp(testApp: TestApp): vscode.TestItem {
+    const id = `app:${testApp.extensionId}`;
+    let item = this._controller.items.get(id);
+    if (!item) {
+      item = this._controller.createTestItem(id, testApp.extensionName);
+      this._itemData.set(item, { kind: "app" });
+      this._controller.items.add(item);
+    }
+    return item;
+  }
+
+  /**
+   * Find the test app of a codeunit: the app it ran or was discovered in,
+   * else the app whose codeunit range contains it
+   */
+  private _getTestApp(
+    config: BCTestConfig,
+    codeunitId: number,
+    appName?: string
+  ): TestApp {
+    const name = appName ?? this._discovery.findCodeunit(codeunitId)?.app;
+    return (
+      (name ? findTestApp(config, name) : undefined) ??
+      findTestAppForCodeunit(config, codeunitId) ??
+      config.testApps[0]
+    );
+  }
+
+  /**
+   * Get or create a codeunit item below its test app
+   */
+  private _getOrCreateCodeunit(
+    config: BCTestConfig,
+    codeunitId: number,
+    label: string,
+    uri?: vscode.Uri,
+    appName?: string
+  ): vscode.TestItem {
+    const app = this._getOrCreateApp(
+      this._getTestApp(config, codeunitId, appName)
+    );
+    const id = `codeunit:${codeunitId}`;
+
+    // A codeunit moved to another test app is recreated below it
+    this._controller.items.forEach((other) => {
+      if (other !== app) {
+        other.children.delete(id);
+      }
+    });
+
+    let item = app.children.get(id);
+    if (item && uri && item.uri?.fsPath !== uri.fsPath) {
+      // The uri of a test item is immutable - recreate it with the source file
+      app.children.delete(id);
+      item = undefined;
+    }
+    if (!item) {
+      item = this._controller.createTestItem(id, label, uri);
+      this._itemData.set(item, { kind: "codeunit", codeunitId });
+      app.children.add(item);
+    } else if (item.label.startsWith("Codeunit ") && label !== item.label) {
+      // Replace the placeholder label once the real name is known
+      item.label = label;
+    }
+    item.description = String(codeunitId);
+    return item;
+  }
+
+  /**
+   * Get or create a method item below a codeunit
+   */
+  private _getOrCreateMethod(
+    codeunitItem: vscode.TestItem,
+    codeunitId: number,
+    method: string,
+    uri?: vscode.Uri
+  ): vscode.TestItem {
+    const id = `test:${codeunitId}:${method}`;
+    let item = codeunitItem.children.get(id);
+    if (item && uri && item.uri?.fsPath !== uri.fsPath) {
+      codeunitItem.children.delete(id);
+      item = undefined;
+    }
+    if (!item) {
+      item = this._controller.createTestItem(id, method, uri);
+      this._itemData.set(item, { kind: "method", codeunitId, method });
+      codeunitItem.children.add(item);
+    }
+    return item;
+  }
+
+  /**
+   * Find the method item for a codeunit/method pair
+   */
+  private _findMethod(
+    codeunitId: number,
+    method: string
+  ): vscode.TestItem | undefined {
+    let found: vscode.TestItem | undefined;
+    this._controller.items.forEach((app) => {
+      found =
+        found ??
+        app.children
+          .get(`codeunit:${codeunitId}`)
+          ?.children.get(`test:${codeunitId}:${method}`);
+    });
+    return found;
+  }
+
+  /**
+   * Key identifying a result set, which changes when its file is rewritten
+   * with new outcomes
+   */
+  private _getResultsKey(results: AITestResults): string {
+    return `${results.FilePath ?? ""}|${results.timestamp}`;
+  }
+
+  /**
+   * Map result outcomes onto a test run
+   */
+  private _applyResults(run: vscode.TestRun, results: AITestResults): void {
+    this._shownResults = this._getResultsKey(results);
+
+    const failures = new Map<string, TestFailure>();
+    for (const failure of results.tests.failures) {
+      failures.set(`${failure.codeunitId}:${failure.method}`, failure);
+    }
+
+    for (const test of results.tests.allTests) {
+      const item = this._findMethod(test.codeunitId, test.method);
+      if (!item) {
+        continue;
+      }
+
+      const duration = parseDuration(test.duration) * 1000;
+      switch (test.result) {
+        case "Pass":
+          run.passed(item, duration);
+          break;
+        case "Fail": {
+          const failure = failures.get(`${test.codeunitId}:${test.method}`);
+          run.failed(
+            item,
+            failure
+              ? this._createFailureMessage(failure)
+              : new vscode.TestMessage("Test failed"),
+            duration
+          );
+          break;
+        }
+        case "Skip":
+          run.skipped(item);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Reflect a streamed progress event on a running test run.
+   * Failure details arrive with the final results.
+   */
+  private _applyProgressEvent(
+    run: vscode.TestRun,
+    config: BCTestConfig,
+    event: ProgressEvent
+  ): void {
+    if (event.type === "phase" || event.codeunitId === 0) {
+      return;
+    }
+
+    if (event.type === "codeunitStarted") {
+      const codeunitItem = this._getOrCreateCodeunit(
+        config,
+        event.codeunitId,
+        event.codeunit
+      );
+      codeunitItem.children.forEach((child) => run.started(child));
+      return;
+    }
+
+    if (event.type === "codeunitFinished") {
+      this._getOrCreateCodeunit(config, event.codeunitId, event.codeunit);
+      return;
+    }
+
+    const codeunitItem = this._getOrCreateCodeunit(
+      config,
+      event.codeunitId,
+      this._discovery.findCodeunit(event.codeunitId)?.name ??
+        `Codeunit ${event.codeunitId}`
+    );
+    const item = this._getOrCreateMethod(
+      codeunitItem,
+      event.codeunitId,
+      event.method
+    );
+
+    if (event.type === "testStarted") {
+      run.started(item);
+      return;
+    }
+
+    const duration = Math.round(event.duration * 1000);
+    switch (event.result) {
+      case "Pass":
+        run.passed(item, duration);
+        break;
+      case "Fail":
+        run.failed(
+          item,
+          new vscode.TestMessage(event.message ?? "Test failed"),
+          duration
+        );
+        break;
+      case "Skip":
+        run.skipped(item);
+        break;
+    }
+  }
+
+  /**
+   * Build a test message with the failing AL location
+   */
+  private _createFailureMessage(failure: TestFailure): vscode.TestMessage {
+    const message = new vscode.TestMessage(failure.error || "Test failed");
+
+    if (failure.filePath) {
+      const line = Math.max((failure.lineNumber ?? 1) - 1, 0);
+      message.location = new vscode.Location(
+        vscode.Uri.file(failure.filePath),
+        new vscode.Position(line, 0)
+      );
+    }
+
+    if (failure.stackTrace) {
+      message.stackTrace = failure.stackTrace
+        .split(/\r?\n/)
+        .map((frame) => frame.trim())
+        .filter((frame) => frame.length > 0)
+        .map((frame) => new vscode.TestMessageStackFrame(frame));
+    }
+
+    return message;
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this._disposables.forEach((d) => d.dispose());
+  }
+}
+
+/**
+ * Merge the results of a codeunit batch into the results of the earlier
+ * batches of a run, keeping the file of the first batch
+ */
+function mergeBatch(
+  merged: AITestResults,
+  batch: AITestResults
+): AITestResults {
+  const results = mergeResults(merged, batch);
+  if (batch.FilePath && batch.FilePath !== merged.FilePath) {
+    removeResultsFile(batch.FilePath);
+  }
+  writeAIResultsFile(results);
+  return results;
+}
+
+/**
+ * AL debugger target of an environment. Servers of Business Central online
+ * (https://businesscentral.dynamics.com/<tenant>/<environment>) are
+ * attached as a sandbox, containers and other servers as on-premises.
+ */
+function getDebugTarget(
+  environment: BCTestEnvironment
+): Record<string, string> {
+  // The AL debugger knows NavUserPassword as UserPassword
+  const authentication =
+    environment.authentication === "NavUserPassword"
+      ? "UserPassword"
+      : environment.authentication;
+
+  const url = new URL(environment.server);
+  if (url.hostname.toLowerCase().endsWith(".dynamics.com")) {
+    const segments = url.pathname.split("/").filter((s) => s.length > 0);
+    return {
+      environmentType: "Sandbox",
+      environmentName: segments[segments.length - 1] ?? "",
+      authentication: "MicrosoftEntraID",
+    };
+  }
+
+  return {
+    environmentType: "OnPrem",
+    server: environment.server,
+    serverInstance: environment.serverInstance,
+    authentication,
+  };
+}
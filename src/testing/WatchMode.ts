@@ -0,0 +1,304 @@
+/**
+ * BC Test Runner - Watch Mode
+ *
+ * Re-runs the test codeunits affected by saved .al files. Saves are
+ * debounced, mapped to test codeunits through the dependency index and
+ * executed through the Test Explorer; a newer change cancels the run in
+ * flight and is run together with the files of the cancelled run.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import { ConfigManager } from "../config/ConfigManager";
+import { BCTestConfig } from "../config/schemas";
+import { getTestAppFolders, getTestCodeunitFilter } from "../config/testApps";
+import { isInCodeunitFilter } from "../discovery/codeunitFilter";
+import { DependencyIndex } from "../discovery/DependencyIndex";
+import { BCTestController } from "./BCTestController";
+
+/**
+ * Watch run that can be superseded by a newer change
+ */
+interface WatchRun {
+  tokenSource: vscode.CancellationTokenSource;
+  done: Promise<void>;
+}
+
+/**
+ * Runs affected tests when AL files are saved
+ */
+export class WatchMode implements vscode.Disposable {
+  private _enabled = false;
+  private _folders: string[] = [];
+  private _pending = new Set<string>();
+  private _timer: NodeJS.Timeout | undefined;
+  private _currentRun: WatchRun | undefined;
+  private _index = new DependencyIndex();
+  private _statusBarItem: vscode.StatusBarItem;
+  private _disposables: vscode.Disposable[] = [];
+  private _watchDisposables: vscode.Disposable[] = [];
+
+  constructor(
+    private _configManager: ConfigManager,
+    private _testController: BCTestController,
+    private _outputChannel: vscode.OutputChannel
+  ) {
+    this._statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      99
+    );
+    this._statusBarItem.command = "bcTestRunner.toggleWatchMode";
+    this._disposables.push(this._statusBarItem);
+  }
+
+  /**
+   * Whether saved files are being watched
+   */
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  /**
+   * Turn watch mode on or off
+   */
+  async toggle(): Promise<void> {
+    if (this._enabled) {
+      this.stop();
+    } else {
+      await this.start();
+    }
+  }
+
+  /**
+   * Start watching the .al files of the configured apps
+   */
+  async start(): Promise<void> {
+    if (this._enabled) {
+      return;
+    }
+
+    const config = await this._loadConfig();
+    if (!config) {
+      vscode.window.showWarningMessage("No bctest.config.json found");
+      return;
+    }
+
+    this._enabled = true;
+    this._useConfig(config);
+    this._watchDisposables.push(
+      vscode.workspace.onDidSaveTextDocument((document) =>
+        this._onDidSave(document)
+      ),
+      this._configManager.onDidChangeConfig(async () => {
+        const changed = await this._loadConfig();
+        if (changed && this._enabled) {
+          this._useConfig(changed);
+        }
+      })
+    );
+
+    this._outputChannel.appendLine(
+      `[Watch] Watching ${this._folders.length} app folder(s) for changes`
+    );
+    this._updateStatusBar();
+  }
+
+  /**
+   * Stop watching and cancel the watch run in flight
+   */
+  stop(): void {
+    if (!this._enabled) {
+      return;
+    }
+
+    this._enabled = false;
+    clearTimeout(this._timer);
+    this._timer = undefined;
+    this._pending.clear();
+    this._currentRun?.tokenSource.cancel();
+    this._watchDisposables.forEach((d) => d.dispose());
+    this._watchDisposables = [];
+
+    this._outputChannel.appendLine("[Watch] Stopped watching");
+    this._updateStatusBar();
+  }
+
+  /**
+   * Queue a saved .al file of the watched apps and restart the debounce
+   */
+  private _onDidSave(document: vscode.TextDocument): void {
+    const filePath = document.uri.fsPath;
+    if (
+      !filePath.toLowerCase().endsWith(".al") ||
+      !this._folders.some((folder) => isInFolder(filePath, folder))
+    ) {
+      return;
+    }
+
+    const debounce = vscode.workspace
+      .getConfiguration("bcTestRunner")
+      .get("watchDebounce", 1000);
+
+    this._pending.add(filePath);
+    clearTimeout(this._timer);
+    this._timer = setTimeout(() => {
+      this._timer = undefined;
+      this._runPending();
+    }, debounce);
+  }
+
+  /**
+   * Cancel the run in flight and run the tests of the pending changes once
+   * it has stopped
+   */
+  private async _runPending(): Promise<void> {
+    const previous = this._currentRun;
+    previous?.tokenSource.cancel();
+
+    const tokenSource = new vscode.CancellationTokenSource();
+    const run: WatchRun = {
+      tokenSource,
+      done: (async () => {
+        // Its failure was reported by its own call
+        await previous?.done.catch(() => undefined);
+        if (!tokenSource.token.isCancellationRequested) {
+          await this._runAffected(tokenSource.token);
+        }
+      })(),
+    };
+    this._currentRun = run;
+
+    try {
+      await run.done;
+    } catch (error) {
+      this._outputChannel.appendLine(
+        `[Watch] Failed to run affected tests: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    } finally {
+      if (this._currentRun === run) {
+        this._currentRun = undefined;
+        this._updateStatusBar();
+      }
+      tokenSource.dispose();
+    }
+  }
+
+  /**
+   * Run the test codeunits affected by the pending changes. The changes go
+   * back to the pending set when the run is cancelled by a newer change.
+   */
+  private async _runAffected(token: vscode.CancellationToken): Promise<void> {
+    const changed = [...this._pending];
+    this._pending.clear();
+    if (changed.length === 0) {
+      return;
+    }
+
+    const config = await this._loadConfig();
+    if (!config) {
+      return;
+    }
+
+    this._index.refresh(this._folders);
+    const range = getTestCodeunitFilter(config.testApps);
+    const affected = this._index
+      .findAffectedCodeunits(changed)
+      .filter((codeunit) => isInCodeunitFilter(codeunit.id, range));
+
+    const files = changed.map((file) => path.basename(file)).join(", ");
+    if (affected.length === 0) {
+      this._outputChannel.appendLine(
+        `[Watch] No test codeunits affected by ${files}`
+      );
+      return;
+    }
+
+    this._outputChannel.appendLine(
+      `[Watch] ${files} changed - running ${affected.length} test codeunit(s):`
+    );
+    for (const codeunit of affected) {
+      this._outputChannel.appendLine(
+        `[Watch]   ${codeunit.name} (${codeunit.id}): ${codeunit.reason}`
+      );
+    }
+
+    if (!token.isCancellationRequested) {
+      this._updateStatusBar(affected.length);
+      await this._testController.runSelections(
+        affected.map((codeunit) => ({ codeunitId: codeunit.id })),
+        token
+      );
+    }
+
+    if (token.isCancellationRequested && this._enabled) {
+      this._outputChannel.appendLine("[Watch] Superseded by a newer change");
+      changed.forEach((file) => this._pending.add(file));
+    }
+  }
+
+  /**
+   * Watch the app and test app folders of a configuration
+   */
+  private _useConfig(config: BCTestConfig): void {
+    this._folders = [
+      ...new Set([
+        ...config.apps.map((folder) =>
+          path.resolve(config.workspacePath, folder)
+        ),
+        ...getTestAppFolders(config),
+      ]),
+    ];
+  }
+
+  private async _loadConfig(): Promise<BCTestConfig | undefined> {
+    try {
+      const configPath = await this._configManager.findConfigFile();
+      return configPath
+        ? await this._configManager.loadConfig(configPath)
+        : undefined;
+    } catch (error) {
+      this._outputChannel.appendLine(
+        `[Watch] Failed to load configuration: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Show the watch state, or the number of codeunits being run
+   */
+  private _updateStatusBar(running?: number): void {
+    if (!this._enabled) {
+      this._statusBarItem.hide();
+      return;
+    }
+
+    this._statusBarItem.text = running
+      ? `$(sync~spin) Watch: ${running} codeunit(s)`
+      : "$(eye-watch) Watch";
+    this._statusBarItem.tooltip =
+      "BC Test Runner watch mode: affected tests run when .al files are saved. Click to stop.";
+    this._statusBarItem.show();
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this.stop();
+    this._disposables.forEach((d) => d.dispose());
+  }
+}
+
+function isInFolder(filePath: string, folder: string): boolean {
+  const relative = path.relative(folder, filePath);
+  return (
+    relative.length > 0 &&
+    !relative.startsWith("..") &&
+    !path.isAbsolute(relative)
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * BC Test Runner - Parallel Execution
+ *
+ * Runs the test pipeline sharded across several environments: the apps are
+ * compiled once, then every shard publishes and runs its codeunits in its
+ * own PowerShell host at the same time, and the shard results are merged.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { BCTestConfig } from "../config/schemas";
+import {
+  getTestAppFolders,
+  getTestCodeunitFilter,
+  selectTestApps,
+} from "../config/testApps";
+import { DependencyIndex } from "../discovery/DependencyIndex";
+import { TestHistory } from "../history/TestHistory";
+import {
+  AITestResults,
+  CompilationResult,
+  ExecutionOptions,
+  PowerShellResult,
+  PowerShellRunner,
+} from "../powershell/PowerShellRunner";
+import { applyCompilationResult } from "../results/alcOutputParser";
+import { formatTimeSpan } from "../results/duration";
+import {
+  removeResultsFile,
+  writeAIResultsFile,
+} from "../results/resultsWriter";
+import {
+  Shard,
+  getCodeunitDurations,
+  getShardFilter,
+  mergeShardResults,
+  planShards,
+  resolveShardCodeunits,
+} from "./sharding";
+
+/**
+ * Options of a sharded run
+ */
+export interface ShardedRunOptions extends ExecutionOptions {
+  /** Credentials per environment name */
+  credentials: Map<string, { username: string; password: string }>;
+  /** Folder the compile failure of a sharded run is written to */
+  resultsFolder: string;
+  skipCompile?: boolean;
+  skipPublish?: boolean;
+  /** Test app to run, all configured test apps when not given */
+  testApp?: string;
+}
+
+/**
+ * Plan the shards of a run. Returns no shards when parallel execution is
+ * disabled or fewer than two environments would get codeunits.
+ *
+ * The codeunits are the test codeunits found in the source of the test
+ * apps, and those that ran before according to the history.
+ *
+ * @param testApp Test app to shard the codeunits of, all when not given
+ */
+export function planShardedRun(
+  config: BCTestConfig,
+  resultsFolder: string,
+  testApp?: string
+): Shard[] {
+  const environments = config.testExecution?.parallelExecution
+    ? [...new Set(config.testExecution.shardEnvironments ?? [])]
+    : [];
+  if (environments.length < 2) {
+    return [];
+  }
+
+  for (const name of environments) {
+    if (!config.environments.some((e) => e.name === name)) {
+      throw new Error(`Shard environment '${name}' not found`);
+    }
+  }
+
+  const index = new DependencyIndex();
+  index.refresh(getTestAppFolders(config));
+  const discovered = index.getTestCodeunits().map((codeunit) => codeunit.id);
+
+  const entries = new TestHistory(resultsFolder).getEntries();
+  const durations = getCodeunitDurations(entries);
+  const codeunitIds = resolveShardCodeunits(
+    getTestCodeunitFilter(selectTestApps(config, testApp)),
+    [...discovered, ...durations.keys()]
+  );
+
+  const shards = planShards(codeunitIds, environments, durations);
+  return shards.length >= 2 ? shards : [];
+}
+
+/**
+ * Run the pipeline with the codeunits split across the planned shards
+ */
+export async function runSharded(
+  runner: PowerShellRunner,
+  configPath: string,
+  config: BCTestConfig,
+  shards: Shard[],
+  options: ShardedRunOptions
+): Promise<PowerShellResult<AITestResults>> {
+  const startTime = Date.now();
+
+  // Compile once - the shards publish the same app files
+  let compilation: CompilationResult | undefined;
+  if (!options.skipCompile) {
+    const compiled = await runner.compileApps(
+      configPath,
+      shards[0].environment,
+      {
+        ...options,
+        credential: options.credentials.get(shards[0].environment),
+      }
+    );
+    if (!compiled.success || !compiled.data) {
+      return {
+        success: false,
+        error: compiled.error,
+        errorDetails: compiled.errorDetails,
+        duration: Date.now() - startTime,
+        cancelled: compiled.cancelled,
+      };
+    }
+
+    compilation = compiled.data;
+    if (!compilation.success) {
+      return {
+        success: true,
+        data: writeCompileFailure(
+          config,
+          shards[0].environment,
+          compilation,
+          options.resultsFolder
+        ),
+        duration: Date.now() - startTime,
+        cancelled: false,
+      };
+    }
+  }
+
+  const forks: PowerShellRunner[] = [];
+  try {
+    const results = await Promise.all(
+      shards.map((shard, index) => {
+        let shardRunner = runner;
+        if (index > 0) {
+          shardRunner = runner.fork();
+          forks.push(shardRunner);
+        }
+
+        return shardRunner.runTests(configPath, shard.environment, {
+          ...options,
+          credential: options.credentials.get(shard.environment),
+          skipCompile: true,
+          skipPublish: options.skipPublish,
+          codeunitFilter: getShardFilter(shard),
+          shard: `shard${index + 1}`,
+        });
+      })
+    );
+
+    if (results.some((r) => r.cancelled)) {
+      return {
+        success: false,
+        error: "Operation was cancelled",
+        duration: Date.now() - startTime,
+        cancelled: true,
+      };
+    }
+
+    const failed = results
+      .map((result, index) => ({ result, shard: shards[index] }))
+      .filter(({ result }) => !result.success || !result.data);
+    if (failed.length > 0) {
+      return {
+        success: false,
+        error: failed
+          .map(
+            ({ result, shard }) =>
+              `Shard ${shard.environment}: ${result.error ?? "no results"}`
+          )
+          .join("\n"),
+        errorDetails: failed[0].result.errorDetails,
+        duration: Date.now() - startTime,
+        cancelled: false,
+      };
+    }
+
+    const shardResults = results.map((r) => r.data as AITestResults);
+    const merged = mergeShardResults(shards, shardResults);
+    if (compilation) {
+      merged.compilation = compilation;
+    }
+
+    // The merged set replaces the shard files as the latest result
+    merged.FilePath = shardResults[0].FilePath;
+    for (const result of shardResults.slice(1)) {
+      if (result.FilePath) {
+        removeResultsFile(result.FilePath);
+      }
+    }
+    if (merged.FilePath) {
+      writeAIResultsFile(merged);
+    }
+
+    return {
+      success: true,
+      data: merged,
+      duration: Date.now() - startTime,
+      cancelled: false,
+    };
+  } finally {
+    for (const fork of forks) {
+      fork.dispose();
+    }
+  }
+}
+
+/**
+ * Write the results of a sharded run that stopped at compilation, in the
+ * shape the PowerShell pipeline exports for a failed compile
+ */
+function writeCompileFailure(
+  config: BCTestConfig,
+  environmentName: string,
+  compilation: CompilationResult,
+  resultsFolder: string
+): AITestResults {
+  const environment = config.environments.find(
+    (e) => e.name === environmentName
+  );
+  const now = new Date();
+
+  const results: AITestResults = applyCompilationResult({
+    schema: "1.0",
+    timestamp: now.toISOString(),
+    environment: {
+      name: environmentName,
+      server: environment?.server ?? "",
+      serverInstance: environment?.serverInstance ?? "",
+      authentication: environment?.authentication ?? "",
+    },
+    tests: {
+      success: false,
+      summary: { total: 0, passed: 0, failed: 0, skipped: 0 },
+      duration: formatTimeSpan(0),
+      failures: [],
+      allTests: [],
+    },
+    aiContext: { analysisHints: [], suggestedActions: [] },
+    compilation,
+  });
+
+  fs.mkdirSync(resultsFolder, { recursive: true });
+  results.FilePath = path.join(
+    resultsFolder,
+    `TestResults_${formatFileTimestamp(now)}_AI.json`
+  );
+  writeAIResultsFile(results);
+  return results;
+}
+
+/**
+ * Format a date like the PowerShell result file names (yyyyMMdd_HHmmss)
+ */
+function formatFileTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `_${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * BC Test Runner - Re-run Failed Tests
+ *
+ * Re-executes only the failed tests of a previous run, one codeunit at a
+ * time, and merges the outcomes back into the previous result set.
+ */
+
+import {
+  PowerShellRunner,
+  PowerShellResult,
+  ExecutionOptions,
+  AITestResults,
+  TestFailure,
+} from "../powershell/PowerShellRunner";
+import { mergeResults } from "../results/resultsMerger";
+import {
+  removeResultsFile,
+  writeAIResultsFile,
+} from "../results/resultsWriter";
+import type { CodeunitSelection } from "./BCTestController";
+
+/**
+ * Group failures into per-codeunit selections of failed methods
+ */
+export function groupFailuresByCodeunit(
+  failures: TestFailure[]
+): CodeunitSelection[] {
+  const byCodeunit = new Map<number, string[]>();
+  for (const failure of failures) {
+    const methods = byCodeunit.get(failure.codeunitId) ?? [];
+    if (!methods.includes(failure.method)) {
+      methods.push(failure.method);
+    }
+    byCodeunit.set(failure.codeunitId, methods);
+  }
+
+  return [...byCodeunit.entries()].map(([codeunitId, methods]) => ({
+    codeunitId,
+    methods,
+  }));
+}
+
+/**
+ * Re-run the failures of a previous result set and merge the outcomes.
+ * The merged set is written over the AI JSON file of the previous set, so
+ * the history keeps one entry for the run, and the files of the re-runs
+ * are removed.
+ */
+export async function rerunFailedTests(
+  runner: PowerShellRunner,
+  configPath: string,
+  environmentName: string,
+  previous: AITestResults,
+  options?: ExecutionOptions & {
+    credential?: { username: string; password: string };
+  }
+): Promise<PowerShellResult<AITestResults>> {
+  const startTime = Date.now();
+  const selections = groupFailuresByCodeunit(previous.tests.failures);
+
+  let merged = previous;
+  const rerunFiles: string[] = [];
+
+  for (const selection of selections) {
+    if (options?.cancellationToken?.isCancellationRequested) {
+      break;
+    }
+
+    const result = await runner.executeTests(configPath, environmentName, {
+      ...options,
+      codeunitFilter: String(selection.codeunitId),
+      // BC test method filters accept the AL "|" or-syntax
+      testMethod: selection.methods?.join("|"),
+    });
+
+    if (!result.success || !result.data) {
+      return { ...result, duration: Date.now() - startTime };
+    }
+
+    merged = mergeResults(merged, result.data);
+    if (result.data.FilePath) {
+      rerunFiles.push(result.data.FilePath);
+    }
+  }
+
+  if (options?.cancellationToken?.isCancellationRequested) {
+    return {
+      success: false,
+      error: "Operation was cancelled",
+      duration: Date.now() - startTime,
+      cancelled: true,
+    };
+  }
+
+  // Results read from a bare XUnit file have no AI JSON file to update,
+  // so the last re-run's file takes their place
+  const target = previous.FilePath?.endsWith("_AI.json")
+    ? previous.FilePath
+    : rerunFiles[rerunFiles.length - 1];
+  for (const file of rerunFiles) {
+    if (file !== target) {
+      removeResultsFile(file);
+    }
+  }
+  if (target) {
+    merged = { ...merged };
+    merged.FilePath = target;
+    writeAIResultsFile(merged);
+  }
+
+  return {
+    success: true,
+    data: merged,
+    duration: Date.now() - startTime,
+    cancelled: false,
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * BC Test Runner - Retry Failed Tests
+ *
+ * Re-executes the failed methods of a run up to a configured number of
+ * times and records how many attempts each test took, so tests that only
+ * passed on a retry stay visible.
+ */
+
+import { BCTestConfig } from "../config/schemas";
+import {
+  PowerShellRunner,
+  ExecutionOptions,
+  AITestResults,
+} from "../powershell/PowerShellRunner";
+import {
+  mergeResults,
+  summarize,
+  summarizeApps,
+  testKey,
+} from "../results/resultsMerger";
+import {
+  removeResultsFile,
+  writeAIResultsFile,
+} from "../results/resultsWriter";
+import { groupFailuresByCodeunit } from "./rerunFailed";
+
+const RETRY_HINT =
+  "Tests with passedOnRetry failed on the first attempt and passed on a retry - check them for flakiness before trusting the pass";
+
+/**
+ * Number of retries of a failed test, 0 when retries are disabled
+ */
+export function getMaxRetries(config: BCTestConfig): number {
+  return config.testExecution?.retryFailedTests
+    ? config.testExecution.maxRetries
+    : 0;
+}
+
+/**
+ * Retry the failures of a run until they pass or the retries are used up.
+ * Each round re-runs the remaining failures one codeunit at a time, on the
+ * environment that ran the codeunit: its shard's environment for sharded
+ * runs, else environmentName. The final results, with the suggested
+ * actions and error locations of the remaining failures, are written over
+ * the file of the original run, and the result files of the retries are
+ * removed.
+ */
+export async function retryFailedTests(
+  runner: PowerShellRunner,
+  configPath: string,
+  environmentName: string,
+  results: AITestResults,
+  options: ExecutionOptions & {
+    credential?: { username: string; password: string };
+    /** Credentials of the shard environments of a sharded run, by name */
+    shardCredentials?: Map<string, { username: string; password: string }>;
+    maxRetries: number;
+    onRetry?: (attempt: number, failures: number) => void;
+  }
+): Promise<AITestResults> {
+  const attempts = new Map<string, number>();
+  let merged = results;
+
+  for (let retry = 1; retry <= options.maxRetries; retry++) {
+    const failures = merged.tests.failures;
+    if (
+      failures.length === 0 ||
+      options.cancellationToken?.isCancellationRequested
+    ) {
+      break;
+    }
+
+    options.onRetry?.(retry + 1, failures.length);
+
+    for (const selection of groupFailuresByCodeunit(failures)) {
+      if (options.cancellationToken?.isCancellationRequested) {
+        break;
+      }
+
+      // The apps of a sharded run are only published to its shards
+      const shard = results.shards?.find((s) =>
+        s.codeunitIds.includes(selection.codeunitId)
+      );
+      const environment = shard?.environment ?? environmentName;
+      const result = await runner.executeTests(configPath, environment, {
+        ...options,
+        credential: shard
+          ? options.shardCredentials?.get(shard.environment)
+          : options.credential,
+        codeunitFilter: String(selection.codeunitId),
+        // BC test method filters accept the AL "|" or-syntax
+        testMethod: selection.methods?.join("|"),
+      });
+
+      // A retry that cannot run leaves the outcome of the previous attempt
+      if (!result.success || !result.data) {
+        continue;
+      }
+
+      for (const test of result.data.tests.allTests) {
+        attempts.set(testKey(test), retry + 1);
+      }
+      merged = mergeResults(merged, result.data);
+
+      // The AI JSON and XUnit files of the retry are merged into the run
+      if (result.data.FilePath && result.data.FilePath !== results.FilePath) {
+        removeResultsFile(result.data.FilePath);
+      }
+    }
+  }
+
+  if (attempts.size === 0) {
+    return results;
+  }
+
+  const updated = applyAttempts(merged, attempts);
+  updated.FilePath = results.FilePath;
+  if (updated.FilePath) {
+    writeAIResultsFile(updated);
+  }
+  return updated;
+}
+
+/**
+ * Record the attempts of retried tests in a result set and recalculate the
+ * shard summaries of a sharded run
+ */
+export function applyAttempts(
+  results: AITestResults,
+  attempts: Map<string, number>
+): AITestResults {
+  const allTests = results.tests.allTests.map((test) => {
+    const count = attempts.get(testKey(test));
+    return count
+      ? { ...test, attempts: count, passedOnRetry: test.result === "Pass" }
+      : test;
+  });
+  const failures = results.tests.failures.map((failure) => {
+    const count = attempts.get(testKey(failure));
+    return count ? { ...failure, attempts: count } : failure;
+  });
+  const passedAfterRetry = allTests.filter((t) => t.passedOnRetry).length;
+
+  const analysisHints = results.aiContext.analysisHints.filter(
+    (hint) => hint !== RETRY_HINT
+  );
+  if (passedAfterRetry > 0) {
+    analysisHints.push(RETRY_HINT);
+  }
+
+  return {
+    ...results,
+    tests: {
+      ...results.tests,
+      summary: { ...results.tests.summary, passedAfterRetry },
+      failures,
+      allTests,
+      apps: summarizeApps(results.tests.apps, allTests),
+    },
+    aiContext: {
+      ...results.aiContext,
+      analysisHints,
+    },
+    shards: results.shards?.map((shard) => {
+      const summary = summarize(
+        allTests.filter((t) => shard.codeunitIds.includes(t.codeunitId))
+      );
+      return {
+        ...shard,
+        success: summary.failed === 0 && summary.total > 0,
+        summary,
+      };
+    }),
+  };
+}
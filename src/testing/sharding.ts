@@ -0,0 +1,195 @@
+/**
+ * BC Test Runner - Test Sharding
+ *
+ * Splits the test codeunits of a run into shards, one per environment,
+ * balanced by the durations the codeunits took in previous runs, and
+ * merges the per-shard results back into one result set.
+ */
+
+import { AITestResults, ShardSummary } from "../powershell/PowerShellRunner";
+import { HistoryEntry } from "../history/TestHistory";
+import { formatTimeSpan, parseDuration } from "../results/duration";
+import {
+  buildSuggestedActions,
+  combineApps,
+  summarize,
+  summarizeApps,
+} from "../results/resultsMerger";
+import {
+  formatCodeunitFilter,
+  isInCodeunitFilter,
+  parseCodeunitFilter,
+} from "../discovery/codeunitFilter";
+
+// Largest range expanded into codeunit IDs when nothing is known about
+// the codeunits in it
+const MAX_EXPANDED_RANGE = 1000;
+
+/**
+ * Codeunits assigned to an environment
+ */
+export interface Shard {
+  environment: string;
+  codeunitIds: number[];
+  /** Expected duration in seconds, from the history */
+  estimatedDuration: number;
+}
+
+/**
+ * Duration in seconds of each codeunit in the most recent run that
+ * executed it
+ */
+export function getCodeunitDurations(
+  entries: HistoryEntry[]
+): Map<number, number> {
+  const durations = new Map<number, number>();
+
+  // Newest run first, so the latest duration of a codeunit wins
+  for (const entry of [...entries].reverse()) {
+    const perRun = new Map<number, number>();
+    for (const test of entry.tests) {
+      perRun.set(
+        test.codeunitId,
+        (perRun.get(test.codeunitId) ?? 0) + test.duration
+      );
+    }
+    for (const [codeunitId, duration] of perRun) {
+      if (!durations.has(codeunitId)) {
+        durations.set(codeunitId, duration);
+      }
+    }
+  }
+
+  return durations;
+}
+
+/**
+ * Codeunits of a range to shard: the known codeunits in the range, or every
+ * ID of the range when none are known and the range is small enough
+ */
+export function resolveShardCodeunits(
+  range: string,
+  knownCodeunitIds: Iterable<number>
+): number[] {
+  const known = [...new Set(knownCodeunitIds)].filter((id) =>
+    isInCodeunitFilter(id, range)
+  );
+  if (known.length > 0) {
+    return known.sort((a, b) => a - b);
+  }
+
+  const ids: number[] = [];
+  for (const { from, to } of parseCodeunitFilter(range)) {
+    if (!Number.isFinite(to) || to - from + 1 > MAX_EXPANDED_RANGE) {
+      return [];
+    }
+    for (let id = from; id <= to; id++) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Assign codeunits to environments so the shards take about the same time.
+ * The longest codeunits are placed first, each on the least loaded shard;
+ * codeunits without history count with the average known duration.
+ */
+export function planShards(
+  codeunitIds: number[],
+  environments: string[],
+  durations: Map<number, number> = new Map()
+): Shard[] {
+  const known = codeunitIds
+    .map((id) => durations.get(id))
+    .filter((d): d is number => d !== undefined);
+  const fallback =
+    known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 1;
+
+  const shards: Shard[] = environments.map((environment) => ({
+    environment,
+    codeunitIds: [],
+    estimatedDuration: 0,
+  }));
+  if (shards.length === 0) {
+    return shards;
+  }
+
+  const ordered = [...codeunitIds].sort(
+    (a, b) =>
+      (durations.get(b) ?? fallback) - (durations.get(a) ?? fallback) || a - b
+  );
+  for (const id of ordered) {
+    const target = shards.reduce((least, shard) =>
+      shard.estimatedDuration < least.estimatedDuration ? shard : least
+    );
+    target.codeunitIds.push(id);
+    target.estimatedDuration += durations.get(id) ?? fallback;
+  }
+
+  for (const shard of shards) {
+    shard.codeunitIds.sort((a, b) => a - b);
+    shard.estimatedDuration = Math.round(shard.estimatedDuration * 10) / 10;
+  }
+  return shards.filter((shard) => shard.codeunitIds.length > 0);
+}
+
+/**
+ * Codeunit filter that runs the codeunits of a shard
+ */
+export function getShardFilter(shard: Shard): string {
+  return formatCodeunitFilter(shard.codeunitIds);
+}
+
+/**
+ * Merge the results of the shards of a run into one result set. Shards run
+ * at the same time, so the test duration is that of the slowest shard.
+ */
+export function mergeShardResults(
+  shards: Shard[],
+  results: AITestResults[]
+): AITestResults {
+  const [first] = results;
+  const allTests = results.flatMap((r) => r.tests.allTests);
+  const failures = results.flatMap((r) => r.tests.failures);
+  const summary = summarize(allTests);
+  const errors = results
+    .filter((r) => r.tests.error)
+    .map((r) => `${r.environment.name}: ${r.tests.error}`);
+
+  const shardSummaries: ShardSummary[] = results.map((result, index) => ({
+    environment: result.environment.name,
+    codeunitIds: shards[index].codeunitIds,
+    success: result.tests.success,
+    summary: result.tests.summary,
+    duration: result.tests.duration,
+  }));
+
+  return {
+    ...first,
+    timestamp: results
+      .map((r) => r.timestamp)
+      .sort()
+      .slice(-1)[0],
+    tests: {
+      success: summary.failed === 0 && summary.total > 0 && errors.length === 0,
+      summary,
+      duration: formatTimeSpan(
+        Math.max(...results.map((r) => parseDuration(r.tests.duration)))
+      ),
+      error: errors.length > 0 ? errors.join("; ") : undefined,
+      failures,
+      allTests,
+      apps: summarizeApps(
+        combineApps(results.map((r) => r.tests.apps)),
+        allTests
+      ),
+    },
+    aiContext: {
+      ...first.aiContext,
+      suggestedActions: buildSuggestedActions(failures),
+      errorLocations: results.flatMap((r) => r.aiContext.errorLocations ?? []),
+    },
+    shards: shardSummaries,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * BC Test Runner - Suite Run
+ *
+ * Runs the suites selected by a tag one after another and merges their
+ * outcomes into a single result set.
+ */
+
+import { CancellationSignal } from "../platform/types";
+import {
+  PowerShellResult,
+  AITestResults,
+} from "../powershell/PowerShellRunner";
+import { mergeResults } from "../results/resultsMerger";
+import {
+  removeResultsFile,
+  writeAIResultsFile,
+} from "../results/resultsWriter";
+
+/**
+ * Run a list of selections in turn and merge their results. The merged set
+ * is written over the file of the first run and the files of the other
+ * runs are removed. A failed run or compilation stops the remaining runs.
+ *
+ * @param run Runs one selection; index 0 is the first run of the list
+ */
+export async function runSuites<T>(
+  selections: T[],
+  run: (
+    selection: T,
+    index: number
+  ) => Promise<PowerShellResult<AITestResults>>,
+  cancellationToken?: CancellationSignal
+): Promise<PowerShellResult<AITestResults>> {
+  const startTime = Date.now();
+  let merged: AITestResults | undefined;
+  const files: string[] = [];
+
+  for (const [index, selection] of selections.entries()) {
+    if (cancellationToken?.isCancellationRequested) {
+      break;
+    }
+
+    const result = await run(selection, index);
+    if (
+      !result.success ||
+      !result.data ||
+      (result.data.compilation && !result.data.compilation.success)
+    ) {
+      return { ...result, duration: Date.now() - startTime };
+    }
+
+    merged = merged ? mergeResults(merged, result.data) : result.data;
+    if (result.data.FilePath) {
+      files.push(result.data.FilePath);
+    }
+  }
+
+  if (cancellationToken?.isCancellationRequested || !merged) {
+    return {
+      success: false,
+      error: "Operation was cancelled",
+      duration: Date.now() - startTime,
+      cancelled: true,
+    };
+  }
+
+  if (files.length > 1) {
+    for (const file of files.slice(1)) {
+      removeResultsFile(file);
+    }
+    merged = { ...merged };
+    merged.FilePath = files[0];
+    writeAIResultsFile(merged);
+  }
+
+  return {
+    success: true,
+    data: merged,
+    duration: Date.now() - startTime,
+    cancelled: false,
+  };
+}
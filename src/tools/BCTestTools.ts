@@ -6,9 +6,34 @@
  */
 
 import * as vscode from "vscode";
-import { PowerShellRunner } from "../powershell/PowerShellRunner";
+import * as path from "path";
+import {
+  AITestResults,
+  PowerShellRunner,
+} from "../powershell/PowerShellRunner";
 import { CredentialManager } from "../credentials/CredentialManager";
 import { ConfigManager } from "../config/ConfigManager";
+import { rerunFailedTests } from "../testing/rerunFailed";
+import {
+  listResultsFiles,
+  loadLatestResults,
+  readResultsFile,
+} from "../results/resultsReader";
+import { compareRuns } from "../results/runComparison";
+import { recordRun } from "../history/recordRun";
+import { getMaxRetries, retryFailedTests } from "../testing/retryFailed";
+import { planShardedRun, runSharded } from "../testing/parallelRun";
+import { runSuites } from "../testing/suiteRun";
+import { BCTestConfig } from "../config/schemas";
+import { findTestApp, getTestAppNames } from "../config/testApps";
+import {
+  getSuiteNames,
+  getSuiteTags,
+  resolveSuite,
+  selectSuites,
+  SuiteSelection,
+} from "../config/suites";
+import { analyzeImpact } from "../discovery/impactAnalysis";
 
 /**
  * Base class for BC Test Runner tools
@@ -55,6 +80,55 @@ abstract class BCTestRunnerTool implements vscode.LanguageModelTool<unknown> {
     return undefined;
   }
 
+  /**
+   * Retry the failed tests of a run when retries are configured
+   */
+  protected async retryFailures(
+    config: BCTestConfig,
+    configPath: string,
+    environmentName: string,
+    results: AITestResults,
+    credential: { username: string; password: string } | undefined,
+    token: vscode.CancellationToken,
+    shardCredentials?: Map<string, { username: string; password: string }>
+  ): Promise<AITestResults> {
+    return retryFailedTests(this.runner, configPath, environmentName, results, {
+      credential,
+      shardCredentials,
+      cancellationToken: token,
+      maxRetries: getMaxRetries(config),
+      onRetry: (attempt, failures) =>
+        this.outputChannel.appendLine(
+          `[Tool] Retrying ${failures} failed test(s), attempt ${attempt}`
+        ),
+    });
+  }
+
+  /**
+   * Add a completed run to the test history and return the results
+   * updated from the history (flaky tests)
+   */
+  protected async recordHistory(
+    config: BCTestConfig,
+    results: AITestResults
+  ): Promise<AITestResults> {
+    try {
+      return await recordRun(results, {
+        resultsFolder: this.configManager.getResultsFolder(config),
+        keepHistoryCount: config.output.keepHistoryCount,
+        workspacePath: config.workspacePath,
+        performance: config.performance,
+      });
+    } catch (error) {
+      this.outputChannel.appendLine(
+        `[Tool] Failed to record test history: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return results;
+    }
+  }
+
   abstract invoke(
     options: vscode.LanguageModelToolInvocationOptions<unknown>,
     token: vscode.CancellationToken
@@ -66,6 +140,9 @@ abstract class BCTestRunnerTool implements vscode.LanguageModelTool<unknown> {
  */
 interface TestRunParams {
   environment?: string;
+  skipCompile?: boolean;
+  skipPublish?: boolean;
+  testApp?: string;
 }
 
 /**
@@ -115,6 +192,22 @@ export class BCTestRunTool extends BCTestRunnerTool {
         ]);
       }
 
+      if (params.testApp && !findTestApp(config, params.testApp)) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: `Test app '${params.testApp}' not found`,
+                availableTestApps: getTestAppNames(config),
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
       const credential = await this.getCredentials(envName, env.authentication);
 
       this.outputChannel.appendLine(
@@ -122,10 +215,46 @@ export class BCTestRunTool extends BCTestRunnerTool {
       );
       this.outputChannel.show();
 
-      const result = await this.runner.runTests(configPath, envName, {
-        credential,
-        cancellationToken: token,
-      });
+      // Split the codeunits across environments when parallel execution is on
+      const resultsFolder = this.configManager.getResultsFolder(config);
+      const shards = planShardedRun(config, resultsFolder, params.testApp);
+      const credentials = new Map<
+        string,
+        { username: string; password: string }
+      >();
+      for (const shard of shards) {
+        const shardEnv = config.environments.find(
+          (e) => e.name === shard.environment
+        );
+        const shardCredential = await this.getCredentials(
+          shard.environment,
+          shardEnv?.authentication ?? ""
+        );
+        if (shardCredential) {
+          credentials.set(shard.environment, shardCredential);
+        }
+        this.outputChannel.appendLine(
+          `  Shard ${shard.environment}: ${shard.codeunitIds.length} codeunit(s)`
+        );
+      }
+
+      const result =
+        shards.length > 0
+          ? await runSharded(this.runner, configPath, config, shards, {
+              credentials,
+              resultsFolder,
+              skipCompile: params.skipCompile,
+              skipPublish: params.skipPublish,
+              testApp: params.testApp,
+              cancellationToken: token,
+            })
+          : await this.runner.runTests(configPath, envName, {
+              credential,
+              skipCompile: params.skipCompile,
+              skipPublish: params.skipPublish,
+              testApp: params.testApp,
+              cancellationToken: token,
+            });
 
       if (result.cancelled) {
         return new vscode.LanguageModelToolResult([
@@ -145,6 +274,16 @@ export class BCTestRunTool extends BCTestRunnerTool {
 
       // Return the full AI results
       if (result.success && result.data) {
+        result.data = await this.retryFailures(
+          config,
+          configPath,
+          envName,
+          result.data,
+          credential,
+          token,
+          credentials
+        );
+        result.data = await this.recordHistory(config, result.data);
         return new vscode.LanguageModelToolResult([
           new vscode.LanguageModelTextPart(
             JSON.stringify(result.data, null, 2)
@@ -184,23 +323,21 @@ export class BCTestRunTool extends BCTestRunnerTool {
 }
 
 /**
- * Parameters for bc-test-execute tool
+ * Parameters for bc-test-compile and bc-test-publish tools
  */
-interface ExecuteParams {
+interface AppOperationParams {
   environment?: string;
-  codeunitFilter?: string;
-  testMethod?: string;
 }
 
 /**
- * BC Test Execute Tool - Execute tests only (skip compile/publish)
+ * BC Test Compile Tool - Compile all apps in dependency order
  */
-export class BCTestExecuteTool extends BCTestRunnerTool {
+export class BCTestCompileTool extends BCTestRunnerTool {
   async invoke(
-    options: vscode.LanguageModelToolInvocationOptions<ExecuteParams>,
+    options: vscode.LanguageModelToolInvocationOptions<AppOperationParams>,
     token: vscode.CancellationToken
   ): Promise<vscode.LanguageModelToolResult> {
-    const params = options.input as ExecuteParams;
+    const params = options.input as AppOperationParams;
 
     try {
       const configPath = await this.configManager.findConfigFile();
@@ -230,6 +367,7 @@ export class BCTestExecuteTool extends BCTestRunnerTool {
               {
                 success: false,
                 error: `Environment '${envName}' not found`,
+                availableEnvironments: config.environments.map((e) => e.name),
               },
               null,
               2
@@ -241,22 +379,14 @@ export class BCTestExecuteTool extends BCTestRunnerTool {
       const credential = await this.getCredentials(envName, env.authentication);
 
       this.outputChannel.appendLine(
-        `[Tool] bc-test-execute: Executing tests for environment '${envName}'`
+        `[Tool] bc-test-compile: Compiling ${config.apps.join(
+          ", "
+        )} in '${envName}'`
       );
-      if (params.codeunitFilter) {
-        this.outputChannel.appendLine(
-          `  Codeunit filter: ${params.codeunitFilter}`
-        );
-      }
-      if (params.testMethod) {
-        this.outputChannel.appendLine(`  Test method: ${params.testMethod}`);
-      }
       this.outputChannel.show();
 
-      const result = await this.runner.executeTests(configPath, envName, {
+      const result = await this.runner.compileApps(configPath, envName, {
         credential,
-        codeunitFilter: params.codeunitFilter,
-        testMethod: params.testMethod,
         cancellationToken: token,
       });
 
@@ -264,8 +394,9 @@ export class BCTestExecuteTool extends BCTestRunnerTool {
         new vscode.LanguageModelTextPart(
           JSON.stringify(
             {
-              success: result.success,
-              data: result.data,
+              success: result.success && (result.data?.success ?? false),
+              cancelled: result.cancelled,
+              compilation: result.data,
               error: result.error,
               duration: result.duration,
             },
@@ -292,21 +423,14 @@ export class BCTestExecuteTool extends BCTestRunnerTool {
 }
 
 /**
- * Parameters for bc-test-results tool
- */
-interface ResultsParams {
-  resultFile?: string;
-}
-
-/**
- * BC Test Results Tool - Get latest test results
+ * BC Test Publish Tool - Publish compiled apps to the container
  */
-export class BCTestResultsTool extends BCTestRunnerTool {
+export class BCTestPublishTool extends BCTestRunnerTool {
   async invoke(
-    options: vscode.LanguageModelToolInvocationOptions<ResultsParams>,
-    _token: vscode.CancellationToken
+    options: vscode.LanguageModelToolInvocationOptions<AppOperationParams>,
+    token: vscode.CancellationToken
   ): Promise<vscode.LanguageModelToolResult> {
-    const params = options.input as ResultsParams;
+    const params = options.input as AppOperationParams;
 
     try {
       const configPath = await this.configManager.findConfigFile();
@@ -326,24 +450,17 @@ export class BCTestResultsTool extends BCTestRunnerTool {
       }
 
       const config = await this.configManager.loadConfig(configPath);
-      const resultsFolder = this.configManager.getResultsFolder(config);
-
-      this.outputChannel.appendLine(
-        `[Tool] bc-test-results: Reading results from '${resultsFolder}'`
-      );
-
-      const result = await this.runner.getLatestResults(
-        resultsFolder,
-        params.resultFile
-      );
+      const envName = params.environment || config.defaultEnvironment;
+      const env = config.environments.find((e) => e.name === envName);
 
-      if (!result.success) {
+      if (!env) {
         return new vscode.LanguageModelToolResult([
           new vscode.LanguageModelTextPart(
             JSON.stringify(
               {
                 success: false,
-                error: result.error || "No test results found",
+                error: `Environment '${envName}' not found`,
+                availableEnvironments: config.environments.map((e) => e.name),
               },
               null,
               2
@@ -352,8 +469,34 @@ export class BCTestResultsTool extends BCTestRunnerTool {
         ]);
       }
 
+      const credential = await this.getCredentials(envName, env.authentication);
+
+      this.outputChannel.appendLine(
+        `[Tool] bc-test-publish: Publishing ${config.apps.join(
+          ", "
+        )} to '${envName}'`
+      );
+      this.outputChannel.show();
+
+      const result = await this.runner.publishApps(configPath, envName, {
+        credential,
+        cancellationToken: token,
+      });
+
       return new vscode.LanguageModelToolResult([
-        new vscode.LanguageModelTextPart(JSON.stringify(result.data, null, 2)),
+        new vscode.LanguageModelTextPart(
+          JSON.stringify(
+            {
+              success: result.success && (result.data?.success ?? false),
+              cancelled: result.cancelled,
+              publish: result.data,
+              error: result.error,
+              duration: result.duration,
+            },
+            null,
+            2
+          )
+        ),
       ]);
     } catch (error) {
       return new vscode.LanguageModelToolResult([
@@ -373,13 +516,26 @@ export class BCTestResultsTool extends BCTestRunnerTool {
 }
 
 /**
- * BC Test Config Tool - Get configuration
+ * Parameters for bc-test-execute tool
  */
-export class BCTestConfigTool extends BCTestRunnerTool {
+interface ExecuteParams {
+  environment?: string;
+  codeunitFilter?: string;
+  testMethod?: string;
+  testApp?: string;
+  suite?: string;
+}
+
+/**
+ * BC Test Execute Tool - Execute tests only (skip compile/publish)
+ */
+export class BCTestExecuteTool extends BCTestRunnerTool {
   async invoke(
-    _options: vscode.LanguageModelToolInvocationOptions<Record<string, never>>,
-    _token: vscode.CancellationToken
+    options: vscode.LanguageModelToolInvocationOptions<ExecuteParams>,
+    token: vscode.CancellationToken
   ): Promise<vscode.LanguageModelToolResult> {
+    const params = options.input as ExecuteParams;
+
     try {
       const configPath = await this.configManager.findConfigFile();
       if (!configPath) {
@@ -389,7 +545,6 @@ export class BCTestConfigTool extends BCTestRunnerTool {
               {
                 success: false,
                 error: "No bctest.config.json found in workspace",
-                hint: "Create a bctest.config.json file in your workspace root or BCTestRunner folder",
               },
               null,
               2
@@ -399,31 +554,127 @@ export class BCTestConfigTool extends BCTestRunnerTool {
       }
 
       const config = await this.configManager.loadConfig(configPath);
+      const envName = params.environment || config.defaultEnvironment;
+      const env = config.environments.find((e) => e.name === envName);
+
+      if (!env) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: `Environment '${envName}' not found`,
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      if (params.testApp && !findTestApp(config, params.testApp)) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: `Test app '${params.testApp}' not found`,
+                availableTestApps: getTestAppNames(config),
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      const suites = params.suite ? selectSuites(config, params.suite) : [];
+      if (params.suite && suites.length === 0) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: `Suite or tag '${params.suite}' not found`,
+                availableSuites: getSuiteNames(config),
+                availableTags: getSuiteTags(config),
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      // Explicit parameters take precedence over the suites' selections
+      const selections = (
+        suites.length > 0
+          ? suites.map((suite) => resolveSuite(config, suite.name))
+          : [{}]
+      ).map((suite: Partial<SuiteSelection>) => ({
+        codeunitFilter: params.codeunitFilter ?? suite.codeunitFilter,
+        testMethod: params.testMethod ?? suite.testMethod,
+        testApp: params.testApp ?? suite.testApp,
+      }));
+
+      const credential = await this.getCredentials(envName, env.authentication);
 
       this.outputChannel.appendLine(
-        `[Tool] bc-test-config: Loaded configuration from '${configPath}'`
+        `[Tool] bc-test-execute: Executing tests for environment '${envName}'`
+      );
+      if (params.suite) {
+        this.outputChannel.appendLine(
+          `  Suite: ${suites.map((suite) => suite.name).join(", ")}`
+        );
+      }
+      for (const selection of selections) {
+        if (selection.codeunitFilter) {
+          this.outputChannel.appendLine(
+            `  Codeunit filter: ${selection.codeunitFilter}`
+          );
+        }
+        if (selection.testMethod) {
+          this.outputChannel.appendLine(
+            `  Test method: ${selection.testMethod}`
+          );
+        }
+        if (selection.testApp) {
+          this.outputChannel.appendLine(`  Test app: ${selection.testApp}`);
+        }
+      }
+      this.outputChannel.show();
+
+      const result = await runSuites(
+        selections,
+        (selection) =>
+          this.runner.executeTests(configPath, envName, {
+            ...selection,
+            credential,
+            cancellationToken: token,
+          }),
+        token
       );
 
+      if (result.success && result.data) {
+        result.data = await this.retryFailures(
+          config,
+          configPath,
+          envName,
+          result.data,
+          credential,
+          token
+        );
+        result.data = await this.recordHistory(config, result.data);
+      }
+
       return new vscode.LanguageModelToolResult([
         new vscode.LanguageModelTextPart(
           JSON.stringify(
             {
-              success: true,
-              configPath,
-              config: {
-                defaultEnvironment: config.defaultEnvironment,
-                apps: config.apps,
-                testApp: config.testApp,
-                environments: config.environments.map((e) => ({
-                  name: e.name,
-                  description: e.description,
-                  type: e.type,
-                  containerName: e.containerName,
-                  server: e.server,
-                  authentication: e.authentication,
-                })),
-                output: config.output,
-              },
+              success: result.success,
+              data: result.data,
+              error: result.error,
+              duration: result.duration,
             },
             null,
             2
@@ -448,41 +699,593 @@ export class BCTestConfigTool extends BCTestRunnerTool {
 }
 
 /**
- * Register all BC Test Runner tools
+ * Parameters for bc-test-results tool
  */
-export function registerTools(
-  context: vscode.ExtensionContext,
-  runner: PowerShellRunner,
-  credentialManager: CredentialManager,
-  configManager: ConfigManager,
-  outputChannel: vscode.OutputChannel
-): void {
-  // Register bc-test-run tool
-  context.subscriptions.push(
-    vscode.lm.registerTool(
-      "bc-test-run",
-      new BCTestRunTool(runner, credentialManager, configManager, outputChannel)
-    )
-  );
+interface ResultsParams {
+  resultFile?: string;
+}
 
-  // Register bc-test-execute tool
-  context.subscriptions.push(
-    vscode.lm.registerTool(
-      "bc-test-execute",
-      new BCTestExecuteTool(
-        runner,
-        credentialManager,
-        configManager,
-        outputChannel
-      )
-    )
-  );
+/**
+ * BC Test Results Tool - Get latest test results
+ */
+export class BCTestResultsTool extends BCTestRunnerTool {
+  async invoke(
+    options: vscode.LanguageModelToolInvocationOptions<ResultsParams>,
+    _token: vscode.CancellationToken
+  ): Promise<vscode.LanguageModelToolResult> {
+    const params = options.input as ResultsParams;
 
-  // Register bc-test-results tool
-  context.subscriptions.push(
-    vscode.lm.registerTool(
-      "bc-test-results",
-      new BCTestResultsTool(
+    try {
+      const configPath = await this.configManager.findConfigFile();
+      if (!configPath) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: "No bctest.config.json found in workspace",
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      const config = await this.configManager.loadConfig(configPath);
+      const resultsFolder = this.configManager.getResultsFolder(config);
+
+      this.outputChannel.appendLine(
+        `[Tool] bc-test-results: Reading results from '${resultsFolder}'`
+      );
+
+      const results = loadLatestResults(resultsFolder, params.resultFile, {
+        workspacePath: config.workspacePath,
+      });
+
+      if (!results) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: `No test results found in ${resultsFolder}`,
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(JSON.stringify(results, null, 2)),
+      ]);
+    } catch (error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          JSON.stringify(
+            {
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            null,
+            2
+          )
+        ),
+      ]);
+    }
+  }
+}
+
+/**
+ * Parameters for bc-test-compare tool
+ */
+interface CompareParams {
+  baseline?: string;
+  current?: string;
+}
+
+/**
+ * BC Test Compare Tool - Diff two runs into regressions, fixes and slowdowns
+ */
+export class BCTestCompareTool extends BCTestRunnerTool {
+  async invoke(
+    options: vscode.LanguageModelToolInvocationOptions<CompareParams>,
+    _token: vscode.CancellationToken
+  ): Promise<vscode.LanguageModelToolResult> {
+    const params = options.input as CompareParams;
+
+    try {
+      const configPath = await this.configManager.findConfigFile();
+      if (!configPath) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: "No bctest.config.json found in workspace",
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      const config = await this.configManager.loadConfig(configPath);
+      const resultsFolder = this.configManager.getResultsFolder(config);
+      const parseOptions = { workspacePath: config.workspacePath };
+
+      // Default to the latest run and the run before it
+      const files = listResultsFiles(resultsFolder);
+      const current = params.current
+        ? path.resolve(resultsFolder, params.current)
+        : files[0];
+      const baseline = params.baseline
+        ? path.resolve(resultsFolder, params.baseline)
+        : files[files.indexOf(current) + 1];
+
+      if (!current || !baseline) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: `At least two test runs are needed to compare, found ${files.length} in ${resultsFolder}`,
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      this.outputChannel.appendLine(
+        `[Tool] bc-test-compare: Comparing '${path.basename(
+          current
+        )}' with baseline '${path.basename(baseline)}'`
+      );
+
+      const comparison = compareRuns(
+        readResultsFile(baseline, parseOptions),
+        readResultsFile(current, parseOptions)
+      );
+
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(JSON.stringify(comparison, null, 2)),
+      ]);
+    } catch (error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          JSON.stringify(
+            {
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            null,
+            2
+          )
+        ),
+      ]);
+    }
+  }
+}
+
+/**
+ * Parameters for bc-test-impacted tool
+ */
+interface ImpactedParams {
+  baseRef?: string;
+}
+
+/**
+ * BC Test Impacted Tool - Select the tests impacted by the branch changes
+ */
+export class BCTestImpactedTool extends BCTestRunnerTool {
+  async invoke(
+    options: vscode.LanguageModelToolInvocationOptions<ImpactedParams>,
+    _token: vscode.CancellationToken
+  ): Promise<vscode.LanguageModelToolResult> {
+    const params = options.input as ImpactedParams;
+
+    try {
+      const configPath = await this.configManager.findConfigFile();
+      if (!configPath) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: "No bctest.config.json found in workspace",
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      const config = await this.configManager.loadConfig(configPath);
+      const analysis = await analyzeImpact(
+        config,
+        params.baseRef ||
+          vscode.workspace
+            .getConfiguration("bcTestRunner")
+            .get<string>("impactBaseRef")
+      );
+
+      this.outputChannel.appendLine(
+        `[Tool] bc-test-impacted: ${analysis.impactedCodeunits.length} test codeunit(s) impacted by ${analysis.changedFiles.length} changed file(s) since '${analysis.baseRef}'`
+      );
+
+      const relative = (filePath: string) =>
+        path.relative(config.workspacePath, filePath);
+
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          JSON.stringify(
+            {
+              success: true,
+              baseRef: analysis.baseRef,
+              mergeBase: analysis.mergeBase,
+              changedFiles: analysis.changedFiles.map((file) => ({
+                ...file,
+                filePath: relative(file.filePath),
+              })),
+              changedObjects: analysis.changedObjects.map((object) => ({
+                ...object,
+                filePath: relative(object.filePath),
+              })),
+              impactedCodeunits: analysis.impactedCodeunits.map((codeunit) => ({
+                ...codeunit,
+                filePath: relative(codeunit.filePath),
+              })),
+              codeunitFilter: analysis.codeunitFilter,
+              hint:
+                analysis.impactedCodeunits.length > 0
+                  ? "Pass codeunitFilter to bc-test-execute to run only the impacted tests, after publishing the changed apps"
+                  : "No test codeunits depend on the changed AL objects",
+            },
+            null,
+            2
+          )
+        ),
+      ]);
+    } catch (error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          JSON.stringify(
+            {
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            null,
+            2
+          )
+        ),
+      ]);
+    }
+  }
+}
+
+/**
+ * Parameters for bc-test-rerun-failed tool
+ */
+interface RerunFailedParams {
+  environment?: string;
+  resultFile?: string;
+}
+
+/**
+ * BC Test Rerun Failed Tool - Re-run only the failed tests of a result set
+ */
+export class BCTestRerunFailedTool extends BCTestRunnerTool {
+  async invoke(
+    options: vscode.LanguageModelToolInvocationOptions<RerunFailedParams>,
+    token: vscode.CancellationToken
+  ): Promise<vscode.LanguageModelToolResult> {
+    const params = options.input as RerunFailedParams;
+
+    try {
+      const configPath = await this.configManager.findConfigFile();
+      if (!configPath) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: "No bctest.config.json found in workspace",
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      const config = await this.configManager.loadConfig(configPath);
+      const envName = params.environment || config.defaultEnvironment;
+      const env = config.environments.find((e) => e.name === envName);
+
+      if (!env) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: `Environment '${envName}' not found`,
+                availableEnvironments: config.environments.map((e) => e.name),
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      const resultsFolder = this.configManager.getResultsFolder(config);
+      const previous = loadLatestResults(resultsFolder, params.resultFile, {
+        workspacePath: config.workspacePath,
+      });
+      if (!previous) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: `No test results found in ${resultsFolder}`,
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      if (previous.tests.failures.length === 0) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: true,
+                message: "No failed tests to re-run",
+                summary: previous.tests.summary,
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      const credential = await this.getCredentials(envName, env.authentication);
+
+      this.outputChannel.appendLine(
+        `[Tool] bc-test-rerun-failed: Re-running ${previous.tests.failures.length} failed test(s) in '${envName}'`
+      );
+      this.outputChannel.show();
+
+      const result = await rerunFailedTests(
+        this.runner,
+        configPath,
+        envName,
+        previous,
+        { credential, cancellationToken: token }
+      );
+
+      if (result.success && result.data) {
+        result.data = await this.recordHistory(config, result.data);
+      }
+
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          JSON.stringify(
+            {
+              success: result.success,
+              data: result.data,
+              error: result.error,
+              duration: result.duration,
+            },
+            null,
+            2
+          )
+        ),
+      ]);
+    } catch (error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          JSON.stringify(
+            {
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            null,
+            2
+          )
+        ),
+      ]);
+    }
+  }
+}
+
+/**
+ * BC Test Config Tool - Get configuration
+ */
+export class BCTestConfigTool extends BCTestRunnerTool {
+  async invoke(
+    _options: vscode.LanguageModelToolInvocationOptions<Record<string, never>>,
+    _token: vscode.CancellationToken
+  ): Promise<vscode.LanguageModelToolResult> {
+    try {
+      const configPath = await this.configManager.findConfigFile();
+      if (!configPath) {
+        return new vscode.LanguageModelToolResult([
+          new vscode.LanguageModelTextPart(
+            JSON.stringify(
+              {
+                success: false,
+                error: "No bctest.config.json found in workspace",
+                hint: "Create a bctest.config.json file in your workspace root or BCTestRunner folder",
+              },
+              null,
+              2
+            )
+          ),
+        ]);
+      }
+
+      const config = await this.configManager.loadConfig(configPath);
+
+      this.outputChannel.appendLine(
+        `[Tool] bc-test-config: Loaded configuration from '${configPath}'`
+      );
+
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          JSON.stringify(
+            {
+              success: true,
+              configPath,
+              config: {
+                defaultEnvironment: config.defaultEnvironment,
+                apps: config.apps,
+                testApps: config.testApps,
+                suites: config.suites,
+                environments: config.environments.map((e) => ({
+                  name: e.name,
+                  description: e.description,
+                  type: e.type,
+                  containerName: e.containerName,
+                  server: e.server,
+                  authentication: e.authentication,
+                })),
+                output: config.output,
+              },
+            },
+            null,
+            2
+          )
+        ),
+      ]);
+    } catch (error) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          JSON.stringify(
+            {
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            null,
+            2
+          )
+        ),
+      ]);
+    }
+  }
+}
+
+/**
+ * Register all BC Test Runner tools
+ */
+export function registerTools(
+  context: vscode.ExtensionContext,
+  runner: PowerShellRunner,
+  credentialManager: CredentialManager,
+  configManager: ConfigManager,
+  outputChannel: vscode.OutputChannel
+): void {
+  // Register bc-test-run tool
+  context.subscriptions.push(
+    vscode.lm.registerTool(
+      "bc-test-run",
+      new BCTestRunTool(runner, credentialManager, configManager, outputChannel)
+    )
+  );
+
+  // Register bc-test-compile tool
+  context.subscriptions.push(
+    vscode.lm.registerTool(
+      "bc-test-compile",
+      new BCTestCompileTool(
+        runner,
+        credentialManager,
+        configManager,
+        outputChannel
+      )
+    )
+  );
+
+  // Register bc-test-publish tool
+  context.subscriptions.push(
+    vscode.lm.registerTool(
+      "bc-test-publish",
+      new BCTestPublishTool(
+        runner,
+        credentialManager,
+        configManager,
+        outputChannel
+      )
+    )
+  );
+
+  // Register bc-test-execute tool
+  context.subscriptions.push(
+    vscode.lm.registerTool(
+      "bc-test-execute",
+      new BCTestExecuteTool(
+        runner,
+        credentialManager,
+        configManager,
+        outputChannel
+      )
+    )
+  );
+
+  // Register bc-test-results tool
+  context.subscriptions.push(
+    vscode.lm.registerTool(
+      "bc-test-results",
+      new BCTestResultsTool(
+        runner,
+        credentialManager,
+        configManager,
+        outputChannel
+      )
+    )
+  );
+
+  // Register bc-test-rerun-failed tool
+  context.subscriptions.push(
+    vscode.lm.registerTool(
+      "bc-test-rerun-failed",
+      new BCTestRerunFailedTool(
+        runner,
+        credentialManager,
+        configManager,
+        outputChannel
+      )
+    )
+  );
+
+  // Register bc-test-compare tool
+  context.subscriptions.push(
+    vscode.lm.registerTool(
+      "bc-test-compare",
+      new BCTestCompareTool(
+        runner,
+        credentialManager,
+        configManager,
+        outputChannel
+      )
+    )
+  );
+
+  // Register bc-test-impacted tool
+  context.subscriptions.push(
+    vscode.lm.registerTool(
+      "bc-test-impacted",
+      new BCTestImpactedTool(
         runner,
         credentialManager,
         configManager,
@@ -6,12 +6,18 @@
 
 import * as vscode from "vscode";
 import { ConfigManager } from "../config/ConfigManager";
+import { TestDiscovery } from "../discovery/TestDiscovery";
+import { getFlakyTest } from "../history/flakiness";
+import { getBudgetBreach } from "../history/performance";
 import {
-  PowerShellRunner,
   AITestResults,
+  DurationProfile,
+  FlakyTest,
   TestResult,
   TestFailure,
+  TestSummary,
 } from "../powershell/PowerShellRunner";
+import { loadLatestResults } from "../results/resultsReader";
 
 /**
  * Tree item for test results
@@ -21,7 +27,17 @@ export class TestResultTreeItem extends vscode.TreeItem {
     public readonly label: string,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
     public readonly testResult?: TestResult | TestFailure,
-    public readonly category?: "summary" | "passed" | "failed" | "skipped"
+    public readonly category?:
+      | "summary"
+      | "passed"
+      | "failed"
+      | "skipped"
+      | "notRun"
+      | "app",
+    public readonly flaky?: FlakyTest,
+    public readonly budgetBreach?: DurationProfile,
+    /** Test app the item's tests are limited to */
+    public readonly app?: string
   ) {
     super(label, collapsibleState);
     this._setupItem();
@@ -78,6 +94,52 @@ export class TestResultTreeItem extends vscode.TreeItem {
         this.description = `${this.testResult.duration}s`;
       }
 
+      // Show retries, a pass on retry is not a clean pass
+      if ("passedOnRetry" in this.testResult && this.testResult.passedOnRetry) {
+        this.description = `${this.description ?? ""} · passed after retry`;
+        this.tooltip = new vscode.MarkdownString(
+          `**Passed after retry** (${this.testResult.attempts} attempts)\n\n`
+        );
+      } else if (this.testResult.attempts) {
+        this.description = `${this.description ?? ""} · ${
+          this.testResult.attempts
+        } attempts`;
+      }
+
+      // Mark tests that flip between pass and fail across runs
+      if (this.flaky) {
+        this.description = [this.description, "flaky"]
+          .filter(Boolean)
+          .join(" · ");
+        const tooltip =
+          this.tooltip instanceof vscode.MarkdownString
+            ? this.tooltip
+            : new vscode.MarkdownString();
+        tooltip.appendMarkdown(
+          `**Flaky:** ${this.flaky.flips} flips in ${
+            this.flaky.runs
+          } runs (${Math.round(
+            this.flaky.flipRate * 100
+          )}%), recent: ${this.flaky.recentOutcomes.join(", ")}\n\n`
+        );
+        this.tooltip = tooltip;
+      }
+
+      // Warn about tests that took longer than their time budget
+      if (this.budgetBreach) {
+        this.description = [this.description, "⚠ over budget"]
+          .filter(Boolean)
+          .join(" · ");
+        const tooltip =
+          this.tooltip instanceof vscode.MarkdownString
+            ? this.tooltip
+            : new vscode.MarkdownString();
+        tooltip.appendMarkdown(
+          `**Over time budget:** ${this.budgetBreach.duration}s, budget ${this.budgetBreach.budget}s\n\n`
+        );
+        this.tooltip = tooltip;
+      }
+
       // Make failed tests clickable to navigate to file
       if (
         result === "Fail" &&
@@ -121,14 +183,14 @@ export class TestResultsTreeDataProvider
 
   constructor(
     private _configManager: ConfigManager,
-    private _runner: PowerShellRunner
+    private _discovery: TestDiscovery
   ) {
-    this._loadResults();
+    this._loadResults().then(() => this._onDidChangeTreeData.fire());
+    this._discovery.onDidChange(() => this._onDidChangeTreeData.fire());
   }
 
   refresh(): void {
-    this._loadResults();
-    this._onDidChangeTreeData.fire();
+    this._loadResults().then(() => this._onDidChangeTreeData.fire());
   }
 
   private async _loadResults(): Promise<void> {
@@ -142,12 +204,10 @@ export class TestResultsTreeDataProvider
       const config = await this._configManager.loadConfig(configPath);
       const resultsFolder = this._configManager.getResultsFolder(config);
 
-      const result = await this._runner.getLatestResults(resultsFolder);
-      if (result.success && result.data) {
-        this._results = result.data;
-      } else {
-        this._results = null;
-      }
+      this._results =
+        loadLatestResults(resultsFolder, undefined, {
+          workspacePath: config.workspacePath,
+        }) ?? null;
     } catch {
       this._results = null;
     }
@@ -158,13 +218,22 @@ export class TestResultsTreeDataProvider
   }
 
   getChildren(element?: TestResultTreeItem): Thenable<TestResultTreeItem[]> {
+    if (element?.category === "notRun") {
+      return Promise.resolve(this._getNotRunTests());
+    }
+
     if (!this._results) {
-      return Promise.resolve([
-        new TestResultTreeItem(
-          "No test results available",
-          vscode.TreeItemCollapsibleState.None
-        ),
-      ]);
+      const notRun = this._getNotRunCategory();
+      return Promise.resolve(
+        notRun
+          ? [notRun]
+          : [
+              new TestResultTreeItem(
+                "No test results available",
+                vscode.TreeItemCollapsibleState.None
+              ),
+            ]
+      );
     }
 
     if (!element) {
@@ -173,14 +242,20 @@ export class TestResultsTreeDataProvider
     }
 
     // Child items based on category
+    if (element.category === "app") {
+      const app = this._results.tests.apps?.find((a) => a.app === element.app);
+      return Promise.resolve(
+        app ? this._getCategoryItems(app.summary, app.app) : []
+      );
+    }
     if (element.category === "failed") {
-      return Promise.resolve(this._getFailedTests());
+      return Promise.resolve(this._getFailedTests(element.app));
     }
     if (element.category === "passed") {
-      return Promise.resolve(this._getPassedTests());
+      return Promise.resolve(this._getPassedTests(element.app));
     }
     if (element.category === "skipped") {
-      return Promise.resolve(this._getSkippedTests());
+      return Promise.resolve(this._getSkippedTests(element.app));
     }
 
     return Promise.resolve([]);
@@ -211,15 +286,82 @@ export class TestResultsTreeDataProvider
           new vscode.ThemeColor("testing.iconFailed")
         );
     summaryItem.description = `Duration: ${this._results!.tests.duration}`;
+    if (summary.passedAfterRetry) {
+      summaryItem.description += ` · ${summary.passedAfterRetry} passed after retry`;
+    }
+    const breaches = this._results!.aiContext.performance?.budgetBreaches ?? [];
+    if (breaches.length > 0) {
+      summaryItem.description += ` · ⚠ ${breaches.length} over budget`;
+      summaryItem.tooltip = new vscode.MarkdownString(
+        breaches
+          .map(
+            (b) =>
+              `- ${
+                b.method
+                  ? `${b.codeunit}.${b.method}`
+                  : `Codeunit ${b.codeunit}`
+              }: ${b.duration}s (budget ${b.budget}s)`
+          )
+          .join("\n")
+      );
+    }
     items.push(summaryItem);
 
+    // Group the categories per test app when the run covered several
+    const apps = this._results!.tests.apps ?? [];
+    if (apps.length > 1) {
+      for (const app of apps) {
+        const appItem = new TestResultTreeItem(
+          app.app,
+          vscode.TreeItemCollapsibleState.Expanded,
+          undefined,
+          "app",
+          undefined,
+          undefined,
+          app.app
+        );
+        appItem.iconPath = new vscode.ThemeIcon(
+          app.success ? "testing-passed-icon" : "testing-failed-icon",
+          new vscode.ThemeColor(
+            app.success ? "testing.iconPassed" : "testing.iconFailed"
+          )
+        );
+        appItem.description = `${app.summary.passed}/${app.summary.total} passed · ${app.duration}`;
+        appItem.tooltip = `${app.app} (${app.extensionId})`;
+        items.push(appItem);
+      }
+    } else {
+      items.push(...this._getCategoryItems(summary));
+    }
+
+    // Discovered tests without a result yet
+    const notRunItem = this._getNotRunCategory();
+    if (notRunItem) {
+      items.push(notRunItem);
+    }
+
+    return items;
+  }
+
+  /**
+   * Failed, passed and skipped categories of a run or of one of its apps
+   */
+  private _getCategoryItems(
+    summary: TestSummary,
+    app?: string
+  ): TestResultTreeItem[] {
+    const items: TestResultTreeItem[] = [];
+
     // Failed tests category
     if (summary.failed > 0) {
       const failedItem = new TestResultTreeItem(
         `Failed (${summary.failed})`,
         vscode.TreeItemCollapsibleState.Expanded,
         undefined,
-        "failed"
+        "failed",
+        undefined,
+        undefined,
+        app
       );
       failedItem.iconPath = new vscode.ThemeIcon(
         "testing-failed-icon",
@@ -234,7 +376,10 @@ export class TestResultsTreeDataProvider
         `Passed (${summary.passed})`,
         vscode.TreeItemCollapsibleState.Collapsed,
         undefined,
-        "passed"
+        "passed",
+        undefined,
+        undefined,
+        app
       );
       passedItem.iconPath = new vscode.ThemeIcon(
         "testing-passed-icon",
@@ -249,7 +394,10 @@ export class TestResultsTreeDataProvider
         `Skipped (${summary.skipped})`,
         vscode.TreeItemCollapsibleState.Collapsed,
         undefined,
-        "skipped"
+        "skipped",
+        undefined,
+        undefined,
+        app
       );
       skippedItem.iconPath = new vscode.ThemeIcon(
         "testing-skipped-icon",
@@ -261,53 +409,115 @@ export class TestResultsTreeDataProvider
     return items;
   }
 
-  private _getFailedTests(): TestResultTreeItem[] {
+  private _getNotRunCategory(): TestResultTreeItem | undefined {
+    const count = this._getNotRunTests().length;
+    if (count === 0) {
+      return undefined;
+    }
+
+    const item = new TestResultTreeItem(
+      `Not Run (${count})`,
+      this._results
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.Expanded,
+      undefined,
+      "notRun"
+    );
+    item.iconPath = new vscode.ThemeIcon("testing-unset-icon");
+    return item;
+  }
+
+  private _getNotRunTests(): TestResultTreeItem[] {
+    const executed = new Set(
+      (this._results?.tests.allTests ?? []).map(
+        (test) => `${test.codeunitId}:${test.method}`
+      )
+    );
+
+    return this._discovery.getCodeunits().flatMap((codeunit) =>
+      codeunit.testMethods
+        .filter((method) => !executed.has(`${codeunit.id}:${method.name}`))
+        .map((method) => {
+          const item = new TestResultTreeItem(
+            `${codeunit.name}.${method.name}`,
+            vscode.TreeItemCollapsibleState.None
+          );
+          item.iconPath = new vscode.ThemeIcon("testing-unset-icon");
+          item.description = String(codeunit.id);
+          item.tooltip = codeunit.rangeWarning;
+          item.command = {
+            command: "vscode.open",
+            title: "Go to test",
+            arguments: [
+              vscode.Uri.file(codeunit.filePath),
+              {
+                selection: new vscode.Range(method.line, 0, method.line, 0),
+              },
+            ],
+          };
+          return item;
+        })
+    );
+  }
+
+  private _getFailedTests(app?: string): TestResultTreeItem[] {
     if (!this._results) {
       return [];
     }
 
-    return this._results.tests.failures.map((failure) => {
-      const label = `${failure.codeunit}.${failure.method}`;
-      const item = new TestResultTreeItem(
-        label,
-        vscode.TreeItemCollapsibleState.None,
-        failure
-      );
-      return item;
-    });
+    return this._results.tests.failures
+      .filter((failure) => !app || failure.app === app)
+      .map((failure) => {
+        const label = `${failure.codeunit}.${failure.method}`;
+        const item = new TestResultTreeItem(
+          label,
+          vscode.TreeItemCollapsibleState.None,
+          failure,
+          undefined,
+          getFlakyTest(this._results, failure),
+          getBudgetBreach(this._results, failure)
+        );
+        return item;
+      });
   }
 
-  private _getPassedTests(): TestResultTreeItem[] {
+  private _getPassedTests(app?: string): TestResultTreeItem[] {
     if (!this._results) {
       return [];
     }
 
     return this._results.tests.allTests
-      .filter((test) => test.result === "Pass")
+      .filter((test) => test.result === "Pass" && (!app || test.app === app))
       .map((test) => {
         const label = `${test.codeunit}.${test.method}`;
         const item = new TestResultTreeItem(
           label,
           vscode.TreeItemCollapsibleState.None,
-          test
+          test,
+          undefined,
+          getFlakyTest(this._results, test),
+          getBudgetBreach(this._results, test)
         );
         return item;
       });
   }
 
-  private _getSkippedTests(): TestResultTreeItem[] {
+  private _getSkippedTests(app?: string): TestResultTreeItem[] {
     if (!this._results) {
       return [];
     }
 
     return this._results.tests.allTests
-      .filter((test) => test.result === "Skip")
+      .filter((test) => test.result === "Skip" && (!app || test.app === app))
       .map((test) => {
         const label = `${test.codeunit}.${test.method}`;
         const item = new TestResultTreeItem(
           label,
           vscode.TreeItemCollapsibleState.None,
-          test
+          test,
+          undefined,
+          getFlakyTest(this._results, test),
+          getBudgetBreach(this._results, test)
         );
         return item;
       });
@@ -0,0 +1,139 @@
+/**
+ * BC Test Runner - CLI Tests
+ *
+ * Tests for the command line arguments and credential lookup of the CLI.
+ */
+
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { parseCliArgs, UsageError } from "../src/cli/args";
+import {
+  getCredentialVariables,
+  resolveCredential,
+} from "../src/cli/credentials";
+import { createTempFolder, removeTempFolder } from "./fixtures";
+
+describe("parseCliArgs", () => {
+  it("should parse the options of the run command", () => {
+    const options = parseCliArgs([
+      "run",
+      "--config",
+      "bctest.config.json",
+      "--env",
+      "docker",
+      "--test-app",
+      "Unit Tests",
+      "--format",
+      "junit, sarif",
+      "--format",
+      "html",
+      "--skip-compile",
+      "--quiet",
+    ]);
+
+    assert.deepEqual(options, {
+      command: "run",
+      configPath: "bctest.config.json",
+      environment: "docker",
+      testApp: "Unit Tests",
+      formats: ["junit", "sarif", "html"],
+      credentialsFile: undefined,
+      skipCompile: true,
+      skipPublish: false,
+      quiet: true,
+    });
+  });
+
+  it("should show the help without a command or with --help", () => {
+    assert.equal(parseCliArgs([]).command, "help");
+    assert.equal(parseCliArgs(["help"]).command, "help");
+    assert.equal(parseCliArgs(["run", "-h"]).command, "help");
+  });
+
+  it("should reject unknown commands, arguments and options", () => {
+    assert.throws(() => parseCliArgs(["test"]), UsageError);
+    assert.throws(() => parseCliArgs(["run", "extra"]), UsageError);
+    assert.throws(() => parseCliArgs(["run", "--unknown"]), UsageError);
+  });
+});
+
+// Property names are environment variable names
+/* eslint-disable @typescript-eslint/naming-convention */
+
+describe("CLI credentials", () => {
+  let folder: string;
+
+  before(() => {
+    folder = createTempFolder();
+  });
+
+  after(() => removeTempFolder(folder));
+
+  it("should name the variables of an environment", () => {
+    assert.deepEqual(getCredentialVariables("bc-sandbox"), [
+      ["BCTEST_BC_SANDBOX_USERNAME", "BCTEST_BC_SANDBOX_PASSWORD"],
+      ["BCTEST_USERNAME", "BCTEST_PASSWORD"],
+    ]);
+  });
+
+  it("should prefer the environment's entry of the credentials file", () => {
+    const file = path.join(folder, "credentials.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        docker: { username: "admin", password: "secret" },
+        sandbox: { username: "sandbox", password: "other" },
+      })
+    );
+
+    assert.deepEqual(
+      resolveCredential("docker", {
+        file,
+        env: { BCTEST_USERNAME: "env", BCTEST_PASSWORD: "env" },
+      }),
+      { username: "admin", password: "secret" }
+    );
+  });
+
+  it("should use a single credential of the file for every environment", () => {
+    const file = path.join(folder, "single.json");
+    fs.writeFileSync(file, JSON.stringify({ username: "u", password: "p" }));
+
+    assert.deepEqual(resolveCredential("docker", { file, env: {} }), {
+      username: "u",
+      password: "p",
+    });
+  });
+
+  it("should fall back to environment variables", () => {
+    const env = {
+      BCTEST_DOCKER_USERNAME: "docker-user",
+      BCTEST_DOCKER_PASSWORD: "",
+      BCTEST_USERNAME: "user",
+      BCTEST_PASSWORD: "password",
+    };
+
+    assert.deepEqual(resolveCredential("docker", { env }), {
+      username: "docker-user",
+      password: "",
+    });
+    assert.deepEqual(resolveCredential("sandbox", { env }), {
+      username: "user",
+      password: "password",
+    });
+    assert.equal(resolveCredential("sandbox", { env: {} }), undefined);
+  });
+
+  it("should reject a credentials file that is not a JSON object", () => {
+    const file = path.join(folder, "invalid.json");
+    fs.writeFileSync(file, "[]");
+
+    assert.throws(
+      () => resolveCredential("docker", { file, env: {} }),
+      /must contain a JSON object/
+    );
+  });
+});
+
+/* eslint-enable @typescript-eslint/naming-convention */
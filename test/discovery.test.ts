@@ -0,0 +1,190 @@
+/**
+ * BC Test Runner - Discovery Tests
+ *
+ * Tests for the AL parser and the dependency index.
+ */
+
+import * as assert from "node:assert/strict";
+import {
+  findEnclosingProcedure,
+  parseObjectDeclarations,
+  parseTestCodeunits,
+  stripComments,
+} from "../src/discovery/ALParser";
+import {
+  DependencyIndex,
+  parseObjectReferences,
+} from "../src/discovery/DependencyIndex";
+
+const TEST_CODEUNIT = `codeunit 50100 "Sales Tests"
+{
+    Subtype = Test;
+
+    var
+        Assert: Codeunit "Library Assert";
+
+    [Test]
+    [HandlerFunctions('ConfirmHandler')]
+    procedure "Post Order"()
+    var
+        Helper: Codeunit "Sales Helper";
+    begin
+        // end of the comment is not a keyword
+        if Helper.IsReady() then begin
+            Assert.IsTrue(true, 'begin');
+        end;
+        case Helper.Kind() of
+            1:
+                exit;
+        end;
+    end;
+
+    [ConfirmHandler]
+    procedure ConfirmHandler(Question: Text; var Reply: Boolean)
+    begin
+        Reply := true;
+    end;
+
+    local procedure Setup()
+    begin
+    end;
+}
+`;
+
+describe("ALParser", () => {
+  it("should strip line and block comments", () => {
+    const code = stripComments("a := 1; // note\n/* block\nstill */ b := 2;");
+    assert.ok(!code.includes("note"));
+    assert.ok(!code.includes("block"));
+    assert.ok(code.includes("b := 2;"));
+    // Line numbers are kept
+    assert.equal(code.split("\n").length, 3);
+  });
+
+  it("should parse object declarations", () => {
+    const objects = parseObjectDeclarations(
+      'tableextension 50110 "Customer Ext" extends Customer\n{\n}\n'
+    );
+    assert.equal(objects.length, 1);
+    assert.equal(objects[0].type, "tableextension");
+    assert.equal(objects[0].id, 50110);
+    assert.equal(objects[0].name, "Customer Ext");
+    assert.equal(objects[0].extends, "Customer");
+  });
+
+  it("should parse test methods and handler functions", () => {
+    const [codeunit] = parseTestCodeunits(TEST_CODEUNIT, "Sales.Codeunit.al");
+    assert.equal(codeunit.id, 50100);
+    assert.equal(codeunit.name, "Sales Tests");
+    assert.deepEqual(
+      codeunit.testMethods.map((m) => ({ name: m.name, handlers: m.handlers })),
+      [{ name: "Post Order", handlers: ["ConfirmHandler"] }]
+    );
+    assert.deepEqual(
+      codeunit.handlerFunctions.map((h) => [h.name, h.kind]),
+      [["ConfirmHandler", "ConfirmHandler"]]
+    );
+  });
+
+  it("should ignore codeunits that are not test codeunits", () => {
+    const codeunits = parseTestCodeunits(
+      'codeunit 50200 "Sales Helper"\n{\n    procedure IsReady(): Boolean\n    begin\n    end;\n}\n',
+      "Helper.Codeunit.al"
+    );
+    assert.equal(codeunits.length, 0);
+  });
+
+  describe("findEnclosingProcedure", () => {
+    const lines = TEST_CODEUNIT.split("\n");
+    const lineOf = (text: string) =>
+      lines.findIndex((line) => line.includes(text));
+
+    it("should find the procedure from its attributes to its last end", () => {
+      assert.equal(
+        findEnclosingProcedure(TEST_CODEUNIT, lineOf("[Test]")),
+        "Post Order"
+      );
+      assert.equal(
+        findEnclosingProcedure(TEST_CODEUNIT, lineOf("Assert.IsTrue")),
+        "Post Order"
+      );
+      assert.equal(
+        findEnclosingProcedure(TEST_CODEUNIT, lineOf("exit;") + 2),
+        "Post Order"
+      );
+      assert.equal(
+        findEnclosingProcedure(TEST_CODEUNIT, lineOf("Reply := true")),
+        "ConfirmHandler"
+      );
+      assert.equal(
+        findEnclosingProcedure(TEST_CODEUNIT, lineOf("local procedure Setup")),
+        "Setup"
+      );
+    });
+
+    it("should return undefined outside procedures", () => {
+      assert.equal(
+        findEnclosingProcedure(TEST_CODEUNIT, lineOf("Subtype")),
+        undefined
+      );
+      assert.equal(
+        findEnclosingProcedure(TEST_CODEUNIT, lineOf("Assert: Codeunit")),
+        undefined
+      );
+      // Blank line between two procedures
+      assert.equal(
+        findEnclosingProcedure(TEST_CODEUNIT, lineOf("[ConfirmHandler]") - 1),
+        undefined
+      );
+    });
+  });
+});
+
+describe("DependencyIndex", () => {
+  const table = 'table 50000 "Sales Order"\n{\n}\n';
+  const helper = `codeunit 50200 "Sales Helper"
+{
+    procedure IsReady(): Boolean
+    var
+        SalesOrder: Record "Sales Order";
+    begin
+    end;
+}
+`;
+  const unrelated = 'codeunit 50300 "Other Tests"\n{\n    Subtype = Test;\n}\n';
+
+  it("should parse object references", () => {
+    const references = parseObjectReferences(TEST_CODEUNIT);
+    assert.deepEqual(references.map((r) => `${r.type} ${r.name}`).sort(), [
+      "codeunit Library Assert",
+      "codeunit Sales Helper",
+    ]);
+  });
+
+  it("should find the test codeunits that depend on a changed file", () => {
+    const index = new DependencyIndex();
+    index.update("/src/Sales.Table.al", table);
+    index.update("/src/Helper.Codeunit.al", helper);
+    index.update("/test/Sales.Codeunit.al", TEST_CODEUNIT);
+    index.update("/test/Other.Codeunit.al", unrelated);
+
+    const affected = index.findAffectedCodeunits(["/src/Sales.Table.al"]);
+    assert.deepEqual(
+      affected.map((a) => a.id),
+      [50100]
+    );
+    assert.match(affected[0].reason, /Sales Helper/);
+    assert.match(affected[0].reason, /Sales Order/);
+  });
+
+  it("should select the test codeunits of a changed test file", () => {
+    const index = new DependencyIndex();
+    index.update("/test/Other.Codeunit.al", unrelated);
+
+    const affected = index.findAffectedCodeunits(["/test/Other.Codeunit.al"]);
+    assert.deepEqual(
+      affected.map((a) => [a.id, a.reason]),
+      [[50300, "Other.Codeunit.al changed"]]
+    );
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * BC Test Runner - Test Fixtures
+ *
+ * Builds result sets and temporary folders for the unit tests.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  AITestResults,
+  TestFailure,
+  TestResult,
+} from "../src/powershell/PowerShellRunner";
+import { buildErrorLocations, summarize } from "../src/results/resultsMerger";
+
+/**
+ * Create a test result
+ */
+export function createTest(
+  codeunitId: number,
+  method: string,
+  result: TestResult["result"] = "Pass",
+  duration = "00:00:01"
+): TestResult {
+  return {
+    codeunit: `Test Codeunit ${codeunitId}`,
+    codeunitId,
+    method,
+    name: method,
+    result,
+    duration,
+  };
+}
+
+/**
+ * Create a result set holding the given tests. Failed tests get a failure
+ * with a line number, so they produce error locations.
+ */
+export function createResults(
+  tests: TestResult[],
+  overrides: Partial<AITestResults> = {}
+): AITestResults {
+  const failures: TestFailure[] = tests
+    .filter((test) => test.result === "Fail")
+    .map((test) => ({
+      codeunit: test.codeunit,
+      codeunitId: test.codeunitId,
+      method: test.method,
+      testName: test.name,
+      error: `${test.method} failed`,
+      duration: test.duration,
+      lineNumber: 10,
+    }));
+  const summary = summarize(tests);
+
+  return {
+    schema: "1.0",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    environment: {
+      name: "docker",
+      server: "http://bcserver",
+      serverInstance: "BC",
+      authentication: "UserPassword",
+    },
+    tests: {
+      success: summary.failed === 0 && summary.total > 0,
+      summary,
+      duration: "00:00:10",
+      failures,
+      allTests: tests,
+    },
+    aiContext: {
+      analysisHints: [],
+      suggestedActions: [],
+      errorLocations: buildErrorLocations(failures),
+    },
+    ...overrides,
+  };
+}
+
+/**
+ * Create an empty temporary folder
+ */
+export function createTempFolder(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "bctest-"));
+}
+
+/**
+ * Remove a temporary folder and its content
+ */
+export function removeTempFolder(folder: string): void {
+  fs.rmSync(folder, { recursive: true, force: true });
+}
@@ -0,0 +1,172 @@
+/**
+ * BC Test Runner - History Tests
+ *
+ * Tests for the run history index and flaky test detection.
+ */
+
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { findFlakyTests } from "../src/history/flakiness";
+import { HistoryEntry, TestHistory } from "../src/history/TestHistory";
+import {
+  createResults,
+  createTempFolder,
+  createTest,
+  removeTempFolder,
+} from "./fixtures";
+
+function createEntry(
+  index: number,
+  outcomes: Record<string, HistoryEntry["tests"][number]["result"]>
+): HistoryEntry {
+  const tests = Object.entries(outcomes).map(([method, result]) => ({
+    codeunitId: 50100,
+    codeunit: "Sales Tests",
+    method,
+    result,
+    duration: 1,
+  }));
+  return {
+    timestamp: `2026-01-0${index + 1}T00:00:00.000Z`,
+    environment: "docker",
+    success: tests.every((t) => t.result !== "Fail"),
+    summary: {
+      total: tests.length,
+      passed: tests.filter((t) => t.result === "Pass").length,
+      failed: tests.filter((t) => t.result === "Fail").length,
+      skipped: tests.filter((t) => t.result === "Skip").length,
+    },
+    duration: tests.length,
+    tests,
+  };
+}
+
+describe("TestHistory", () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = createTempFolder();
+  });
+
+  afterEach(() => removeTempFolder(folder));
+
+  it("should record runs oldest first", async () => {
+    const history = new TestHistory(folder);
+    await history.record(
+      createResults([createTest(50100, "PostOrder", "Fail")], {
+        timestamp: "2026-01-02T00:00:00.000Z",
+      })
+    );
+    await history.record(
+      createResults([createTest(50100, "PostOrder", "Pass", "00:00:02")], {
+        timestamp: "2026-01-01T00:00:00.000Z",
+      })
+    );
+
+    const entries = history.getEntries();
+    assert.deepEqual(
+      entries.map((e) => [e.timestamp, e.success]),
+      [
+        ["2026-01-01T00:00:00.000Z", true],
+        ["2026-01-02T00:00:00.000Z", false],
+      ]
+    );
+    assert.equal(entries[0].tests[0].duration, 2);
+    assert.deepEqual(
+      history.getPassRateTrend().map((p) => p.passRate),
+      [100, 0]
+    );
+  });
+
+  it("should replace the entry of a re-run merged into its result file", async () => {
+    const history = new TestHistory(folder);
+    const filePath = path.join(folder, "TestResults_1_AI.json");
+    const failed = createResults([createTest(50100, "PostOrder", "Fail")]);
+    failed.FilePath = filePath;
+    const rerun = createResults([createTest(50100, "PostOrder")], {
+      timestamp: "2026-01-01T00:05:00.000Z",
+    });
+    rerun.FilePath = filePath;
+
+    await history.record(failed);
+    await history.record(rerun);
+
+    const entries = history.getEntries();
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].resultFile, "TestResults_1_AI.json");
+    assert.equal(entries[0].success, true);
+  });
+
+  it("should not record runs that failed to compile", async () => {
+    const history = new TestHistory(folder);
+    const results = createResults([]);
+    results.compilation = {
+      success: false,
+      apps: [],
+      duration: "00:00:05",
+      errors: [],
+      warnings: [],
+    };
+
+    assert.equal(await history.record(results), undefined);
+    assert.equal(fs.existsSync(history.filePath), false);
+  });
+
+  it("should filter entries by environment and limit", () => {
+    const history = new TestHistory(folder);
+    const lines = [0, 1, 2].map((index) =>
+      JSON.stringify({
+        ...createEntry(index, { postOrder: "Pass" }),
+        environment: index === 1 ? "sandbox" : "docker",
+      })
+    );
+    // A line truncated by an interrupted write is skipped
+    fs.writeFileSync(history.filePath, [...lines, '{"timestamp'].join("\n"));
+
+    assert.equal(history.getEntries().length, 3);
+    assert.deepEqual(
+      history.getEntries({ environment: "docker" }).map((e) => e.timestamp),
+      ["2026-01-01T00:00:00.000Z", "2026-01-03T00:00:00.000Z"]
+    );
+    assert.equal(history.getEntries({ limit: 1 })[0].environment, "docker");
+  });
+});
+
+describe("flakiness", () => {
+  it("should report tests that flip between pass and fail", () => {
+    const outcomes = ["Pass", "Fail", "Pass", "Fail", "Pass"] as const;
+    const entries = outcomes.map((result, index) =>
+      createEntry(index, { flaky: result, stable: "Pass" })
+    );
+
+    const flaky = findFlakyTests(entries);
+
+    assert.equal(flaky.length, 1);
+    assert.equal(flaky[0].method, "flaky");
+    assert.equal(flaky[0].runs, 5);
+    assert.equal(flaky[0].failures, 2);
+    assert.equal(flaky[0].flips, 4);
+    assert.equal(flaky[0].flipRate, 1);
+    assert.deepEqual(flaky[0].recentOutcomes, [...outcomes]);
+  });
+
+  it("should not report a regression that keeps failing", () => {
+    const outcomes = ["Pass", "Pass", "Fail", "Fail", "Fail"] as const;
+    const entries = outcomes.map((result, index) =>
+      createEntry(index, { broken: result })
+    );
+
+    assert.deepEqual(findFlakyTests(entries), []);
+  });
+
+  it("should ignore skipped runs and require enough runs", () => {
+    const outcomes = ["Pass", "Skip", "Fail", "Skip", "Pass"] as const;
+    const entries = outcomes.map((result, index) =>
+      createEntry(index, { sometimes: result })
+    );
+
+    assert.deepEqual(findFlakyTests(entries), []);
+    assert.equal(findFlakyTests(entries, { minRuns: 3 }).length, 1);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * BC Test Runner - Results Tests
+ *
+ * Tests for the XUnit and AI JSON parsers and the results merger.
+ */
+
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { readAIResultsFile } from "../src/results/resultsReader";
+import {
+  buildErrorLocations,
+  mergeResults,
+} from "../src/results/resultsMerger";
+import { parseStackTrace, parseXUnitResults } from "../src/results/xunitParser";
+import {
+  createResults,
+  createTempFolder,
+  createTest,
+  removeTempFolder,
+} from "./fixtures";
+
+const XUNIT = `<?xml version="1.0" encoding="utf-8"?>
+<assemblies>
+  <assembly name="Sales Tests (50100)" time="3.5">
+    <collection>
+      <test name="Sales Tests:PostOrder" method="PostOrder" time="1.5" result="Pass" />
+      <test name="Sales Tests:ShipOrder" method="ShipOrder" time="2" result="Fail">
+        <failure>
+          <message>Assert.AreEqual failed. Expected:&lt;1&gt;</message>
+          <stack-trace>Sales Tests(50100).ShipOrder line 12 - Sales Test App</stack-trace>
+        </failure>
+      </test>
+      <test name="Sales Tests:Obsolete" method="Obsolete" time="0" result="Skip" />
+    </collection>
+  </assembly>
+</assemblies>
+`;
+
+describe("xunitParser", () => {
+  let folder: string;
+
+  before(() => {
+    folder = createTempFolder();
+    fs.mkdirSync(path.join(folder, "test"));
+    fs.writeFileSync(path.join(folder, "test", "Sales Tests.Codeunit.al"), "");
+  });
+
+  after(() => removeTempFolder(folder));
+
+  it("should parse tests, failures and the summary", () => {
+    const results = parseXUnitResults(XUNIT, {
+      timestamp: "2026-01-01T00:00:00.000Z",
+    });
+
+    assert.equal(results.timestamp, "2026-01-01T00:00:00.000Z");
+    assert.deepEqual(results.tests.summary, {
+      total: 3,
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+    });
+    assert.equal(results.tests.success, false);
+    assert.equal(results.tests.duration, "00:00:03.5000000");
+    assert.deepEqual(
+      results.tests.allTests.map((t) => [t.codeunitId, t.method, t.result]),
+      [
+        [50100, "PostOrder", "Pass"],
+        [50100, "ShipOrder", "Fail"],
+        [50100, "Obsolete", "Skip"],
+      ]
+    );
+
+    const [failure] = results.tests.failures;
+    assert.equal(failure.error, "Assert.AreEqual failed. Expected:<1>");
+    assert.equal(failure.lineNumber, 12);
+    assert.equal(failure.filePath, undefined);
+  });
+
+  it("should locate the source file of a failure in the workspace", () => {
+    const results = parseXUnitResults(XUNIT, { workspacePath: folder });
+
+    const [failure] = results.tests.failures;
+    assert.equal(
+      failure.filePath,
+      path.join(folder, "test", "Sales Tests.Codeunit.al")
+    );
+    assert.equal(results.aiContext.errorLocations?.length, 1);
+  });
+
+  it("should reject a document without assemblies", () => {
+    assert.throws(
+      () => parseXUnitResults("<testsuites />"),
+      /missing <assemblies> element/
+    );
+  });
+
+  it("should parse the first AL frame of a stack trace", () => {
+    assert.deepEqual(
+      parseStackTrace(
+        "Library Assert(130002).AreEqual line 5\nSales Tests(50100).ShipOrder line 12"
+      ),
+      {
+        codeunit: "Library Assert",
+        codeunitId: 130002,
+        method: "AreEqual",
+        lineNumber: 5,
+        filePath: undefined,
+      }
+    );
+    assert.equal(parseStackTrace("no frames here"), undefined);
+    assert.equal(parseStackTrace(undefined), undefined);
+  });
+});
+
+describe("resultsReader", () => {
+  let folder: string;
+
+  before(() => {
+    folder = createTempFolder();
+  });
+
+  after(() => removeTempFolder(folder));
+
+  it("should read an AI results file and set its path", () => {
+    const filePath = path.join(folder, "TestResults_1_AI.json");
+    const results = createResults([
+      createTest(50100, "PostOrder"),
+      createTest(50100, "ShipOrder", "Fail"),
+    ]);
+    // Files written by PowerShell may start with a byte order mark
+    fs.writeFileSync(filePath, "\uFEFF" + JSON.stringify(results), "utf-8");
+
+    const read = readAIResultsFile(filePath);
+    assert.equal(read.FilePath, filePath);
+    assert.deepEqual(read.tests.summary, results.tests.summary);
+    assert.deepEqual(read.tests.failures, results.tests.failures);
+  });
+
+  it("should reject invalid JSON", () => {
+    const filePath = path.join(folder, "TestResults_2_AI.json");
+    fs.writeFileSync(filePath, "{ not json", "utf-8");
+
+    assert.throws(() => readAIResultsFile(filePath), /Invalid JSON/);
+  });
+
+  it("should reject JSON that is not a result set", () => {
+    const filePath = path.join(folder, "TestResults_3_AI.json");
+    fs.writeFileSync(filePath, JSON.stringify({ schema: "1.0" }), "utf-8");
+
+    assert.throws(() => readAIResultsFile(filePath), /Invalid results file/);
+  });
+});
+
+describe("resultsMerger", () => {
+  it("should replace re-run outcomes and keep the other tests", () => {
+    const previous = createResults([
+      createTest(50100, "PostOrder"),
+      createTest(50100, "ShipOrder", "Fail"),
+      createTest(50101, "Invoice", "Fail"),
+    ]);
+    const rerun = createResults(
+      [createTest(50100, "ShipOrder"), createTest(50101, "Invoice", "Fail")],
+      { timestamp: "2026-01-02T00:00:00.000Z" }
+    );
+
+    const merged = mergeResults(previous, rerun);
+
+    assert.equal(merged.timestamp, "2026-01-02T00:00:00.000Z");
+    assert.deepEqual(merged.tests.summary, {
+      total: 3,
+      passed: 2,
+      failed: 1,
+      skipped: 0,
+    });
+    assert.equal(merged.tests.success, false);
+    assert.deepEqual(
+      merged.tests.failures.map((f) => f.method),
+      ["Invoice"]
+    );
+    assert.deepEqual(
+      merged.aiContext.errorLocations?.map((l) => l.method),
+      ["Invoice"]
+    );
+  });
+
+  it("should succeed when the re-run fixes every failure", () => {
+    const previous = createResults([
+      createTest(50100, "PostOrder"),
+      createTest(50100, "ShipOrder", "Fail"),
+    ]);
+    const rerun = createResults([createTest(50100, "ShipOrder")]);
+
+    const merged = mergeResults(previous, rerun);
+
+    assert.equal(merged.tests.success, true);
+    assert.deepEqual(merged.tests.failures, []);
+    assert.deepEqual(merged.aiContext.errorLocations, []);
+  });
+
+  it("should fail when the re-run reports a test run error", () => {
+    const previous = createResults([createTest(50100, "PostOrder")]);
+    const rerun = createResults([createTest(50100, "PostOrder")]);
+    rerun.tests.error = "Container stopped";
+
+    const merged = mergeResults(previous, rerun);
+
+    assert.equal(merged.tests.success, false);
+    assert.equal(merged.tests.error, "Container stopped");
+  });
+
+  it("should only build error locations for located failures", () => {
+    const [located, unlocated] = createResults([
+      createTest(50100, "ShipOrder", "Fail"),
+      createTest(50100, "PostOrder", "Fail"),
+    ]).tests.failures;
+    unlocated.lineNumber = undefined;
+
+    const locations = buildErrorLocations([located, unlocated]);
+
+    assert.deepEqual(
+      locations.map((l) => [l.method, l.type, l.line]),
+      [["ShipOrder", "test-failure", 10]]
+    );
+  });
+});
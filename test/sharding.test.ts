@@ -0,0 +1,124 @@
+/**
+ * BC Test Runner - Sharding Tests
+ *
+ * Tests for splitting codeunits across environments and merging the
+ * results of the shards.
+ */
+
+import * as assert from "node:assert/strict";
+import {
+  getShardFilter,
+  mergeShardResults,
+  planShards,
+  resolveShardCodeunits,
+} from "../src/testing/sharding";
+import { createResults, createTest } from "./fixtures";
+
+describe("sharding", () => {
+  it("should balance shards by codeunit duration", () => {
+    const durations = new Map([
+      [50100, 60],
+      [50101, 30],
+      [50102, 20],
+      [50103, 10],
+    ]);
+
+    const shards = planShards(
+      [50100, 50101, 50102, 50103],
+      ["docker1", "docker2"],
+      durations
+    );
+
+    assert.deepEqual(shards, [
+      { environment: "docker1", codeunitIds: [50100], estimatedDuration: 60 },
+      {
+        environment: "docker2",
+        codeunitIds: [50101, 50102, 50103],
+        estimatedDuration: 60,
+      },
+    ]);
+  });
+
+  it("should count codeunits without history with the average duration", () => {
+    const durations = new Map([
+      [50100, 10],
+      [50101, 30],
+    ]);
+
+    const shards = planShards([50100, 50101, 50102], ["a", "b"], durations);
+
+    assert.deepEqual(
+      shards.map((s) => [s.codeunitIds, s.estimatedDuration]),
+      [
+        [[50101], 30],
+        [[50100, 50102], 30],
+      ]
+    );
+  });
+
+  it("should drop environments without codeunits", () => {
+    const shards = planShards([50100], ["a", "b", "c"]);
+
+    assert.deepEqual(
+      shards.map((s) => s.environment),
+      ["a"]
+    );
+  });
+
+  it("should build the codeunit filter of a shard", () => {
+    assert.equal(
+      getShardFilter({
+        environment: "a",
+        codeunitIds: [50103, 50100, 50101, 50102, 50110],
+        estimatedDuration: 0,
+      }),
+      "50100..50103|50110"
+    );
+  });
+
+  it("should resolve the codeunits of a range", () => {
+    assert.deepEqual(
+      resolveShardCodeunits("50100..50199", [50105, 50100, 60000]),
+      [50100, 50105]
+    );
+    assert.deepEqual(
+      resolveShardCodeunits("50100..50102", []),
+      [50100, 50101, 50102]
+    );
+    assert.deepEqual(resolveShardCodeunits("50000..59999", []), []);
+  });
+
+  it("should merge shard results with the duration of the slowest shard", () => {
+    const shards = planShards([50100, 50101], ["a", "b"]);
+    const first = createResults([createTest(50100, "PostOrder")], {
+      timestamp: "2026-01-01T00:00:00.000Z",
+    });
+    first.tests.duration = "00:00:20";
+    const second = createResults([createTest(50101, "ShipOrder", "Fail")], {
+      timestamp: "2026-01-01T00:01:00.000Z",
+    });
+    second.environment = { ...second.environment, name: "b" };
+    second.tests.duration = "00:00:45";
+    second.tests.error = "Container stopped";
+
+    const merged = mergeShardResults(shards, [first, second]);
+
+    assert.equal(merged.timestamp, "2026-01-01T00:01:00.000Z");
+    assert.equal(merged.tests.duration, "00:00:45.0000000");
+    assert.deepEqual(merged.tests.summary, {
+      total: 2,
+      passed: 1,
+      failed: 1,
+      skipped: 0,
+    });
+    assert.equal(merged.tests.success, false);
+    assert.equal(merged.tests.error, "b: Container stopped");
+    assert.deepEqual(
+      merged.shards?.map((s) => [s.environment, s.codeunitIds, s.success]),
+      [
+        ["docker", [50100], true],
+        ["b", [50101], false],
+      ]
+    );
+  });
+});